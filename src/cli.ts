@@ -0,0 +1,362 @@
+#!/usr/bin/env node
+import fs from 'fs';
+import path from 'path';
+import { text } from 'stream/consumers';
+import { loadAssets } from './utils/assets';
+import { BATCH_CONCURRENCY, describeFailure, forEachConcurrently, safeFilename } from './utils/batchRenderer';
+import { shutdownBrowserPool } from './utils/browserPool';
+import { CLI_USAGE, CliCommand, CliUsageError, parseCliArgs } from './utils/cliArgs';
+import { loadLocales } from './utils/i18n';
+import { PdfOptions, RenderedDocument, renderDocument } from './utils/pdfGenerator';
+import { PdfRequestBody, preparePdfRequest, PropsValidationError } from './utils/pdfRequest';
+import { TemplateError } from './utils/templateErrors';
+import { getTemplate, loadTemplateFile, loadTemplates } from './utils/templateRegistry';
+import { shutdownTemplateSandbox } from './utils/templateSandbox';
+import { loadThemes } from './utils/themes';
+
+type TemplateFields = Pick<PdfRequestBody, 'templateType' | 'jsxTemplate'>;
+
+// Options holding objects, which an options file and the flags fill in together
+const NESTED_OPTIONS = ['margin', 'variables', 'image', 'metadata', 'encryption', 'signature'] as const;
+
+/**
+ * Reads a file, or stdin for "-"
+ * @param file Path of the file
+ * @returns Contents of the file
+ */
+async function readInput(file: string): Promise<string> {
+  return file === '-' ? text(process.stdin) : fs.promises.readFile(file, 'utf8');
+}
+
+/**
+ * Reads a JSON file, or JSON from stdin for "-"
+ * @param file Path of the file
+ * @returns Parsed value
+ * @throws Error naming the file when it is not valid JSON
+ */
+async function readJson(file: string): Promise<any> {
+  const contents = await readInput(file);
+  try {
+    return JSON.parse(contents);
+  } catch (error) {
+    throw new Error(`${file === '-' ? 'stdin' : file} is not valid JSON: ${(error as Error).message}`);
+  }
+}
+
+/**
+ * Registers ts-node for `.tsx` template modules, unless the CLI already runs under it
+ * @throws Error when ts-node is not installed
+ */
+function registerTypeScript(): void {
+  if (require.extensions['.tsx']) {
+    return;
+  }
+
+  try {
+    require('ts-node').register({
+      transpileOnly: true,
+      compilerOptions: { module: 'commonjs', jsx: 'react', esModuleInterop: true },
+    });
+  } catch {
+    throw new Error('Rendering .tsx template modules requires ts-node');
+  }
+}
+
+/**
+ * Resolves the template argument to the request fields that select it. Read
+ * again on every render, so watch mode picks up changes to template files.
+ * @param template Built-in template type, `.jsx` template or `.tsx` template module
+ * @returns `templateType` or `jsxTemplate`
+ * @throws CliUsageError when the template is neither a file nor a built-in template
+ */
+async function readTemplate(template: string): Promise<TemplateFields> {
+  const extension = path.extname(template).toLowerCase();
+
+  if (extension === '.jsx') {
+    return { jsxTemplate: await fs.promises.readFile(template, 'utf8') };
+  }
+  if (extension === '.tsx') {
+    registerTypeScript();
+    return { templateType: loadTemplateFile(template) };
+  }
+
+  if (!getTemplate(template)) {
+    throw new CliUsageError(`Unknown template "${template}", expected a built-in template type, a .jsx or a .tsx file`);
+  }
+  return { templateType: template };
+}
+
+/**
+ * Layers document options, merging the objects they hold
+ * @param base Options underneath, e.g. from the options file
+ * @param overrides Options on top, e.g. from the flags
+ * @returns Merged options
+ */
+function mergeOptions(base: PdfOptions, overrides: PdfOptions = {}): PdfOptions {
+  const merged: Record<string, unknown> = { ...base, ...overrides };
+  NESTED_OPTIONS.forEach((name) => {
+    if (base[name] && overrides[name]) {
+      merged[name] = { ...base[name], ...overrides[name] };
+    }
+  });
+  return merged as PdfOptions;
+}
+
+/**
+ * Builds the options of the documents: the options file, then the flags, then the stylesheet
+ * @param command Parsed command line
+ * @returns Document options
+ */
+async function readOptions(command: CliCommand): Promise<PdfOptions> {
+  const fileOptions: PdfOptions = command.optionsPath ? await readJson(command.optionsPath) : {};
+  const options = mergeOptions(fileOptions, command.options);
+  if (command.cssPath) {
+    options.css = await fs.promises.readFile(command.cssPath, 'utf8');
+  }
+  return options;
+}
+
+/**
+ * Validates and renders one document, like the API does
+ * @param body Template, data and options of the document
+ * @param command Parsed command line, for the validation options
+ * @returns The rendered document
+ */
+async function renderBody(body: PdfRequestBody, command: CliCommand): Promise<RenderedDocument> {
+  const request = preparePdfRequest(body, undefined, { coerce: command.coerce });
+  return renderDocument(await request.renderMarkup(), request.options, request.data);
+}
+
+/**
+ * Writes a document to a file, or to stdout
+ * @param document Rendered document
+ * @param output Path, "-" for stdout, or undefined for stdout unless it is a terminal
+ * @returns Where the document was written
+ */
+async function writeDocument(document: RenderedDocument, output: string | undefined): Promise<string> {
+  if (output === '-' || (output === undefined && !process.stdout.isTTY)) {
+    await new Promise<void>((resolve, reject) =>
+      process.stdout.write(document.buffer, (error) => (error ? reject(error) : resolve()))
+    );
+    return 'stdout';
+  }
+
+  // Binary output is not written to a terminal, but to the document's own filename
+  const file = output ?? document.filename;
+  await fs.promises.mkdir(path.dirname(path.resolve(file)), { recursive: true });
+  await fs.promises.writeFile(file, document.buffer);
+  return file;
+}
+
+/**
+ * Describes a failure for the terminal
+ * @param error Error thrown while parsing the command line or rendering
+ * @returns Message with the template location or the invalid props
+ */
+function formatFailure(error: unknown): string {
+  if (error instanceof CliUsageError) {
+    return `${error.message}\nRun "jsx-to-pdf --help" for usage.`;
+  }
+
+  if (error instanceof TemplateError) {
+    const location = error.line ? ` (line ${error.line}, column ${error.column})` : '';
+    const codeFrame = error.codeFrame ? `\n${error.codeFrame}` : '';
+    return `Template failed to ${error.phase}: ${error.message}${location}${codeFrame}`;
+  }
+
+  if (error instanceof PropsValidationError) {
+    return [error.message, ...error.issues.map((issue) => `  ${issue.path}: ${issue.message}`)].join('\n');
+  }
+
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Renders the document described by the command line and writes it out
+ * @param command Parsed command line with a template
+ */
+async function renderCommand(command: CliCommand): Promise<void> {
+  const started = Date.now();
+  const [template, data, options] = await Promise.all([
+    readTemplate(command.template!),
+    command.dataPath ? readJson(command.dataPath) : {},
+    readOptions(command),
+  ]);
+
+  const document = await renderBody({ ...template, data, options }, command);
+  const destination = await writeDocument(document, command.output);
+  console.error(`Rendered ${document.filename} to ${destination} in ${Date.now() - started} ms`);
+}
+
+/**
+ * Renders the document, then again whenever one of its files changes. Editors
+ * often replace files instead of writing to them, so the directories are watched.
+ * @param command Parsed command line with a template and an output file
+ */
+async function watchCommand(command: CliCommand): Promise<never> {
+  const files = [command.template!, command.dataPath, command.optionsPath, command.cssPath]
+    .filter((file): file is string => file !== undefined && fs.existsSync(file))
+    .map((file) => path.resolve(file));
+
+  let running = false;
+  let queued = false;
+  let timer: NodeJS.Timeout | undefined;
+
+  const render = async (): Promise<void> => {
+    if (running) {
+      queued = true;
+      return;
+    }
+
+    running = true;
+    try {
+      await renderCommand(command);
+    } catch (error) {
+      // A broken template is reported and rendered again once it is fixed
+      console.error(formatFailure(error));
+    } finally {
+      running = false;
+    }
+
+    if (queued) {
+      queued = false;
+      await render();
+    }
+  };
+
+  await render();
+
+  new Set(files.map((file) => path.dirname(file))).forEach((dir) => {
+    fs.watch(dir, (event, filename) => {
+      if (filename && files.includes(path.join(dir, filename.toString()))) {
+        // Saving often fires several events, so they are rendered once
+        clearTimeout(timer);
+        timer = setTimeout(render, 100);
+      }
+    });
+  });
+  console.error(`Watching ${files.map((file) => path.relative('.', file)).join(', ')} for changes`);
+
+  // Runs until the process is interrupted
+  return new Promise<never>(() => undefined);
+}
+
+/**
+ * Renders one document per NDJSON line into a directory, and prints one JSON
+ * result per line to stdout. Failing lines are reported without stopping the batch.
+ * @param command Parsed command line with a batch file
+ * @returns Whether every line was rendered
+ */
+async function batchCommand(command: CliCommand): Promise<boolean> {
+  const [lines, template, options] = await Promise.all([
+    readInput(command.batchPath!).then((contents) =>
+      contents
+        .split('\n')
+        .map((line, index) => ({ line: index + 1, text: line.trim() }))
+        .filter(({ text: line }) => line !== '')
+    ),
+    command.template ? readTemplate(command.template) : undefined,
+    readOptions(command),
+  ]);
+
+  const dir = command.outputDir || '.';
+  await fs.promises.mkdir(dir, { recursive: true });
+  const written = new Set<string>();
+  let failed = 0;
+
+  await forEachConcurrently(lines, BATCH_CONCURRENCY, async ({ line, text: json }) => {
+    let result: object;
+    try {
+      // With a template argument every line holds props, otherwise a complete request body
+      let parsed;
+      try {
+        parsed = JSON.parse(json);
+      } catch (error) {
+        throw new CliUsageError(`Invalid JSON: ${(error as Error).message}`);
+      }
+      const body: PdfRequestBody = template ? { ...template, data: parsed } : parsed;
+      const document = await renderBody({ ...body, options: mergeOptions(options, body.options) }, command);
+
+      // Documents with a filename already written are prefixed with their line number, like ZIP batches
+      const name = safeFilename(document.filename);
+      const filename = written.has(name) ? `${line}-${name}` : name;
+      written.add(filename);
+      const file = path.join(dir, filename);
+      if (path.dirname(path.resolve(file)) !== path.resolve(dir)) {
+        throw new CliUsageError(`${document.filename} would be written outside ${dir}`);
+      }
+      await fs.promises.writeFile(file, document.buffer);
+
+      result = { line, status: 'ok', file, warnings: document.warnings.length > 0 ? document.warnings : undefined };
+    } catch (error) {
+      failed++;
+      const failure = error instanceof CliUsageError ? { error: error.message } : describeFailure(error);
+      result = { line, status: 'failed', ...failure };
+    }
+    process.stdout.write(`${JSON.stringify(result)}\n`);
+  });
+
+  console.error(`Rendered ${lines.length - failed} of ${lines.length} documents to ${dir}`);
+  return failed === 0;
+}
+
+/**
+ * Runs the command line
+ * @param argv Arguments after the script name
+ * @returns Exit status
+ */
+async function main(argv: string[]): Promise<number> {
+  const command = parseCliArgs(argv);
+  if (command.help) {
+    console.log(CLI_USAGE);
+    return 0;
+  }
+
+  // The same themes, catalogs, assets and templates the server loads at startup
+  loadThemes();
+  loadLocales();
+  loadAssets();
+  loadTemplates();
+
+  if (command.batchPath !== undefined) {
+    if (command.watch || command.output !== undefined || command.dataPath !== undefined) {
+      throw new CliUsageError('--batch writes to --output-dir and cannot be combined with --watch, --output or --data');
+    }
+    return (await batchCommand(command)) ? 0 : 1;
+  }
+
+  if (!command.template) {
+    throw new CliUsageError('Missing template');
+  }
+
+  if (command.watch) {
+    if (command.output === undefined || command.output === '-') {
+      throw new CliUsageError('--watch needs an --output file');
+    }
+    if (command.dataPath === '-') {
+      throw new CliUsageError('--watch cannot read data from stdin');
+    }
+    return watchCommand(command);
+  }
+
+  await renderCommand(command);
+  return 0;
+}
+
+// Close the shared browser and the template sandbox so the process can exit
+async function shutdown(): Promise<void> {
+  await Promise.all([shutdownBrowserPool(), shutdownTemplateSandbox()]);
+}
+
+process.on('SIGINT', () => shutdown().then(() => process.exit(130)));
+process.on('SIGTERM', () => shutdown().then(() => process.exit(143)));
+
+main(process.argv.slice(2))
+  .then((status) => {
+    process.exitCode = status;
+  })
+  .catch((error) => {
+    console.error(`jsx-to-pdf: ${formatFailure(error)}`);
+    process.exitCode = error instanceof CliUsageError ? 2 : 1;
+  })
+  .finally(shutdown);
@@ -0,0 +1,29 @@
+import React from 'react';
+
+interface AddressBlockProps {
+  name: string;
+  // Postal address; line breaks start new lines
+  address?: string;
+  email?: string;
+  phone?: string;
+  // Heading above the name, e.g. "Bill To"
+  title?: string;
+}
+
+/**
+ * Name and postal address with optional contact details
+ */
+export const AddressBlock: React.FC<AddressBlockProps> = ({ name, address = '', email, phone, title }) => (
+  <address style={{ fontStyle: 'normal' }}>
+    {title && <h3 className='font-semibold'>{title}</h3>}
+    <p className='font-bold'>{name}</p>
+    {address
+      .split('\n')
+      .filter((line) => line.trim())
+      .map((line, index) => (
+        <p key={index}>{line}</p>
+      ))}
+    {email && <p>{email}</p>}
+    {phone && <p>{phone}</p>}
+  </address>
+);
@@ -0,0 +1,122 @@
+import React from 'react';
+import QR from 'qrcode';
+import { encodeCode128 } from '../utils/code128';
+
+interface QRCodeProps {
+  value: string;
+  // Width and height in CSS pixels
+  size?: number;
+  // Share of the code that can be damaged and still be read: L 7%, M 15%, Q 25%, H 30%
+  errorCorrection?: 'L' | 'M' | 'Q' | 'H';
+  color?: string;
+  // Quiet zone around the code, in modules
+  margin?: number;
+}
+
+/**
+ * QR code drawn as SVG
+ */
+export const QRCode: React.FC<QRCodeProps> = ({
+  value,
+  size = 128,
+  errorCorrection = 'M',
+  color = '#000000',
+  margin = 4,
+}) => {
+  const { modules } = QR.create(value, { errorCorrectionLevel: errorCorrection });
+  const count = modules.size;
+  const extent = count + margin * 2;
+
+  // One path segment per run of dark modules keeps the markup small
+  let path = '';
+  for (let row = 0; row < count; row++) {
+    let column = 0;
+    while (column < count) {
+      if (!modules.get(row, column)) {
+        column++;
+        continue;
+      }
+      const start = column;
+      while (column < count && modules.get(row, column)) {
+        column++;
+      }
+      path += `M${start + margin} ${row + margin}h${column - start}v1h${start - column}z`;
+    }
+  }
+
+  return (
+    <svg
+      xmlns='http://www.w3.org/2000/svg'
+      viewBox={`0 0 ${extent} ${extent}`}
+      width={size}
+      height={size}
+      shapeRendering='crispEdges'
+      role='img'
+      aria-label={value}
+    >
+      <rect width={extent} height={extent} fill='#ffffff' />
+      <path d={path} fill={color} />
+    </svg>
+  );
+};
+
+interface BarcodeProps {
+  value: string;
+  // Bar height in CSS pixels
+  height?: number;
+  // Width of the narrowest bar in CSS pixels
+  moduleWidth?: number;
+  showText?: boolean;
+  color?: string;
+}
+
+// Quiet zone on each side of a barcode, in modules
+const BARCODE_QUIET_ZONE = 10;
+
+/**
+ * Code 128 barcode drawn as SVG, with the encoded text below it
+ */
+export const Barcode: React.FC<BarcodeProps> = ({
+  value,
+  height = 48,
+  moduleWidth = 2,
+  showText = true,
+  color = '#000000',
+}) => {
+  const widths = encodeCode128(value);
+  const modules = widths.reduce((sum, width) => sum + width, 0) + BARCODE_QUIET_ZONE * 2;
+  const width = modules * moduleWidth;
+  const totalHeight = height + (showText ? 16 : 0);
+
+  const bars: Array<{ x: number; width: number }> = [];
+  let position = BARCODE_QUIET_ZONE;
+  widths.forEach((modulesWide, index) => {
+    // Bars and spaces alternate, starting with a bar
+    if (index % 2 === 0) {
+      bars.push({ x: position * moduleWidth, width: modulesWide * moduleWidth });
+    }
+    position += modulesWide;
+  });
+
+  return (
+    <svg
+      xmlns='http://www.w3.org/2000/svg'
+      viewBox={`0 0 ${width} ${totalHeight}`}
+      width={width}
+      height={totalHeight}
+      shapeRendering='crispEdges'
+      role='img'
+      aria-label={value}
+    >
+      <rect width={width} height={totalHeight} fill='#ffffff' />
+      {bars.map((bar, index) => (
+        <rect key={index} x={bar.x} width={bar.width} height={height} fill={color} />
+      ))}
+      {showText && (
+        <text x={width / 2} y={height + 13} textAnchor='middle' fill={color} fontFamily='monospace' fontSize={12}>
+          {value}
+        </text>
+      )}
+    </svg>
+  );
+};
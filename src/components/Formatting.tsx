@@ -0,0 +1,43 @@
+import React from 'react';
+import { formatMoney } from '../utils/invoiceTotals';
+import { useTranslation } from '../utils/translator';
+
+interface MoneyProps {
+  amount: number;
+  // ISO 4217 currency code
+  currency?: string;
+  // Defaults to the document locale
+  locale?: string;
+}
+
+/**
+ * Amount formatted in a currency, kept on one line with aligned digits
+ */
+export const Money: React.FC<MoneyProps> = ({ amount, currency = 'USD', locale }) => {
+  const translator = useTranslation();
+
+  return (
+    <span className='money' style={{ whiteSpace: 'nowrap', fontVariantNumeric: 'tabular-nums' }}>
+      {formatMoney(amount, currency, locale || translator.locale)}
+    </span>
+  );
+};
+
+interface DateTextProps {
+  // Date, timestamp or date string; YYYY-MM-DD strings are read as calendar dates
+  value: string | number | Date;
+  dateStyle?: 'full' | 'long' | 'medium' | 'short';
+  // Intl.DateTimeFormat options, used instead of dateStyle
+  options?: Intl.DateTimeFormatOptions;
+}
+
+/**
+ * Date formatted for the document locale
+ */
+export const DateText: React.FC<DateTextProps> = ({ value, dateStyle = 'medium', options }) => {
+  const { formatDate } = useTranslation();
+
+  return (
+    <time dateTime={typeof value === 'string' ? value : undefined}>{formatDate(value, options || { dateStyle })}</time>
+  );
+};
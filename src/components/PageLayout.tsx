@@ -0,0 +1,54 @@
+import React from 'react';
+
+/**
+ * Starts a new page after this point
+ */
+export const PageBreak: React.FC = () => <div className='page-break' style={{ breakAfter: 'page' }} />;
+
+/**
+ * Keeps its content on one page, moving it to the next page when it does not fit
+ */
+export const KeepTogether: React.FC<{ children?: React.ReactNode }> = ({ children }) => (
+  <div style={{ breakInside: 'avoid' }}>{children}</div>
+);
+
+interface WatermarkProps {
+  text: string;
+  opacity?: number;
+  // Rotation in degrees
+  angle?: number;
+  fontSize?: number;
+  color?: string;
+}
+
+/**
+ * Faint text drawn across the middle of every page, over the content so backgrounds cannot hide it
+ */
+export const Watermark: React.FC<WatermarkProps> = ({
+  text,
+  opacity = 0.08,
+  angle = -45,
+  fontSize = 96,
+  color = '#000000',
+}) => (
+  // Fixed elements are repeated on every printed page
+  <div
+    className='watermark'
+    aria-hidden='true'
+    style={{
+      position: 'fixed',
+      inset: 0,
+      display: 'flex',
+      alignItems: 'center',
+      justifyContent: 'center',
+      pointerEvents: 'none',
+      zIndex: 1000,
+    }}
+  >
+    <span
+      style={{ transform: `rotate(${angle}deg)`, fontSize, fontWeight: 700, whiteSpace: 'nowrap', opacity, color }}
+    >
+      {text}
+    </span>
+  </div>
+);
@@ -0,0 +1,23 @@
+import React from 'react';
+
+// Chromium fills elements with these class names when it prints headers and footers
+
+/**
+ * Current page number, only rendered inside a header or footer
+ */
+export const PageNumber: React.FC = () => <span className='pageNumber'></span>;
+
+/**
+ * Total number of pages, only rendered inside a header or footer
+ */
+export const TotalPages: React.FC = () => <span className='totalPages'></span>;
+
+/**
+ * Date the document was printed, only rendered inside a header or footer
+ */
+export const PrintDate: React.FC = () => <span className='date'></span>;
+
+/**
+ * Document title, only rendered inside a header or footer
+ */
+export const DocumentTitle: React.FC = () => <span className='title'></span>;
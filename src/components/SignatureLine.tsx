@@ -0,0 +1,35 @@
+import React from 'react';
+import { useTranslation } from '../utils/translator';
+
+interface SignatureLineProps {
+  // Caption under the line; defaults to the translated "Signature"
+  label?: string;
+  // Printed name of the signer, shown under the caption
+  name?: string;
+  // Adds a second line for the date of signing
+  withDate?: boolean;
+  // CSS width of the signature line
+  width?: string;
+}
+
+/**
+ * Blank line to sign on, with a caption and an optional date line
+ */
+export const SignatureLine: React.FC<SignatureLineProps> = ({ label, name, withDate = false, width = '16rem' }) => {
+  const { t } = useTranslation();
+
+  const line = (caption: string, lineWidth: string, detail?: string) => (
+    <div style={{ width: lineWidth }}>
+      <div style={{ height: '3rem', borderBottom: '1px solid currentColor' }} />
+      <div className='text-sm'>{caption}</div>
+      {detail && <div className='text-sm text-gray-500'>{detail}</div>}
+    </div>
+  );
+
+  return (
+    <div className='signature-line' style={{ display: 'flex', gap: '2rem', breakInside: 'avoid' }}>
+      {line(label || t('components.signature'), width, name)}
+      {withDate && line(t('common.date'), '10rem')}
+    </div>
+  );
+};
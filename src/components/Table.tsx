@@ -0,0 +1,88 @@
+import React from 'react';
+import { useTranslation } from '../utils/translator';
+
+export interface TableColumn<Row = Record<string, unknown>> {
+  // Field of the row shown in the column, unless `render` is given
+  key: string;
+  header: React.ReactNode;
+  align?: 'left' | 'center' | 'right';
+  // CSS width of the column
+  width?: string;
+  render?: (row: Row, index: number) => React.ReactNode;
+}
+
+export interface TableProps<Row = Record<string, unknown>> {
+  columns: TableColumn<Row>[];
+  rows: Row[];
+  // Repeats the header row at the top of every page the table spans
+  repeatHeader?: boolean;
+  striped?: boolean;
+  // Rows shown after the body, e.g. totals
+  footer?: React.ReactNode;
+  // Shown in place of the body when there are no rows
+  emptyText?: React.ReactNode;
+}
+
+const ALIGN_CLASSES = { left: undefined, center: 'text-center', right: 'text-right' };
+
+/**
+ * Data table whose rows are never split across pages and whose header is
+ * repeated on every page
+ */
+export function Table<Row = Record<string, unknown>>({
+  columns,
+  rows,
+  repeatHeader = true,
+  striped = false,
+  footer,
+  emptyText,
+}: TableProps<Row>): React.ReactElement {
+  const { formatNumber } = useTranslation();
+
+  const cell = (row: Row, column: TableColumn<Row>, index: number): React.ReactNode => {
+    if (column.render) {
+      return column.render(row, index);
+    }
+    const value = (row as Record<string, unknown>)[column.key];
+    if (typeof value === 'number') {
+      return formatNumber(value);
+    }
+    return value === undefined || value === null ? '' : String(value);
+  };
+
+  return (
+    <table className='table'>
+      <thead style={{ display: repeatHeader ? 'table-header-group' : 'table-row-group' }}>
+        <tr className='bg-gray-100'>
+          {columns.map((column) => (
+            <th key={column.key} className={ALIGN_CLASSES[column.align || 'left']} style={{ width: column.width }}>
+              {column.header}
+            </th>
+          ))}
+        </tr>
+      </thead>
+      <tbody>
+        {rows.map((row, index) => (
+          <tr
+            key={index}
+            style={{ breakInside: 'avoid', background: striped && index % 2 === 1 ? '#f9fafb' : undefined }}
+          >
+            {columns.map((column) => (
+              <td key={column.key} className={ALIGN_CLASSES[column.align || 'left']}>
+                {cell(row, column, index)}
+              </td>
+            ))}
+          </tr>
+        ))}
+        {rows.length === 0 && emptyText && (
+          <tr>
+            <td colSpan={columns.length} className='text-center text-gray-500'>
+              {emptyText}
+            </td>
+          </tr>
+        )}
+      </tbody>
+      {footer && <tfoot>{footer}</tfoot>}
+    </table>
+  );
+}
@@ -0,0 +1,100 @@
+import React from 'react';
+import { Axes, ChartFrame, NoData } from './ChartFrame';
+import {
+  ChartProps,
+  DEFAULT_HEIGHT,
+  DEFAULT_WIDTH,
+  niceTicks,
+  plotArea,
+  seriesColor,
+  valueAt,
+  valueExtent,
+  yScale,
+} from './chartUtils';
+
+export interface BarChartProps extends ChartProps {
+  // Stacks the series of each label instead of placing them side by side
+  stacked?: boolean;
+}
+
+/**
+ * Vertical bar chart. Series are grouped side by side per label, or stacked with
+ * positive values above and negative values below the zero line.
+ */
+export const BarChart: React.FC<BarChartProps> = ({
+  labels,
+  series,
+  title,
+  width = DEFAULT_WIDTH,
+  height = DEFAULT_HEIGHT,
+  showLegend = series.length > 1,
+  stacked = false,
+}) => {
+  const legend = showLegend ? series.map((item, index) => ({ label: item.name, color: seriesColor(item, index) })) : [];
+
+  if (labels.length === 0 || series.length === 0) {
+    return (
+      <ChartFrame title={title} width={width} height={height}>
+        <NoData width={width} height={height} />
+      </ChartFrame>
+    );
+  }
+
+  // Each bar runs from `start` to `end`; stacked bars start where the previous one ended
+  const bars = labels.map((_, labelIndex) => {
+    let positive = 0;
+    let negative = 0;
+
+    return series.map((item, seriesIndex) => {
+      const value = valueAt(item, labelIndex);
+
+      if (!stacked) {
+        return { seriesIndex, start: 0, end: value };
+      }
+
+      const start = value < 0 ? negative : positive;
+      if (value < 0) {
+        negative += value;
+      } else {
+        positive += value;
+      }
+      return { seriesIndex, start, end: start + value };
+    });
+  });
+
+  const ends = bars.flat().map((bar) => bar.end);
+  const ticks = niceTicks(...valueExtent(ends));
+  const area = plotArea(width, height);
+  const y = yScale(ticks, area);
+
+  const band = (area.right - area.left) / labels.length;
+  const groupWidth = band * 0.7;
+  const barWidth = stacked ? groupWidth : groupWidth / series.length;
+  const x = (index: number) => area.left + band * index + band / 2;
+
+  return (
+    <ChartFrame title={title} width={width} height={height} legend={legend}>
+      <Axes labels={labels} ticks={ticks} area={area} x={x} y={y} />
+      {bars.map((group, labelIndex) =>
+        group.map((bar) => {
+          const offset = stacked ? 0 : bar.seriesIndex * barWidth;
+          return (
+            <rect
+              key={`${labelIndex}-${bar.seriesIndex}`}
+              x={x(labelIndex) - groupWidth / 2 + offset}
+              y={Math.min(y(bar.start), y(bar.end))}
+              width={barWidth}
+              height={Math.abs(y(bar.end) - y(bar.start))}
+              style={{ fill: seriesColor(series[bar.seriesIndex], bar.seriesIndex) }}
+            />
+          );
+        })
+      )}
+    </ChartFrame>
+  );
+};
+
+/**
+ * Bar chart with the series of each label stacked on top of each other
+ */
+export const StackedBarChart: React.FC<ChartProps> = (props) => <BarChart {...props} stacked />;
@@ -0,0 +1,94 @@
+import React from 'react';
+import { useTranslation } from '../../utils/translator';
+import { ChartArea } from './chartUtils';
+
+export interface LegendItem {
+  label: string;
+  color: string;
+}
+
+interface ChartFrameProps {
+  title?: string;
+  width: number;
+  height: number;
+  legend?: LegendItem[];
+  children: React.ReactNode;
+}
+
+/**
+ * Wraps a chart drawing with its title and legend. The drawing scales to the
+ * width of its container and keeps its aspect ratio.
+ */
+export const ChartFrame: React.FC<ChartFrameProps> = ({ title, width, height, legend, children }) => (
+  <figure className='chart' style={{ margin: 0, breakInside: 'avoid' }}>
+    {title && <figcaption style={{ fontWeight: 600, marginBottom: '0.5rem' }}>{title}</figcaption>}
+    <svg
+      xmlns='http://www.w3.org/2000/svg'
+      viewBox={`0 0 ${width} ${height}`}
+      width='100%'
+      role='img'
+      aria-label={title}
+      style={{ display: 'block', fontSize: 12, overflow: 'visible' }}
+    >
+      {children}
+    </svg>
+    {legend && legend.length > 0 && (
+      <div className='chart-legend' style={{ display: 'flex', flexWrap: 'wrap', gap: '0.25rem 1rem', fontSize: 12 }}>
+        {legend.map((item, index) => (
+          <span key={index} style={{ display: 'inline-flex', alignItems: 'center', gap: '0.375rem' }}>
+            <span style={{ display: 'inline-block', width: 10, height: 10, borderRadius: 2, background: item.color }} />
+            {item.label}
+          </span>
+        ))}
+      </div>
+    )}
+  </figure>
+);
+
+interface AxesProps {
+  labels: string[];
+  ticks: number[];
+  area: ChartArea;
+  y: (value: number) => number;
+  // Horizontal position of each label
+  x: (index: number) => number;
+}
+
+/**
+ * Draws the value axis with grid lines, the category labels and the zero line
+ */
+export const Axes: React.FC<AxesProps> = ({ labels, ticks, area, y, x }) => {
+  const { formatNumber } = useTranslation();
+
+  return (
+    <g className='chart-axes'>
+      {ticks.map((tick) => (
+        <g key={tick}>
+          <line x1={area.left} x2={area.right} y1={y(tick)} y2={y(tick)} stroke='#e5e7eb' />
+          <text x={area.left - 8} y={y(tick)} textAnchor='end' dominantBaseline='middle' fill='#6b7280'>
+            {formatNumber(tick, { notation: 'compact' })}
+          </text>
+        </g>
+      ))}
+      {labels.map((label, index) => (
+        <text key={index} x={x(index)} y={area.bottom + 18} textAnchor='middle' fill='#374151'>
+          {label}
+        </text>
+      ))}
+      <line x1={area.left} x2={area.right} y1={y(0)} y2={y(0)} stroke='#9ca3af' />
+    </g>
+  );
+};
+
+/**
+ * Placeholder drawn when a chart has nothing to show
+ */
+export const NoData: React.FC<{ width: number; height: number }> = ({ width, height }) => {
+  const { t } = useTranslation();
+
+  return (
+    <text x={width / 2} y={height / 2} textAnchor='middle' dominantBaseline='middle' fill='#9ca3af'>
+      {t('chart.noData')}
+    </text>
+  );
+};
@@ -0,0 +1,84 @@
+import React from 'react';
+import { Axes, ChartFrame, NoData } from './ChartFrame';
+import {
+  ChartProps,
+  DEFAULT_HEIGHT,
+  DEFAULT_WIDTH,
+  niceTicks,
+  plotArea,
+  seriesColor,
+  valueAt,
+  valueExtent,
+  yScale,
+} from './chartUtils';
+
+export interface LineChartProps extends ChartProps {
+  // Fills the space between each line and the zero line
+  area?: boolean;
+  showPoints?: boolean;
+}
+
+/**
+ * Line chart with one line per series
+ */
+export const LineChart: React.FC<LineChartProps> = ({
+  labels,
+  series,
+  title,
+  width = DEFAULT_WIDTH,
+  height = DEFAULT_HEIGHT,
+  showLegend = series.length > 1,
+  area: filled = false,
+  showPoints = labels.length <= 24,
+}) => {
+  const legend = showLegend ? series.map((item, index) => ({ label: item.name, color: seriesColor(item, index) })) : [];
+
+  if (labels.length === 0 || series.length === 0) {
+    return (
+      <ChartFrame title={title} width={width} height={height}>
+        <NoData width={width} height={height} />
+      </ChartFrame>
+    );
+  }
+
+  const values = series.flatMap((item) => labels.map((_, index) => valueAt(item, index)));
+  const ticks = niceTicks(...valueExtent(values));
+  const area = plotArea(width, height);
+  const y = yScale(ticks, area);
+
+  // Points are spread edge to edge; a single point sits in the middle
+  const step = labels.length > 1 ? (area.right - area.left) / (labels.length - 1) : 0;
+  const x = (index: number) => (labels.length > 1 ? area.left + step * index : (area.left + area.right) / 2);
+
+  return (
+    <ChartFrame title={title} width={width} height={height} legend={legend}>
+      <Axes labels={labels} ticks={ticks} area={area} x={x} y={y} />
+      {series.map((item, seriesIndex) => {
+        const color = seriesColor(item, seriesIndex);
+        const points = labels.map((_, index) => `${x(index)},${y(valueAt(item, index))}`);
+        const baseline = y(0);
+
+        return (
+          <g key={seriesIndex}>
+            {filled && (
+              <polygon
+                points={[`${x(0)},${baseline}`, ...points, `${x(labels.length - 1)},${baseline}`].join(' ')}
+                style={{ fill: color, fillOpacity: 0.2 }}
+              />
+            )}
+            <polyline points={points.join(' ')} fill='none' strokeWidth={2} style={{ stroke: color }} />
+            {showPoints &&
+              labels.map((_, index) => (
+                <circle key={index} cx={x(index)} cy={y(valueAt(item, index))} r={3} style={{ fill: color }} />
+              ))}
+          </g>
+        );
+      })}
+    </ChartFrame>
+  );
+};
+
+/**
+ * Line chart with the area under each line filled
+ */
+export const AreaChart: React.FC<ChartProps> = (props) => <LineChart {...props} area />;
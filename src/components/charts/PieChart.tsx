@@ -0,0 +1,114 @@
+import React from 'react';
+import { useTranslation } from '../../utils/translator';
+import { ChartFrame, NoData } from './ChartFrame';
+import { ChartProps, DEFAULT_HEIGHT, DEFAULT_WIDTH, seriesColor, valueAt } from './chartUtils';
+
+export interface PieChartProps extends ChartProps {
+  // Radius of the hole as a fraction of the chart radius; 0 draws a full pie
+  innerRadius?: number;
+}
+
+/**
+ * Returns the point on a circle at a fraction of a full turn, starting at 12 o'clock
+ */
+function pointAt(cx: number, cy: number, radius: number, fraction: number): [number, number] {
+  const angle = fraction * 2 * Math.PI - Math.PI / 2;
+  return [cx + radius * Math.cos(angle), cy + radius * Math.sin(angle)];
+}
+
+/**
+ * Builds the SVG path of a slice between two fractions of a full turn
+ */
+function slicePath(cx: number, cy: number, outer: number, inner: number, from: number, to: number): string {
+  // A full circle cannot be drawn as one arc, so a single slice stops just short of it
+  const end = Math.min(to, from + 0.99999);
+  const largeArc = end - from > 0.5 ? 1 : 0;
+  const [x1, y1] = pointAt(cx, cy, outer, from);
+  const [x2, y2] = pointAt(cx, cy, outer, end);
+
+  if (inner <= 0) {
+    return `M ${cx} ${cy} L ${x1} ${y1} A ${outer} ${outer} 0 ${largeArc} 1 ${x2} ${y2} Z`;
+  }
+
+  const [x3, y3] = pointAt(cx, cy, inner, end);
+  const [x4, y4] = pointAt(cx, cy, inner, from);
+  return (
+    `M ${x1} ${y1} A ${outer} ${outer} 0 ${largeArc} 1 ${x2} ${y2} ` +
+    `L ${x3} ${y3} A ${inner} ${inner} 0 ${largeArc} 0 ${x4} ${y4} Z`
+  );
+}
+
+/**
+ * Pie chart of the first series, one slice per label. Only positive values can
+ * be shown as slices; zero and negative values are left out.
+ */
+export const PieChart: React.FC<PieChartProps> = ({
+  labels,
+  series,
+  title,
+  width = DEFAULT_WIDTH,
+  height = DEFAULT_HEIGHT,
+  showLegend = true,
+  innerRadius = 0,
+}) => {
+  const { formatNumber } = useTranslation();
+  const values = series.length > 0 ? labels.map((_, index) => Math.max(0, valueAt(series[0], index))) : [];
+  const total = values.reduce((sum, value) => sum + value, 0);
+
+  // Slices take the palette colours in label order
+  const colors = labels.map((_, index) => seriesColor({}, index));
+  const percent = (value: number) => formatNumber(value / total, { style: 'percent', maximumFractionDigits: 1 });
+  const legend = showLegend
+    ? labels
+        .map((label, index) => ({ label: `${label} (${percent(values[index])})`, color: colors[index] }))
+        .filter((_, index) => values[index] > 0)
+    : [];
+
+  if (total <= 0) {
+    return (
+      <ChartFrame title={title} width={width} height={height}>
+        <NoData width={width} height={height} />
+      </ChartFrame>
+    );
+  }
+
+  const cx = width / 2;
+  const cy = height / 2;
+  const outer = Math.min(width, height) / 2 - 8;
+  const inner = outer * Math.min(Math.max(innerRadius, 0), 0.9);
+
+  let start = 0;
+  const slices = values.map((value, index) => {
+    const from = start;
+    start += value / total;
+    return { index, value, from, to: start };
+  });
+
+  return (
+    <ChartFrame title={title} width={width} height={height} legend={legend}>
+      {slices
+        .filter((slice) => slice.value > 0)
+        .map((slice) => (
+          <path
+            key={slice.index}
+            d={slicePath(cx, cy, outer, inner, slice.from, slice.to)}
+            stroke='#ffffff'
+            strokeWidth={1}
+            style={{ fill: colors[slice.index] }}
+          />
+        ))}
+      {inner > 0 && (
+        <text x={cx} y={cy} textAnchor='middle' dominantBaseline='middle' style={{ fontSize: 16, fontWeight: 600 }}>
+          {formatNumber(total, { notation: 'compact' })}
+        </text>
+      )}
+    </ChartFrame>
+  );
+};
+
+/**
+ * Pie chart with a hole showing the total
+ */
+export const DonutChart: React.FC<PieChartProps> = ({ innerRadius = 0.6, ...props }) => (
+  <PieChart {...props} innerRadius={innerRadius} />
+);
@@ -0,0 +1,141 @@
+export interface ChartSeries {
+  name: string;
+  // One value per label; missing values are drawn as 0
+  values: number[];
+  // Any CSS colour; defaults to the chart palette, starting with the theme's brand colour
+  color?: string;
+}
+
+export interface ChartProps {
+  labels: string[];
+  series: ChartSeries[];
+  title?: string;
+  // Size of the drawing in SVG units; the chart scales to the width of its container
+  width?: number;
+  height?: number;
+  showLegend?: boolean;
+}
+
+export interface ChartArea {
+  width: number;
+  height: number;
+  left: number;
+  top: number;
+  right: number;
+  bottom: number;
+}
+
+export const DEFAULT_WIDTH = 600;
+export const DEFAULT_HEIGHT = 300;
+
+// Series colours in order; the first one follows the theme
+export const PALETTE = [
+  'var(--brand-color, #4f46e5)',
+  '#f59e0b',
+  '#10b981',
+  '#ef4444',
+  '#8b5cf6',
+  '#06b6d4',
+  '#ec4899',
+  '#84cc16',
+];
+
+/**
+ * Returns the colour of a series
+ * @param series Series to colour
+ * @param index Position of the series in the chart
+ * @returns CSS colour
+ */
+export function seriesColor(series: { color?: string }, index: number): string {
+  return series.color || PALETTE[index % PALETTE.length];
+}
+
+/**
+ * Returns the value of a series at a label, treating missing and non-finite values as 0
+ * @param series Series to read
+ * @param index Label index
+ * @returns Finite value
+ */
+export function valueAt(series: ChartSeries, index: number): number {
+  const value = series.values[index];
+  return typeof value === 'number' && Number.isFinite(value) ? value : 0;
+}
+
+/**
+ * Returns the smallest and largest of a list of values. Unlike spreading into
+ * `Math.min`, this works for lists of any length.
+ * @param values Values to scan
+ * @returns Smallest and largest value; both 0 for an empty list
+ */
+export function valueExtent(values: number[]): [number, number] {
+  if (values.length === 0) {
+    return [0, 0];
+  }
+
+  let min = values[0];
+  let max = values[0];
+  for (const value of values) {
+    min = value < min ? value : min;
+    max = value > max ? value : max;
+  }
+  return [min, max];
+}
+
+/**
+ * Computes round tick values covering a range. The range always includes 0 so
+ * bars and areas have a baseline, and an empty range becomes 0 to 1.
+ * @param min Smallest value to show
+ * @param max Largest value to show
+ * @param count Approximate number of intervals
+ * @returns Tick values in ascending order; the first and last are the axis bounds
+ */
+export function niceTicks(min: number, max: number, count = 5): number[] {
+  let low = Math.min(0, min);
+  let high = Math.max(0, max);
+
+  if (low === high) {
+    high = 1;
+  }
+
+  const rough = (high - low) / count;
+  const magnitude = 10 ** Math.floor(Math.log10(rough));
+  const normalized = rough / magnitude;
+  const step = (normalized < 1.5 ? 1 : normalized < 3 ? 2 : normalized < 7 ? 5 : 10) * magnitude;
+
+  low = Math.floor(low / step) * step;
+  high = Math.ceil(high / step) * step;
+
+  const ticks: number[] = [];
+  for (let tick = low; tick <= high + step / 2; tick += step) {
+    // Rounding keeps 0.1 + 0.2 style errors out of the labels
+    ticks.push(Number(tick.toPrecision(12)));
+  }
+  return ticks;
+}
+
+/**
+ * Returns the plot area inside a chart, leaving room for axis labels
+ * @param width Chart width
+ * @param height Chart height
+ * @returns Plot area bounds
+ */
+export function plotArea(width: number, height: number): ChartArea {
+  const left = 64;
+  const top = 16;
+  const right = width - 16;
+  const bottom = height - 40;
+
+  return { width, height, left, top, right, bottom };
+}
+
+/**
+ * Creates a function mapping values to vertical positions in the plot area
+ * @param ticks Axis ticks from niceTicks
+ * @param area Plot area
+ * @returns Function returning the y coordinate of a value
+ */
+export function yScale(ticks: number[], area: ChartArea): (value: number) => number {
+  const min = ticks[0];
+  const max = ticks[ticks.length - 1];
+  return (value) => area.bottom - ((value - min) / (max - min)) * (area.bottom - area.top);
+}
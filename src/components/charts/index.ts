@@ -0,0 +1,28 @@
+import React from 'react';
+import { BarChart, StackedBarChart } from './BarChart';
+import { ChartProps } from './chartUtils';
+import { AreaChart, LineChart } from './LineChart';
+import { DonutChart, PieChart } from './PieChart';
+
+export { BarChart, StackedBarChart } from './BarChart';
+export type { BarChartProps } from './BarChart';
+export { niceTicks, PALETTE } from './chartUtils';
+export type { ChartProps, ChartSeries } from './chartUtils';
+export { AreaChart, LineChart } from './LineChart';
+export type { LineChartProps } from './LineChart';
+export { DonutChart, PieChart } from './PieChart';
+export type { PieChartProps } from './PieChart';
+
+export type ChartType = 'bar' | 'stackedBar' | 'line' | 'area' | 'pie' | 'donut';
+
+// Chart component drawn for each chart type
+export const CHARTS: Record<ChartType, React.FC<ChartProps>> = {
+  bar: BarChart,
+  stackedBar: StackedBarChart,
+  line: LineChart,
+  area: AreaChart,
+  pie: PieChart,
+  donut: DonutChart,
+};
+
+export const CHART_TYPES = Object.keys(CHARTS) as ChartType[];
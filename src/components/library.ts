@@ -0,0 +1,247 @@
+import React from 'react';
+import { describeProps, JsonSchema } from '../utils/propsSchema';
+import { AddressBlock } from './AddressBlock';
+import { AreaChart, BarChart, CHART_TYPES, DonutChart, LineChart, PieChart, StackedBarChart } from './charts';
+import { Barcode, QRCode } from './Codes';
+import { DateText, Money } from './Formatting';
+import { KeepTogether, PageBreak, Watermark } from './PageLayout';
+import { SignatureLine } from './SignatureLine';
+import { Table } from './Table';
+
+// Bumped when a component is removed or its props change incompatibly
+export const COMPONENT_LIBRARY_VERSION = '1.0.0';
+
+export interface LibraryComponent {
+  name: string;
+  description: string;
+  component: React.ComponentType<any>;
+  propsSchema: JsonSchema;
+}
+
+const chartSchema: JsonSchema = {
+  type: 'object',
+  required: ['labels', 'series'],
+  properties: {
+    labels: { type: 'array', items: { type: 'string' }, description: 'Category labels' },
+    series: {
+      type: 'array',
+      description: 'Data series with one value per label',
+      items: {
+        type: 'object',
+        required: ['name', 'values'],
+        properties: {
+          name: { type: 'string', description: 'Name shown in the legend' },
+          values: { type: 'array', items: { type: 'number' }, description: 'Values of the series' },
+          color: { type: 'string', description: 'CSS colour of the series' },
+        },
+      },
+    },
+    title: { type: 'string', description: 'Caption above the chart' },
+    width: { type: 'number', default: 600, description: 'Width of the drawing in SVG units' },
+    height: { type: 'number', default: 300, description: 'Height of the drawing in SVG units' },
+    showLegend: { type: 'boolean', description: 'Whether to show the legend' },
+  },
+};
+
+const chart = (name: string, component: React.ComponentType<any>, description: string): LibraryComponent => ({
+  name,
+  description,
+  component,
+  propsSchema: chartSchema,
+});
+
+/**
+ * Components available to TSX templates through imports and to JSX string
+ * templates as globals
+ */
+export const LIBRARY_COMPONENTS: LibraryComponent[] = [
+  {
+    name: 'Table',
+    description: 'Data table that repeats its header on every page and never splits a row across pages',
+    component: Table,
+    propsSchema: {
+      type: 'object',
+      required: ['columns', 'rows'],
+      properties: {
+        columns: {
+          type: 'array',
+          description: 'Columns of the table',
+          items: {
+            type: 'object',
+            required: ['key', 'header'],
+            properties: {
+              key: { type: 'string', description: 'Field of the row shown in the column' },
+              header: { description: 'Header cell content' },
+              align: { type: 'string', enum: ['left', 'center', 'right'], default: 'left', description: 'Alignment' },
+              width: { type: 'string', description: 'CSS width of the column' },
+              render: { description: 'Function (row, index) returning the cell content' },
+            },
+          },
+        },
+        rows: { type: 'array', description: 'Row objects; numbers are formatted for the document locale' },
+        repeatHeader: { type: 'boolean', default: true, description: 'Repeat the header row on every page' },
+        striped: { type: 'boolean', default: false, description: 'Shade every other row' },
+        footer: { description: 'Rows shown after the body, e.g. totals' },
+        emptyText: { description: 'Shown when there are no rows' },
+      },
+    },
+  },
+  {
+    name: 'Money',
+    description: 'Amount formatted in a currency',
+    component: Money,
+    propsSchema: {
+      type: 'object',
+      required: ['amount'],
+      properties: {
+        amount: { type: 'number', description: 'Amount in major units' },
+        currency: { type: 'string', format: 'currency', default: 'USD', description: 'ISO 4217 currency code' },
+        locale: { type: 'string', format: 'locale', description: 'Locale (defaults to the document locale)' },
+      },
+    },
+  },
+  {
+    name: 'DateText',
+    description: 'Date formatted for the document locale',
+    component: DateText,
+    propsSchema: {
+      type: 'object',
+      required: ['value'],
+      properties: {
+        value: { description: 'Date, timestamp or date string; YYYY-MM-DD strings are read as calendar dates' },
+        dateStyle: {
+          type: 'string',
+          enum: ['full', 'long', 'medium', 'short'],
+          default: 'medium',
+          description: 'Intl.DateTimeFormat date style',
+        },
+        options: { type: 'object', description: 'Intl.DateTimeFormat options, used instead of dateStyle' },
+      },
+    },
+  },
+  {
+    name: 'AddressBlock',
+    description: 'Name and postal address with optional contact details',
+    component: AddressBlock,
+    propsSchema: {
+      type: 'object',
+      required: ['name'],
+      properties: {
+        name: { type: 'string', description: 'Name of the person or company' },
+        address: { type: 'string', description: 'Postal address; line breaks start new lines' },
+        email: { type: 'string', description: 'Email address' },
+        phone: { type: 'string', description: 'Phone number' },
+        title: { type: 'string', description: 'Heading above the name, e.g. "Bill To"' },
+      },
+    },
+  },
+  {
+    name: 'PageBreak',
+    description: 'Starts a new page',
+    component: PageBreak,
+    propsSchema: { type: 'object', properties: {} },
+  },
+  {
+    name: 'KeepTogether',
+    description: 'Keeps its children on one page, moving them to the next page when they do not fit',
+    component: KeepTogether,
+    propsSchema: { type: 'object', properties: {} },
+  },
+  {
+    name: 'QRCode',
+    description: 'QR code drawn as SVG',
+    component: QRCode,
+    propsSchema: {
+      type: 'object',
+      required: ['value'],
+      properties: {
+        value: { type: 'string', minLength: 1, description: 'Text or URL to encode' },
+        size: { type: 'number', default: 128, description: 'Width and height in CSS pixels' },
+        errorCorrection: {
+          type: 'string',
+          enum: ['L', 'M', 'Q', 'H'],
+          default: 'M',
+          description: 'Error correction level',
+        },
+        color: { type: 'string', default: '#000000', description: 'Colour of the modules' },
+        margin: { type: 'integer', default: 4, description: 'Quiet zone in modules' },
+      },
+    },
+  },
+  {
+    name: 'Barcode',
+    description: 'Code 128 barcode drawn as SVG',
+    component: Barcode,
+    propsSchema: {
+      type: 'object',
+      required: ['value'],
+      properties: {
+        value: { type: 'string', minLength: 1, description: 'Printable ASCII text to encode' },
+        height: { type: 'number', default: 48, description: 'Bar height in CSS pixels' },
+        moduleWidth: { type: 'number', default: 2, description: 'Width of the narrowest bar in CSS pixels' },
+        showText: { type: 'boolean', default: true, description: 'Print the text below the bars' },
+        color: { type: 'string', default: '#000000', description: 'Colour of the bars' },
+      },
+    },
+  },
+  {
+    name: 'Watermark',
+    description: 'Faint text drawn across the middle of every page',
+    component: Watermark,
+    propsSchema: {
+      type: 'object',
+      required: ['text'],
+      properties: {
+        text: { type: 'string', description: 'Watermark text, e.g. "DRAFT"' },
+        opacity: { type: 'number', default: 0.08, description: 'Opacity between 0 and 1' },
+        angle: { type: 'number', default: -45, description: 'Rotation in degrees' },
+        fontSize: { type: 'number', default: 96, description: 'Font size in CSS pixels' },
+        color: { type: 'string', default: '#000000', description: 'Text colour' },
+      },
+    },
+  },
+  {
+    name: 'SignatureLine',
+    description: 'Blank line to sign on, with a caption and an optional date line',
+    component: SignatureLine,
+    propsSchema: {
+      type: 'object',
+      properties: {
+        label: { type: 'string', description: 'Caption under the line (defaults to the translated "Signature")' },
+        name: { type: 'string', description: 'Printed name of the signer' },
+        withDate: { type: 'boolean', default: false, description: 'Add a line for the date of signing' },
+        width: { type: 'string', default: '16rem', description: 'CSS width of the line' },
+      },
+    },
+  },
+  chart('BarChart', BarChart, 'Bar chart with the series of each label side by side'),
+  chart('StackedBarChart', StackedBarChart, 'Bar chart with the series of each label stacked'),
+  chart('LineChart', LineChart, 'Line chart with one line per series'),
+  chart('AreaChart', AreaChart, 'Line chart with the area under each line filled'),
+  chart('PieChart', PieChart, 'Pie chart of the first series'),
+  chart('DonutChart', DonutChart, 'Pie chart with the total in the middle'),
+];
+
+/**
+ * Returns the library components keyed by name, as exposed to JSX string templates
+ * @returns Components by name
+ */
+export function libraryScope(): Record<string, unknown> {
+  return Object.fromEntries(LIBRARY_COMPONENTS.map((entry) => [entry.name, entry.component]));
+}
+
+/**
+ * Builds the documentation of the component library returned by `/components`
+ * @returns Library version and component documentation
+ */
+export function describeComponentLibrary() {
+  return {
+    version: COMPONENT_LIBRARY_VERSION,
+    chartTypes: CHART_TYPES,
+    components: LIBRARY_COMPONENTS.map((entry) => ({
+      name: entry.name,
+      description: entry.description,
+      props: describeProps(entry.propsSchema),
+    })),
+  };
+}
@@ -1,24 +1,76 @@
-import express from 'express';
+import express, { NextFunction, Request, Response } from 'express';
 import path from 'path';
+import jobRoutes from './routes/jobRoutes';
 import pdfRoutes from './routes/pdfRoutes';
+import previewRoutes from './routes/previewRoutes';
+import { listAssets, loadAssets } from './utils/assets';
+import { shutdownBrowserPool } from './utils/browserPool';
+import { listLocales, loadLocales } from './utils/i18n';
+import { startPreviewWatcher, stopPreviewWatcher } from './utils/previewWatcher';
+import { shutdownTemplateSandbox } from './utils/templateSandbox';
+import { listThemes, loadThemes } from './utils/themes';
 
 // Create Express application
 const app = express();
 const PORT = process.env.PORT || 3000;
+const MAX_BODY_SIZE = process.env.PDF_MAX_BODY_SIZE || '10mb';
+// The live preview is for template authors and renders posted JSX, so it is only offered when asked for
+const PREVIEW_ENABLED = process.env.PDF_PREVIEW === 'true';
 
 // Middleware for parsing JSON and urlencoded form data
-app.use(express.json({ limit: '10mb' }));
-app.use(express.urlencoded({ extended: true }));
+app.use(express.json({ limit: MAX_BODY_SIZE }));
+app.use(express.urlencoded({ extended: true, limit: MAX_BODY_SIZE }));
 
 // Serve static files
 app.use(express.static(path.join(__dirname, 'public')));
 
+// Load document themes, message catalogs and local assets before accepting requests
+loadThemes();
+loadLocales();
+loadAssets();
+console.log(`Loaded themes: ${listThemes().join(', ') || 'none'}`);
+console.log(`Loaded locales: ${listLocales().join(', ')}`);
+console.log(`Loaded assets: ${listAssets().assets.length} files, ${listAssets().fonts.length} font faces`);
+
 // API routes
+app.use('/api/pdf/jobs', jobRoutes);
 app.use('/api/pdf', pdfRoutes);
 
+// Live preview that reloads when templates, components or styles.css change
+if (PREVIEW_ENABLED) {
+  startPreviewWatcher();
+  app.use('/preview', previewRoutes);
+}
+
+// Bodies over the size limit or with broken JSON are rejected before they reach the routes
+app.use((error: { status?: number; type?: string }, req: Request, res: Response, next: NextFunction) => {
+  if (error.type === 'entity.too.large') {
+    res.status(413).json({ error: `The request body is larger than the limit of ${MAX_BODY_SIZE}` });
+  } else if (error.type === 'entity.parse.failed') {
+    res.status(400).json({ error: 'The request body is not valid JSON' });
+  } else {
+    next(error);
+  }
+});
+
 // Start the server
-app.listen(PORT, () => {
+const server = app.listen(PORT, () => {
   console.log(`Server is running on port ${PORT}`);
   console.log(`Health check: http://localhost:${PORT}/health`);
   console.log(`API documentation: http://localhost:${PORT}/`);
+  if (PREVIEW_ENABLED) {
+    console.log(`Template preview: http://localhost:${PORT}/preview`);
+  }
 });
+
+// Close the HTTP server, the preview watcher, the shared browser and the template sandbox on shutdown
+async function shutdown(signal: string) {
+  console.log(`Received ${signal}, shutting down...`);
+  server.close();
+  stopPreviewWatcher();
+  await Promise.all([shutdownBrowserPool(), shutdownTemplateSandbox()]);
+  process.exit(0);
+}
+
+process.on('SIGINT', () => shutdown('SIGINT'));
+process.on('SIGTERM', () => shutdown('SIGTERM'));
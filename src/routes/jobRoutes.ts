@@ -0,0 +1,135 @@
+import express, { Request, Response, Router } from 'express';
+import { getJobQueue, Job, JobQueueFullError, throwIfCancelled } from '../utils/jobQueue';
+import { renderDocument } from '../utils/pdfGenerator';
+import {
+  encodeJsonHeader,
+  PdfRequestError,
+  preparePdfRequest,
+  readValidationOptions,
+  TemplateNotFoundError,
+} from '../utils/pdfRequest';
+
+const router: Router = express.Router();
+
+/**
+ * Builds the public status payload of a job
+ * @param req Request used to build absolute links
+ * @param job Job to describe
+ * @returns JSON-serializable job status
+ */
+function describeJob(req: Request, job: Job) {
+  const base = `${req.baseUrl}/${job.id}`;
+
+  return {
+    id: job.id,
+    status: job.status,
+    progress: job.progress,
+    stage: job.stage,
+    position: getJobQueue().positionOf(job.id),
+    createdAt: job.createdAt,
+    startedAt: job.startedAt,
+    finishedAt: job.finishedAt,
+    error: job.error,
+    errorDetails: job.errorDetails,
+    links: {
+      self: base,
+      result: job.status === 'completed' ? `${base}/result` : undefined,
+    },
+  };
+}
+
+// Queue a PDF job; accepts the same bodies as /generate and /render
+router.post('/', (req: Request, res: Response) => {
+  try {
+    const request = preparePdfRequest(req.body, undefined, readValidationOptions(req.query));
+
+    const job = getJobQueue().enqueue(async ({ signal, reportProgress }) => {
+      reportProgress(0.1, 'rendering');
+      const htmlContent = await request.renderMarkup();
+      throwIfCancelled(signal);
+
+      reportProgress(0.5, 'printing');
+      const document = await renderDocument(htmlContent, request.options, request.data);
+      throwIfCancelled(signal);
+
+      reportProgress(0.9, 'storing');
+      return document;
+    });
+
+    res.status(202).location(`${req.baseUrl}/${job.id}`).json(describeJob(req, job));
+  } catch (error) {
+    if (error instanceof TemplateNotFoundError) {
+      return res.status(404).json(error.toJSON());
+    }
+    if (error instanceof PdfRequestError) {
+      return res.status(400).json(error.toJSON());
+    }
+    if (error instanceof JobQueueFullError) {
+      return res.status(503).set('Retry-After', '30').json(error.toJSON());
+    }
+
+    console.error('Error queueing PDF job:', error);
+    res.status(500).json({ error: 'Failed to queue PDF job' });
+  }
+});
+
+// Job status and progress
+router.get('/:id', (req: Request, res: Response) => {
+  const job = getJobQueue().get(req.params.id);
+
+  if (!job) {
+    return res.status(404).json({ error: 'Job not found' });
+  }
+
+  res.json(describeJob(req, job));
+});
+
+// Download the result of a completed job
+router.get('/:id/result', async (req: Request, res: Response) => {
+  try {
+    const queue = getJobQueue();
+    const job = queue.get(req.params.id);
+
+    if (!job) {
+      return res.status(404).json({ error: 'Job not found' });
+    }
+
+    if (job.status !== 'completed') {
+      return res.status(409).json({ error: `Job is ${job.status}`, status: job.status });
+    }
+
+    const result = await queue.getResult(job.id);
+    if (!result) {
+      return res.status(410).json({ error: 'Job result is no longer available' });
+    }
+
+    // Set response headers
+    res.setHeader('Content-Type', result.contentType);
+    res.setHeader('Content-Disposition', `attachment; filename=${result.filename}`);
+    if (result.warnings && result.warnings.length > 0) {
+      res.setHeader('X-Render-Warnings', encodeJsonHeader(result.warnings));
+    }
+    if (result.conformance) {
+      res.setHeader('X-Pdfa-Conformance', encodeJsonHeader(result.conformance));
+    }
+
+    // Send the file
+    res.send(result.buffer);
+  } catch (error) {
+    console.error('Error loading job result:', error);
+    res.status(500).json({ error: 'Failed to load job result' });
+  }
+});
+
+// Cancel a queued or running job
+router.delete('/:id', (req: Request, res: Response) => {
+  const job = getJobQueue().cancel(req.params.id);
+
+  if (!job) {
+    return res.status(404).json({ error: 'Job not found' });
+  }
+
+  res.json(describeJob(req, job));
+});
+
+export default router;
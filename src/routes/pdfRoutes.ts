@@ -1,11 +1,164 @@
 import express, { Request, Response, Router } from 'express';
-import { generatePdfFromJsx, generatePdfFromJsxString } from '../utils/pdfGenerator';
-import InvoiceTemplate from '../templates/InvoiceTemplate';
-import ReportTemplate from '../templates/ReportTemplate';
-import React from 'react';
+import { Readable } from 'stream';
+import { buffer } from 'stream/consumers';
+import { pipeline } from 'stream/promises';
+import { describeComponentLibrary } from '../components/library';
+import { listAssets } from '../utils/assets';
+import { readBatchRequest, renderBatch } from '../utils/batchRenderer';
+import { listLocales } from '../utils/i18n';
+import { RenderedDocument, StreamedDocument, streamDocument } from '../utils/pdfGenerator';
+import {
+  readMergeRequest,
+  readPageNumberRequest,
+  readSplitRequest,
+  readStampRequest,
+} from '../utils/pdfOperations';
+import {
+  encodeJsonHeader,
+  PdfRequestError,
+  PreparedPdfRequest,
+  preparePdfRequest,
+  readTemplateDraft,
+  readValidationOptions,
+  TemplateNotFoundError,
+} from '../utils/pdfRequest';
+import { ValidationOptions } from '../utils/propsSchema';
+import { getRenderCache, MAX_CACHED_DOCUMENT_BYTES } from '../utils/renderCache';
+import { RenderLimitError } from '../utils/renderLimits';
+import { describeTemplate, listTemplates } from '../utils/templateRegistry';
+import { TemplateError } from '../utils/templateErrors';
+import { TemplateSandboxError } from '../utils/templateSandbox';
+import { describeStoredTemplate, getTemplateStore } from '../utils/templateStore';
+import { listThemes } from '../utils/themes';
 
 const router: Router = express.Router();
 
+/**
+ * Answers errors caused by the request rather than by the server
+ * @param res Response to send the error on
+ * @param error Error thrown while handling the request
+ * @returns Whether a response was sent
+ */
+function sendClientError(res: Response, error: unknown): boolean {
+  if (error instanceof TemplateNotFoundError) {
+    res.status(404).json(error.toJSON());
+    return true;
+  }
+
+  if (error instanceof PdfRequestError) {
+    res.status(400).json(error.toJSON());
+    return true;
+  }
+
+  // Documents that are too long or too slow are answered with 413 or 504
+  if (error instanceof RenderLimitError) {
+    res.status(error.status).json(error.toJSON());
+    return true;
+  }
+
+  // Broken templates (including JSX headers and footers) are the caller's problem, not a server failure
+  if (error instanceof TemplateError) {
+    res.status(422).json({
+      error: error instanceof TemplateSandboxError ? 'Template rejected by sandbox' : `Template failed to ${error.phase}`,
+      details: error.toJSON(),
+    });
+    return true;
+  }
+
+  return false;
+}
+
+/**
+ * Streams a rendered document to the response. Once the headers are sent,
+ * a failure can only close the connection.
+ * @param res Response with its headers set
+ * @param stream Document to send
+ */
+async function pipeDocument(res: Response, stream: Readable): Promise<void> {
+  try {
+    await pipeline(stream, res);
+  } catch (error) {
+    // Clients that disconnect early are not an error
+    if ((error as NodeJS.ErrnoException).code !== 'ERR_STREAM_PREMATURE_CLOSE') {
+      console.error('Error streaming document:', error);
+    }
+  }
+}
+
+/**
+ * Checks whether an If-None-Match header lists an entity tag, comparing weakly
+ * @param header Value of the If-None-Match header
+ * @param etag Entity tag of the document
+ */
+function matchesEntityTag(header: string | undefined, etag: string): boolean {
+  const opaque = (tag: string) => tag.trim().replace(/^W\//, '');
+  return Boolean(header?.split(',').some((tag) => tag.trim() === '*' || opaque(tag) === opaque(etag)));
+}
+
+/**
+ * Renders a prepared request and streams it to the response. Cacheable
+ * documents get an ETag derived from their cache key: a matching
+ * If-None-Match is answered with 304 without rendering, and documents in the
+ * render cache are sent without starting Chromium.
+ * @param req Request, for its If-None-Match header
+ * @param res Response to send the document on
+ * @param request Validated request
+ */
+async function sendDocument(req: Request, res: Response, request: PreparedPdfRequest): Promise<void> {
+  const { cacheKey } = request;
+  const cache = cacheKey ? getRenderCache() : null;
+
+  // Equal inputs give an equivalent document, not the same bytes, since Chromium records when it printed
+  const etag = cacheKey ? `W/"${cacheKey}"` : undefined;
+  if (etag && matchesEntityTag(req.get('If-None-Match'), etag)) {
+    res.setHeader('ETag', etag);
+    res.status(304).end();
+    return;
+  }
+
+  const cached = cache && cacheKey ? await cache.get(cacheKey) : null;
+  let document: StreamedDocument;
+  if (cached) {
+    const { buffer: cachedBuffer, ...rendered } = cached;
+    document = { ...rendered, stream: Readable.from([cachedBuffer]), contentLength: cachedBuffer.length };
+  } else {
+    document = await streamDocument(await request.renderMarkup(), request.options, request.data);
+
+    // Documents small enough to cache are read into memory; larger ones keep streaming from disk
+    if (cache && cacheKey && document.contentLength <= MAX_CACHED_DOCUMENT_BYTES) {
+      const { stream, contentLength, ...rendered } = document;
+      const documentBuffer = await buffer(stream);
+      await cache
+        .set(cacheKey, request.cacheTag, { ...rendered, buffer: documentBuffer })
+        .catch((error) => console.error('Error caching document:', error));
+      document = { ...rendered, stream: Readable.from([documentBuffer]), contentLength };
+    }
+  }
+
+  // Set response headers
+  res.setHeader('Content-Type', document.contentType);
+  res.setHeader('Content-Disposition', `attachment; filename=${document.filename}`);
+  res.setHeader('Content-Length', String(document.contentLength));
+  if (etag) {
+    res.setHeader('ETag', etag);
+  }
+  if (cache) {
+    res.setHeader('X-Render-Cache', cached ? 'hit' : 'miss');
+  }
+  if (request.summary) {
+    res.setHeader('X-Document-Summary', encodeJsonHeader(request.summary));
+  }
+  if (document.warnings.length > 0) {
+    res.setHeader('X-Render-Warnings', encodeJsonHeader(document.warnings));
+  }
+  if (document.conformance) {
+    res.setHeader('X-Pdfa-Conformance', encodeJsonHeader(document.conformance));
+  }
+
+  // Stream the document
+  await pipeDocument(res, document.stream);
+}
+
 // Generate invoice PDF
 router.post('/invoice', async (req: Request, res: Response) => {
   try {
@@ -21,38 +174,39 @@ router.post('/invoice', async (req: Request, res: Response) => {
       companyAddress,
       companyEmail,
       companyPhone,
+      options,
     } = req.body;
 
-    // Validate required fields
-    if (!invoiceNumber || !date || !dueDate || !customerName || !customerAddress || !items) {
-      return res.status(400).json({ error: 'Missing required fields' });
-    }
-
-    // Generate PDF from JSX template
-    const pdfBuffer = await generatePdfFromJsx(
-      React.createElement(InvoiceTemplate, {
-        invoiceNumber,
-        date,
-        dueDate,
-        customerName,
-        customerAddress,
-        items,
-        notes,
-        companyName,
-        companyAddress,
-        companyEmail,
-        companyPhone,
-      }),
-      { filename: `Invoice-${invoiceNumber}.pdf` }
+    // Validate the invoice against its props schema
+    const request = preparePdfRequest(
+      {
+        templateType: 'invoice',
+        data: {
+          invoiceNumber,
+          date,
+          dueDate,
+          customerName,
+          customerAddress,
+          items,
+          notes,
+          companyName,
+          companyAddress,
+          companyEmail,
+          companyPhone,
+        },
+        options,
+      },
+      'template',
+      readValidationOptions(req.query)
     );
 
-    // Set response headers
-    res.setHeader('Content-Type', 'application/pdf');
-    res.setHeader('Content-Disposition', `attachment; filename=Invoice-${invoiceNumber}.pdf`);
-
-    // Send the PDF
-    res.send(pdfBuffer);
+    // Render the document, or answer from the cache
+    await sendDocument(req, res, request);
   } catch (error) {
+    if (sendClientError(res, error)) {
+      return;
+    }
+
     console.error('Error generating invoice PDF:', error);
     res.status(500).json({ error: 'Failed to generate PDF' });
   }
@@ -61,34 +215,22 @@ router.post('/invoice', async (req: Request, res: Response) => {
 // Generate report PDF
 router.post('/report', async (req: Request, res: Response) => {
   try {
-    const { title, date, author, summary, data, conclusion, companyName } = req.body;
+    const { title, date, author, summary, data, conclusion, companyName, options } = req.body;
 
-    // Validate required fields
-    if (!title || !date || !author || !summary || !data) {
-      return res.status(400).json({ error: 'Missing required fields' });
-    }
-
-    // Generate PDF from JSX template
-    const pdfBuffer = await generatePdfFromJsx(
-      React.createElement(ReportTemplate, {
-        title,
-        date,
-        author,
-        summary,
-        data,
-        conclusion,
-        companyName,
-      }),
-      { filename: `Report-${title.replace(/\s+/g, '-')}.pdf` }
+    // Validate the report against its props schema
+    const request = preparePdfRequest(
+      { templateType: 'report', data: { title, date, author, summary, data, conclusion, companyName }, options },
+      'template',
+      readValidationOptions(req.query)
     );
 
-    // Set response headers
-    res.setHeader('Content-Type', 'application/pdf');
-    res.setHeader('Content-Disposition', `attachment; filename=Report-${title.replace(/\s+/g, '-')}.pdf`);
-
-    // Send the PDF
-    res.send(pdfBuffer);
+    // Render the document, or answer from the cache
+    await sendDocument(req, res, request);
   } catch (error) {
+    if (sendClientError(res, error)) {
+      return;
+    }
+
     console.error('Error generating report PDF:', error);
     res.status(500).json({ error: 'Failed to generate PDF' });
   }
@@ -98,39 +240,15 @@ router.post('/report', async (req: Request, res: Response) => {
 router.post('/generate', async (req: Request, res: Response) => {
   try {
     const { templateType, data, options } = req.body;
+    const request = preparePdfRequest({ templateType, data, options }, 'template', readValidationOptions(req.query));
 
-    // Validate required fields
-    if (!templateType || !data) {
-      return res.status(400).json({ error: 'Missing required fields' });
-    }
-
-    let template;
-    let filename;
-
-    // Select template based on templateType
-    switch (templateType) {
-      case 'invoice':
-        template = React.createElement(InvoiceTemplate, data);
-        filename = `Invoice-${data.invoiceNumber || 'generated'}.pdf`;
-        break;
-      case 'report':
-        template = React.createElement(ReportTemplate, data);
-        filename = `Report-${(data.title || 'generated').replace(/\s+/g, '-')}.pdf`;
-        break;
-      default:
-        return res.status(400).json({ error: 'Invalid template type' });
+    // Render the document, or answer from the cache
+    await sendDocument(req, res, request);
+  } catch (error) {
+    if (sendClientError(res, error)) {
+      return;
     }
 
-    // Generate PDF from JSX template
-    const pdfBuffer = await generatePdfFromJsx(template, { ...options, filename });
-
-    // Set response headers
-    res.setHeader('Content-Type', 'application/pdf');
-    res.setHeader('Content-Disposition', `attachment; filename=${filename}`);
-
-    // Send the PDF
-    res.send(pdfBuffer);
-  } catch (error) {
     console.error('Error generating PDF:', error);
     res.status(500).json({ error: 'Failed to generate PDF' });
   }
@@ -139,89 +257,208 @@ router.post('/generate', async (req: Request, res: Response) => {
 // Dynamic JSX template rendering endpoint
 router.post('/render', async (req: Request, res: Response) => {
   try {
-    const { jsxTemplate, data, options } = req.body;
+    const { jsxTemplate, templateId, templateVersion, data, options } = req.body;
+    const request = preparePdfRequest(
+      { jsxTemplate, templateId, templateVersion, data, options },
+      'jsx',
+      readValidationOptions(req.query)
+    );
 
-    // Validate required fields
-    if (!jsxTemplate) {
-      return res.status(400).json({ error: 'Missing JSX template' });
+    // Render the document, or answer from the cache
+    await sendDocument(req, res, request);
+  } catch (error) {
+    if (sendClientError(res, error)) {
+      return;
     }
 
-    // Set default filename
-    const filename = options?.filename || 'document.pdf';
+    console.error('Error generating PDF from JSX string:', error);
+    res.status(500).json({
+      error: 'Failed to generate PDF',
+      details: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
 
-    // Generate PDF from JSX string
-    const pdfBuffer = await generatePdfFromJsxString(jsxTemplate, data || {}, { ...options, filename });
+// Batch endpoint - renders many documents into one merged PDF or a ZIP archive
+router.post('/batch', async (req: Request, res: Response) => {
+  try {
+    const batch = readBatchRequest(req.body);
+    const result = await renderBatch(batch, readValidationOptions(req.query));
+
+    // Nothing to package when every entry failed
+    if (!result.buffer) {
+      return res.status(422).json({ error: 'Every batch entry failed', manifest: result.manifest });
+    }
 
     // Set response headers
-    res.setHeader('Content-Type', 'application/pdf');
-    res.setHeader('Content-Disposition', `attachment; filename=${filename}`);
+    res.setHeader('Content-Type', result.contentType);
+    res.setHeader('Content-Disposition', `attachment; filename=${result.filename}`);
+    res.setHeader('X-Batch-Succeeded', String(result.manifest.succeeded));
+    res.setHeader('X-Batch-Failed', String(result.manifest.failed));
 
-    // Send the PDF
-    res.send(pdfBuffer);
+    // Send the merged PDF or archive
+    res.send(result.buffer);
   } catch (error) {
-    console.error('Error generating PDF from JSX string:', error);
+    if (sendClientError(res, error)) {
+      return;
+    }
+
+    console.error('Error generating PDF batch:', error);
+    res.status(500).json({ error: 'Failed to generate PDF batch' });
+  }
+});
+
+/**
+ * Builds the handler of a PDF operation endpoint
+ * @param readRequest Validates the body and returns a function that runs the operation
+ * @param description What the operation does, for the error log
+ */
+function pdfOperation(
+  readRequest: (body: any, validation: ValidationOptions) => () => Promise<RenderedDocument>,
+  description: string
+) {
+  return async (req: Request, res: Response) => {
+    try {
+      const run = readRequest(req.body, readValidationOptions(req.query));
+      const document = await run();
+
+      // Set response headers
+      res.setHeader('Content-Type', document.contentType);
+      res.setHeader('Content-Disposition', `attachment; filename=${document.filename}`);
+      if (document.warnings.length > 0) {
+        res.setHeader('X-Render-Warnings', encodeJsonHeader(document.warnings));
+      }
+      if (document.conformance) {
+        res.setHeader('X-Pdfa-Conformance', encodeJsonHeader(document.conformance));
+      }
+
+      // Send the processed PDF or archive
+      res.send(document.buffer);
+    } catch (error) {
+      if (sendClientError(res, error)) {
+        return;
+      }
+
+      console.error(`Error ${description}:`, error);
+      res.status(500).json({ error: 'Failed to process PDF' });
+    }
+  };
+}
+
+// Post-processing endpoints - work on uploaded PDFs and rendered templates alike
+router.post('/merge', pdfOperation(readMergeRequest, 'merging PDFs'));
+router.post('/split', pdfOperation(readSplitRequest, 'splitting PDF'));
+router.post('/stamp', pdfOperation(readStampRequest, 'stamping PDF'));
+router.post('/page-numbers', pdfOperation(readPageNumberRequest, 'numbering PDF pages'));
+
+// Render cache invalidation - call after deploying template, component or stylesheet changes
+router.delete('/cache', async (req: Request, res: Response) => {
+  const { templateType } = req.query;
+  if (templateType !== undefined && typeof templateType !== 'string') {
+    return res.status(400).json({ error: 'Invalid templateType' });
+  }
+
+  const cache = getRenderCache();
+  try {
+    const removed = cache ? await cache.clear(templateType) : 0;
+    res.json({ removed });
+  } catch (error) {
+    console.error('Error clearing render cache:', error);
+    res.status(500).json({ error: 'Failed to clear render cache' });
+  }
+});
+
+/**
+ * Handles `POST /templates` and `PUT /templates/:id`: compiles and validates
+ * the JSX, then stores it as a new template or a new version
+ * @param req Request with the template in its body
+ * @param res Response to send the stored template on
+ * @param id Template to add a version to
+ */
+async function storeTemplate(req: Request, res: Response, id?: string) {
+  try {
+    const draft = await readTemplateDraft(req.body);
+    const stored = await getTemplateStore().save(draft, id);
+    if (!stored) {
+      return res.status(404).json({ error: 'Template not found' });
+    }
+
+    const status = id === undefined ? 201 : 200;
+    res.status(status).location(`${req.baseUrl}/templates/${stored.id}`).json(describeStoredTemplate(stored));
+  } catch (error) {
+    if (sendClientError(res, error)) {
+      return;
+    }
+
+    console.error('Error storing template:', error);
     res.status(500).json({
-      error: 'Failed to generate PDF',
+      error: 'Failed to store template',
       details: error instanceof Error ? error.message : 'Unknown error',
     });
   }
+}
+
+// Stored template endpoints - JSX templates compiled once and rendered by `templateId`
+router.post('/templates', (req: Request, res: Response) => storeTemplate(req, res));
+router.put('/templates/:id', (req: Request, res: Response) => storeTemplate(req, res, req.params.id));
+
+router.get('/templates', (req: Request, res: Response) => {
+  res.json({ templates: getTemplateStore().list().map(describeStoredTemplate) });
+});
+
+router.get('/templates/:id', (req: Request, res: Response) => {
+  const store = getTemplateStore();
+  const stored = store.get(req.params.id);
+  const version = req.query.version === undefined ? undefined : Number(req.query.version);
+  const selected = stored && store.getVersion(stored.id, version);
+  if (!stored || !selected) {
+    return res.status(404).json({ error: stored ? 'Template version not found' : 'Template not found' });
+  }
+
+  // The source of the requested version, so callers can edit it and store the next one
+  res.json({
+    ...describeStoredTemplate(stored),
+    version: selected.version,
+    jsxTemplate: selected.template.source,
+    propsSchema: selected.propsSchema,
+    options: selected.defaultOptions,
+  });
+});
+
+router.delete('/templates/:id', async (req: Request, res: Response) => {
+  try {
+    if (!(await getTemplateStore().delete(req.params.id))) {
+      return res.status(404).json({ error: 'Template not found' });
+    }
+    res.status(204).end();
+  } catch (error) {
+    console.error('Error deleting template:', error);
+    res.status(500).json({ error: 'Failed to delete template' });
+  }
 });
 
 // Component library endpoint - returns available components and their props
 router.get('/components', (req: Request, res: Response) => {
-  // Define component documentation
-  const components = [
-    {
-      name: 'InvoiceTemplate',
-      description: 'Template for generating invoice PDFs',
-      props: {
-        invoiceNumber: { type: 'string', required: true, description: 'Unique identifier for the invoice' },
-        date: { type: 'string', required: true, description: 'Invoice creation date (YYYY-MM-DD format)' },
-        dueDate: { type: 'string', required: true, description: 'Payment due date (YYYY-MM-DD format)' },
-        customerName: { type: 'string', required: true, description: 'Name of the customer' },
-        customerAddress: { type: 'string', required: true, description: 'Full address of the customer' },
-        items: {
-          type: 'array',
-          required: true,
-          description: 'Array of items included in the invoice',
-          items: {
-            description: { type: 'string', required: true, description: 'Description of the item' },
-            quantity: { type: 'number', required: true, description: 'Quantity of the item' },
-            unitPrice: { type: 'number', required: true, description: 'Price per unit of the item' },
-          },
-        },
-        notes: { type: 'string', required: false, description: 'Additional notes to include on the invoice' },
-        companyName: { type: 'string', required: false, description: 'Name of the company issuing the invoice' },
-        companyAddress: { type: 'string', required: false, description: 'Address of the company' },
-        companyEmail: { type: 'string', required: false, description: 'Email contact for the company' },
-        companyPhone: { type: 'string', required: false, description: 'Phone number for the company' },
-      },
-    },
-    {
-      name: 'ReportTemplate',
-      description: 'Template for generating report PDFs',
-      props: {
-        title: { type: 'string', required: true, description: 'Title of the report' },
-        date: { type: 'string', required: true, description: 'Date of the report (YYYY-MM-DD format)' },
-        author: { type: 'string', required: true, description: 'Name of the report author' },
-        summary: { type: 'string', required: true, description: 'Executive summary of the report' },
-        data: {
-          type: 'array',
-          required: true,
-          description: 'Array of data points to include in the report',
-          items: {
-            label: { type: 'string', required: true, description: 'Label for the data point' },
-            value: { type: 'number', required: true, description: 'Numeric value for the data point' },
-          },
-        },
-        conclusion: { type: 'string', required: false, description: 'Conclusion or final thoughts for the report' },
-        companyName: { type: 'string', required: false, description: 'Name of the company issuing the report' },
-      },
-    },
-  ];
+  // Component documentation is generated from the template registry
+  const components = listTemplates().map(describeTemplate);
+
+  // Return template documentation and the components available inside templates
+  res.json({ components, library: describeComponentLibrary() });
+});
+
+// Theme endpoint - returns the names accepted by the `theme` option
+router.get('/themes', (req: Request, res: Response) => {
+  res.json({ themes: listThemes() });
+});
+
+// Asset endpoint - returns the fonts and images templates can reference with `asset:` URLs
+router.get('/assets', (req: Request, res: Response) => {
+  res.json(listAssets());
+});
 
-  // Return component documentation
-  res.json({ components });
+// Locale endpoint - returns the locales with translated labels; other locales fall back to English
+router.get('/locales', (req: Request, res: Response) => {
+  res.json({ locales: listLocales() });
 });
 
 export default router;
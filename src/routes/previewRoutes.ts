@@ -0,0 +1,299 @@
+import { createHash } from 'crypto';
+import express, { Request, Response, Router } from 'express';
+import { listLocales } from '../utils/i18n';
+import { getPageBox, PdfOptions, renderDocument } from '../utils/pdfGenerator';
+import {
+  PdfRequestBody,
+  PdfRequestError,
+  preparePdfRequest,
+  PropsValidationError,
+  readValidationOptions,
+} from '../utils/pdfRequest';
+import { PreviewFailure, renderPreviewFailure, renderPreviewIndex, renderPreviewPage } from '../utils/previewPages';
+import { getReloadError, onPreviewChange, PreviewChange } from '../utils/previewWatcher';
+import { RenderLimitError } from '../utils/renderLimits';
+import { TemplateError } from '../utils/templateErrors';
+import { getTemplate, listTemplates } from '../utils/templateRegistry';
+import { listThemes } from '../utils/themes';
+
+const router: Router = express.Router();
+
+// Sent to preview pages when they connect, so they notice that the server restarted
+const STARTED_AT = new Date().toISOString();
+
+// Comments sent on idle event streams, so proxies do not close them
+const HEARTBEAT_MS = 30000;
+
+// Documents posted to the preview, by a hash of their body; the oldest are dropped
+const MAX_DRAFTS = 50;
+const drafts = new Map<string, PdfRequestBody>();
+
+const PAPER_FORMATS = ['Letter', 'Legal', 'A4'];
+
+// The HTML pane shows template output on this origin, so it may not run scripts or load anything.
+// Styles are inline and assets are inlined as data URLs. allow-same-origin lets the preview page
+// measure the pane; without allow-scripts the pane itself still cannot do anything with it.
+const HTML_PANE_POLICY =
+  "sandbox allow-same-origin; default-src 'none'; style-src 'unsafe-inline'; img-src data:; font-src data:";
+
+/**
+ * Reads the toolbar of the preview page from the query string
+ * @param query Parsed query string
+ * @returns Paper, orientation, locale and theme; options that are not picked are left out
+ */
+function readToolbarOptions(query: Record<string, unknown>): PdfOptions {
+  const pick = (name: string) => (typeof query[name] === 'string' && query[name] !== '' ? query[name] : undefined);
+  const format = pick('format');
+
+  const options: PdfOptions = {};
+  if (format !== undefined && PAPER_FORMATS.includes(format)) {
+    options.format = format as PdfOptions['format'];
+  }
+  if (query.landscape === 'true') {
+    options.landscape = true;
+  }
+  if (pick('locale') !== undefined) {
+    options.locale = pick('locale');
+  }
+  if (pick('theme') !== undefined) {
+    options.theme = pick('theme');
+  }
+  return options;
+}
+
+/**
+ * Looks up the document a preview URL points to: a registered template with
+ * its sample data, or a posted draft. The toolbar options are layered over its own.
+ * @param req Request with the `kind` and `id` route parameters
+ * @returns Request body of the document, or undefined when there is none
+ */
+function readPreviewBody(req: Request): PdfRequestBody | undefined {
+  const { kind, id } = req.params;
+  let body: PdfRequestBody | undefined;
+  if (kind === 'drafts') {
+    body = drafts.get(id);
+  } else {
+    const template = getTemplate(id);
+    body = template && { templateType: id, data: template.sampleData || {} };
+  }
+
+  return body && { ...body, options: { ...body.options, ...readToolbarOptions(req.query) } };
+}
+
+/**
+ * Reads a posted draft: a template type or JSX template, with data and
+ * options sent as objects, or as JSON text from the preview form
+ * @param body Request body
+ * @returns Request body of the document
+ * @throws PdfRequestError when the template is missing or ambiguous, or data or options are not valid JSON
+ */
+function readDraft(body: Record<string, any>): PdfRequestBody {
+  const parseField = (name: string) => {
+    const value = body?.[name];
+    if (typeof value !== 'string') {
+      return value;
+    }
+    if (value.trim() === '') {
+      return undefined;
+    }
+
+    try {
+      return JSON.parse(value);
+    } catch {
+      throw new PdfRequestError(`${name} is not valid JSON`);
+    }
+  };
+
+  const templateType = body?.templateType || undefined;
+  const jsxTemplate = body?.jsxTemplate || undefined;
+  if (!templateType === !jsxTemplate) {
+    throw new PdfRequestError('Choose either a template type or a JSX template');
+  }
+
+  return { templateType, jsxTemplate, data: parseField('data'), options: parseField('options') };
+}
+
+/**
+ * Describes why a preview could not be rendered
+ * @param error Error thrown while preparing or rendering the document
+ * @returns Status and contents of the failure page
+ */
+function describePreviewFailure(error: unknown): PreviewFailure {
+  if (error instanceof TemplateError) {
+    return {
+      status: 422,
+      title: `Template failed to ${error.phase}`,
+      message: error.message,
+      details: error.line ? [`Line ${error.line}, column ${error.column}`] : [],
+      codeFrame: error.codeFrame,
+    };
+  }
+
+  if (error instanceof PropsValidationError) {
+    return {
+      status: 400,
+      title: 'Invalid template data',
+      message: 'The data does not match the props schema of the template.',
+      details: error.issues.map((issue) => `${issue.path}: ${issue.message}`),
+    };
+  }
+
+  if (error instanceof PdfRequestError || error instanceof RenderLimitError) {
+    const status = error instanceof RenderLimitError ? error.status : 400;
+    return { status, title: 'Document cannot be rendered', message: error.message, details: [] };
+  }
+
+  return {
+    status: 500,
+    title: 'Preview failed',
+    message: error instanceof Error ? error.message : 'Unknown error',
+    details: [],
+  };
+}
+
+/**
+ * Sends a failure page in place of a document or preview page
+ * @param res Response to send the page on
+ * @param failure What went wrong
+ */
+function sendFailure(res: Response, failure: PreviewFailure): void {
+  res.status(failure.status).type('html').send(renderPreviewFailure(failure));
+}
+
+const NOT_FOUND: PreviewFailure = {
+  status: 404,
+  title: 'Preview not found',
+  message: 'There is no template of this type, or the posted draft was dropped. Post it again.',
+  details: [],
+};
+
+// Preview index - lists the templates and has a form for JSX templates and custom data
+router.get('/', (req: Request, res: Response) => {
+  res.type('html').send(renderPreviewIndex(listTemplates(), req.baseUrl));
+});
+
+// Draft endpoint - keeps a posted document and redirects to its preview
+router.post('/', (req: Request, res: Response) => {
+  // Other sites can post forms here but not JSON, so they cannot plant documents in the preview
+  if (!req.is('application/json')) {
+    return sendFailure(res, {
+      status: 415,
+      title: 'Unsupported draft',
+      message: 'Drafts are posted as JSON, with the Content-Type application/json.',
+      details: [],
+    });
+  }
+
+  let draft: PdfRequestBody;
+  try {
+    draft = readDraft(req.body);
+  } catch (error) {
+    return sendFailure(res, describePreviewFailure(error));
+  }
+
+  // Posting the same document again opens the same preview
+  const id = createHash('sha256').update(JSON.stringify(draft)).digest('hex').slice(0, 16);
+  drafts.delete(id);
+  drafts.set(id, draft);
+  if (drafts.size > MAX_DRAFTS) {
+    drafts.delete(drafts.keys().next().value!);
+  }
+
+  res.redirect(303, `${req.baseUrl}/drafts/${id}`);
+});
+
+// Event stream - tells preview pages to reload when templates, components or styles.css change
+router.get('/events', (req: Request, res: Response) => {
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+  });
+  res.write(`retry: 1000\nevent: ready\ndata: ${JSON.stringify({ startedAt: STARTED_AT })}\n\n`);
+
+  const stopListening = onPreviewChange((change: PreviewChange) => {
+    res.write(`event: change\ndata: ${JSON.stringify(change)}\n\n`);
+  });
+  const heartbeat = setInterval(() => res.write(': heartbeat\n\n'), HEARTBEAT_MS);
+
+  req.on('close', () => {
+    clearInterval(heartbeat);
+    stopListening();
+  });
+});
+
+// Preview page - the HTML and PDF of a document side by side
+router.get('/:kind(templates|drafts)/:id', (req: Request, res: Response) => {
+  const body = readPreviewBody(req);
+  if (!body) {
+    return sendFailure(res, NOT_FOUND);
+  }
+
+  // The page is drawn with the template's paper and margins; invalid documents are reported by the panes
+  let options = body.options || {};
+  try {
+    options = preparePdfRequest(body, undefined, readValidationOptions(req.query)).options;
+  } catch {
+    // Keep the options of the body
+  }
+
+  const query = req.url.includes('?') ? req.url.slice(req.url.indexOf('?')) : '';
+  const documentUrl = `${req.baseUrl}${req.path}/document`;
+  const template = body.templateType ? getTemplate(body.templateType) : undefined;
+  const title = req.params.kind === 'templates' ? template!.metadata.name : `${body.templateType || 'JSX'} draft`;
+
+  res.type('html').send(
+    renderPreviewPage({
+      title,
+      baseUrl: req.baseUrl,
+      documentUrls: { html: `${documentUrl}.html${query}`, pdf: `${documentUrl}.pdf${query}` },
+      pageBox: getPageBox(options),
+      selected: readToolbarOptions(req.query),
+      locales: listLocales(),
+      themes: listThemes(),
+    })
+  );
+});
+
+// Preview documents - rendered on every request, so they always show the latest files
+router.get('/:kind(templates|drafts)/:id/document.:format(html|pdf)', async (req: Request, res: Response) => {
+  const body = readPreviewBody(req);
+  if (!body) {
+    return sendFailure(res, NOT_FOUND);
+  }
+
+  // A template module that no longer loads would otherwise be previewed at its last working version
+  const reloadError = body.templateType !== undefined ? getReloadError() : undefined;
+  if (reloadError) {
+    return sendFailure(res, {
+      status: 500,
+      title: 'Templates failed to reload',
+      message: 'Fix the error and save the file again.',
+      details: [],
+      codeFrame: reloadError.message,
+    });
+  }
+
+  try {
+    const request = preparePdfRequest(body, undefined, readValidationOptions(req.query));
+    const outputFormat = req.params.format as 'html' | 'pdf';
+    const options: PdfOptions = { ...request.options, outputFormat };
+    const document = await renderDocument(await request.renderMarkup(), options, request.data);
+
+    res.setHeader('Content-Type', document.contentType);
+    res.setHeader('Content-Disposition', `inline; filename=${document.filename}`);
+    res.setHeader('Cache-Control', 'no-store');
+    if (outputFormat === 'html') {
+      res.setHeader('Content-Security-Policy', HTML_PANE_POLICY);
+    }
+    res.send(document.buffer);
+  } catch (error) {
+    const failure = describePreviewFailure(error);
+    if (failure.status >= 500) {
+      console.error('Error rendering preview:', error);
+    }
+    sendFailure(res, failure);
+  }
+});
+
+export default router;
@@ -1,11 +1,21 @@
 import React from 'react';
+import { AddressBlock } from '../components/AddressBlock';
+import { DateText, Money } from '../components/Formatting';
+import { KeepTogether } from '../components/PageLayout';
+import { Table, TableColumn } from '../components/Table';
+import type { PdfOptions } from '../utils/pdfGenerator';
+import { buildFacturXAttachment, FacturXInvoice } from '../utils/facturX';
+import { calculateInvoiceTotals, InvoiceLineInput, InvoiceLineTotals, MAX_INVOICE_AMOUNT } from '../utils/invoiceTotals';
+import type { JsonSchema } from '../utils/propsSchema';
+import type { TemplateMetadata } from '../utils/templateRegistry';
+import { useTranslation } from '../utils/translator';
 
-interface InvoiceItem {
+interface InvoiceItem extends InvoiceLineInput {
   description: string;
-  quantity: number;
-  unitPrice: number;
 }
 
+type InvoiceRow = InvoiceItem & InvoiceLineTotals;
+
 interface InvoiceProps {
   invoiceNumber: string;
   date: string;
@@ -18,8 +28,145 @@ interface InvoiceProps {
   companyAddress?: string;
   companyEmail?: string;
   companyPhone?: string;
+  companyVatId?: string;
+  companyCountry?: string;
+  customerCountry?: string;
+  currency?: string;
+  locale?: string;
+  taxRate?: number;
+  taxLabel?: string;
+  pricesIncludeTax?: boolean;
+  shipping?: number;
+  shippingTaxRate?: number;
 }
 
+// Tax rate used when the invoice does not set one, kept at the rate invoices always used
+const DEFAULT_TAX_RATE = 10;
+
+// Seller details printed when the invoice does not set them
+const COMPANY_DEFAULTS = {
+  companyName: 'Your Company Name',
+  companyAddress: '123 Business St, City, Country',
+  companyEmail: 'contact@example.com',
+  companyPhone: '+1 (555) 123-4567',
+};
+
+export const metadata: TemplateMetadata = {
+  type: 'invoice',
+  name: 'InvoiceTemplate',
+  description: 'Template for generating invoice PDFs',
+  filename: (data) => `Invoice-${data.invoiceNumber || 'generated'}.pdf`,
+  summary: (data) => calculateInvoiceTotals({ taxRate: DEFAULT_TAX_RATE, ...data, items: data.items }),
+  // PDF/A-3 invoices carry their data as Factur-X XML
+  attachments: (data) => [
+    buildFacturXAttachment({ ...COMPANY_DEFAULTS, taxRate: DEFAULT_TAX_RATE, ...(data as FacturXInvoice) }),
+  ],
+};
+
+export const defaultOptions: PdfOptions = {
+  format: 'Letter',
+};
+
+export const propsSchema: JsonSchema = {
+  type: 'object',
+  required: ['invoiceNumber', 'date', 'dueDate', 'customerName', 'customerAddress', 'items'],
+  properties: {
+    invoiceNumber: { type: 'string', minLength: 1, description: 'Unique identifier for the invoice' },
+    date: { type: 'string', minLength: 1, description: 'Invoice creation date (YYYY-MM-DD format)' },
+    dueDate: { type: 'string', minLength: 1, description: 'Payment due date (YYYY-MM-DD format)' },
+    customerName: { type: 'string', minLength: 1, description: 'Name of the customer' },
+    customerAddress: { type: 'string', minLength: 1, description: 'Full address of the customer' },
+    items: {
+      type: 'array',
+      description: 'Array of items included in the invoice',
+      items: {
+        type: 'object',
+        required: ['description', 'quantity', 'unitPrice'],
+        properties: {
+          description: { type: 'string', minLength: 1, description: 'Description of the item' },
+          quantity: {
+            type: 'number',
+            minimum: -MAX_INVOICE_AMOUNT,
+            maximum: MAX_INVOICE_AMOUNT,
+            description: 'Quantity of the item',
+          },
+          unitPrice: {
+            type: 'number',
+            minimum: -MAX_INVOICE_AMOUNT,
+            maximum: MAX_INVOICE_AMOUNT,
+            description: 'Price per unit of the item',
+          },
+          taxRate: {
+            type: 'number',
+            minimum: 0,
+            maximum: 100,
+            description: 'Tax rate of the item in percent (defaults to the invoice tax rate)',
+          },
+          taxExempt: { type: 'boolean', default: false, description: 'Whether the item is exempt from tax' },
+          discountPercent: { type: 'number', minimum: 0, maximum: 100, description: 'Discount on the item in percent' },
+          discountAmount: {
+            type: 'number',
+            minimum: 0,
+            maximum: MAX_INVOICE_AMOUNT,
+            description: 'Fixed discount on the item',
+          },
+        },
+      },
+    },
+    notes: { type: 'string', description: 'Additional notes to include on the invoice' },
+    companyName: { type: 'string', description: 'Name of the company issuing the invoice' },
+    companyAddress: { type: 'string', description: 'Address of the company' },
+    companyEmail: { type: 'string', description: 'Email contact for the company' },
+    companyPhone: { type: 'string', description: 'Phone number for the company' },
+    companyVatId: { type: 'string', description: 'VAT identification number of the company, e.g. "DE123456789"' },
+    companyCountry: {
+      type: 'string',
+      format: 'country',
+      description: 'ISO 3166-1 alpha-2 country code of the company, used in the PDF/A-3 invoice XML',
+    },
+    customerCountry: {
+      type: 'string',
+      format: 'country',
+      description: 'ISO 3166-1 alpha-2 country code of the customer, used in the PDF/A-3 invoice XML',
+    },
+    currency: { type: 'string', format: 'currency', default: 'USD', description: 'ISO 4217 currency code' },
+    locale: {
+      type: 'string',
+      format: 'locale',
+      description: 'Locale used to format amounts (defaults to the document locale)',
+    },
+    taxRate: {
+      type: 'number',
+      minimum: 0,
+      maximum: 100,
+      default: DEFAULT_TAX_RATE,
+      description: 'Default tax rate in percent',
+    },
+    taxLabel: { type: 'string', description: 'Name of the tax, e.g. "VAT" (defaults to the translated "Tax")' },
+    pricesIncludeTax: { type: 'boolean', default: false, description: 'Whether prices and shipping include tax' },
+    shipping: { type: 'number', minimum: 0, maximum: MAX_INVOICE_AMOUNT, description: 'Shipping cost' },
+    shippingTaxRate: {
+      type: 'number',
+      minimum: 0,
+      maximum: 100,
+      description: 'Tax rate of the shipping cost in percent (untaxed when omitted)',
+    },
+  },
+};
+
+export const sampleData: InvoiceProps = {
+  invoiceNumber: 'INV-001',
+  date: '2023-11-01',
+  dueDate: '2023-11-15',
+  customerName: 'John Doe',
+  customerAddress: '123 Main St, Anytown, USA',
+  items: [
+    { description: 'Web Development', quantity: 10, unitPrice: 150 },
+    { description: 'Hosting (monthly)', quantity: 1, unitPrice: 50 },
+  ],
+  notes: 'Thank you for your business!',
+};
+
 const InvoiceTemplate: React.FC<InvoiceProps> = ({
   invoiceNumber,
   date,
@@ -28,15 +175,62 @@ const InvoiceTemplate: React.FC<InvoiceProps> = ({
   customerAddress,
   items,
   notes = '',
-  companyName = 'Your Company Name',
-  companyAddress = '123 Business St, City, Country',
-  companyEmail = 'contact@example.com',
-  companyPhone = '+1 (555) 123-4567',
+  companyName = COMPANY_DEFAULTS.companyName,
+  companyAddress = COMPANY_DEFAULTS.companyAddress,
+  companyEmail = COMPANY_DEFAULTS.companyEmail,
+  companyPhone = COMPANY_DEFAULTS.companyPhone,
+  companyVatId,
+  currency = 'USD',
+  locale,
+  taxRate = DEFAULT_TAX_RATE,
+  taxLabel,
+  pricesIncludeTax = false,
+  shipping,
+  shippingTaxRate,
 }) => {
-  // Calculate subtotal, tax, and total
-  const subtotal = items.reduce((sum, item) => sum + item.quantity * item.unitPrice, 0);
-  const tax = subtotal * 0.1; // 10% tax rate
-  const total = subtotal + tax;
+  // Labels follow the document locale; amounts use the invoice locale when it sets one
+  const { t, locale: documentLocale } = useTranslation();
+  const numberLocale = locale || documentLocale;
+  const tax = taxLabel || t('invoice.tax');
+
+  // Calculate line amounts, tax lines and total in the invoice currency
+  const totals = calculateInvoiceTotals({ items, currency, taxRate, pricesIncludeTax, shipping, shippingTaxRate });
+  const money = (amount: number) => <Money amount={amount} currency={currency} locale={numberLocale} />;
+  const percent = (rate: number) =>
+    new Intl.NumberFormat(numberLocale, { style: 'percent', maximumFractionDigits: 2 }).format(rate / 100);
+
+  // Only show the discount and tax rate columns when they carry information
+  const showDiscount = totals.discount > 0;
+  const showTaxRate = totals.taxes.length > 1 || totals.lines.some((line) => line.taxExempt);
+
+  const rows: InvoiceRow[] = items.map((item, index) => ({ ...item, ...totals.lines[index] }));
+  const columns: TableColumn<InvoiceRow>[] = [
+    { key: 'description', header: t('invoice.description') },
+    {
+      key: 'quantity',
+      header: t('invoice.quantity'),
+      align: 'right',
+      render: (row) => new Intl.NumberFormat(numberLocale).format(row.quantity),
+    },
+    { key: 'unitPrice', header: t('invoice.unitPrice'), align: 'right', render: (row) => money(row.unitPrice) },
+  ];
+  if (showDiscount) {
+    columns.push({
+      key: 'discount',
+      header: t('invoice.discount'),
+      align: 'right',
+      render: (row) => (row.discount > 0 ? money(-row.discount) : ''),
+    });
+  }
+  if (showTaxRate) {
+    columns.push({
+      key: 'taxRate',
+      header: tax,
+      align: 'right',
+      render: (row) => (row.taxExempt ? t('invoice.exempt') : percent(row.taxRate)),
+    });
+  }
+  columns.push({ key: 'amount', header: t('invoice.amount'), align: 'right', render: (row) => money(row.amount) });
 
   return (
     <div className='page'>
@@ -46,74 +240,70 @@ const InvoiceTemplate: React.FC<InvoiceProps> = ({
           <p className='text-gray-500'>{companyAddress}</p>
           <p className='text-gray-500'>{companyEmail}</p>
           <p className='text-gray-500'>{companyPhone}</p>
+          {companyVatId && (
+            <p className='text-gray-500'>
+              {t('invoice.vatId')}: {companyVatId}
+            </p>
+          )}
         </div>
         <div className='text-right'>
-          <h2 className='text-xl font-bold'>INVOICE</h2>
+          <h2 className='text-xl font-bold text-brand'>{t('invoice.title')}</h2>
           <p>
-            <strong>Invoice #:</strong> {invoiceNumber}
+            <strong>{t('invoice.number')}:</strong> {invoiceNumber}
           </p>
           <p>
-            <strong>Date:</strong> {date}
+            <strong>{t('common.date')}:</strong> <DateText value={date} />
           </p>
           <p>
-            <strong>Due Date:</strong> {dueDate}
+            <strong>{t('invoice.dueDate')}:</strong> <DateText value={dueDate} />
           </p>
         </div>
       </div>
 
       <div className='my-4 p-4 border border-gray-200 rounded'>
-        <h3 className='font-semibold'>Bill To:</h3>
-        <p className='font-bold'>{customerName}</p>
-        <p>{customerAddress}</p>
+        <AddressBlock title={`${t('invoice.billTo')}:`} name={customerName} address={customerAddress} />
       </div>
 
-      <table className='table'>
-        <thead>
-          <tr className='bg-gray-100'>
-            <th>Description</th>
-            <th className='text-right'>Quantity</th>
-            <th className='text-right'>Unit Price</th>
-            <th className='text-right'>Amount</th>
-          </tr>
-        </thead>
-        <tbody>
-          {items.map((item, index) => (
-            <tr key={index}>
-              <td>{item.description}</td>
-              <td className='text-right'>{item.quantity}</td>
-              <td className='text-right'>${item.unitPrice.toFixed(2)}</td>
-              <td className='text-right'>${(item.quantity * item.unitPrice).toFixed(2)}</td>
-            </tr>
-          ))}
-        </tbody>
-      </table>
-
-      <div className='flex justify-end my-4'>
-        <div className='w-full max-w-xs'>
-          <div className='flex justify-between py-2'>
-            <span>Subtotal:</span>
-            <span>${subtotal.toFixed(2)}</span>
-          </div>
-          <div className='flex justify-between py-2'>
-            <span>Tax (10%):</span>
-            <span>${tax.toFixed(2)}</span>
-          </div>
-          <div className='flex justify-between py-2 font-bold'>
-            <span>Total:</span>
-            <span>${total.toFixed(2)}</span>
+      <Table columns={columns} rows={rows} />
+
+      <KeepTogether>
+        <div className='flex justify-end my-4'>
+          <div className='w-full max-w-xs'>
+            <div className='flex justify-between py-2'>
+              <span>{t('invoice.subtotal')}:</span>
+              <span>{money(totals.subtotal)}</span>
+            </div>
+            {totals.shipping > 0 && (
+              <div className='flex justify-between py-2'>
+                <span>{t('invoice.shipping')}:</span>
+                <span>{money(totals.shipping)}</span>
+              </div>
+            )}
+            {totals.taxes.map((line) => (
+              <div key={line.rate} className='flex justify-between py-2'>
+                <span>
+                  {pricesIncludeTax ? t('invoice.includedTax', { tax }) : tax} ({percent(line.rate)}):
+                </span>
+                <span>{money(line.tax)}</span>
+              </div>
+            ))}
+            <div className='flex justify-between py-2 font-bold'>
+              <span>{t('invoice.total')}:</span>
+              <span>{money(totals.total)}</span>
+            </div>
           </div>
         </div>
-      </div>
+      </KeepTogether>
 
       {notes && (
         <div className='my-4 p-4 border border-gray-200 rounded'>
-          <h3 className='font-semibold'>Notes:</h3>
+          <h3 className='font-semibold'>{t('common.notes')}:</h3>
           <p>{notes}</p>
         </div>
       )}
 
       <div className='page-footer text-center'>
-        <p>Thank you for your business!</p>
+        <p>{t('invoice.thankYou')}</p>
       </div>
     </div>
   );
@@ -1,94 +1,207 @@
 import React from 'react';
+import { CHART_TYPES, CHARTS, ChartSeries, ChartType } from '../components/charts';
+import { DateText } from '../components/Formatting';
+import { KeepTogether } from '../components/PageLayout';
+import { Table } from '../components/Table';
+import type { PdfOptions } from '../utils/pdfGenerator';
+import type { JsonSchema } from '../utils/propsSchema';
+import type { TemplateMetadata } from '../utils/templateRegistry';
+import { useTranslation } from '../utils/translator';
 
 interface DataPoint {
   label: string;
   value: number;
 }
 
+interface ReportSection {
+  title: string;
+  description?: string;
+  chartType?: ChartType;
+  labels: string[];
+  series: ChartSeries[];
+}
+
 interface ReportProps {
   title: string;
   date: string;
   author: string;
   summary: string;
   data: DataPoint[];
+  chartType?: ChartType;
+  sections?: ReportSection[];
   conclusion?: string;
   companyName?: string;
   companyLogo?: string;
 }
 
+export const metadata: TemplateMetadata = {
+  type: 'report',
+  name: 'ReportTemplate',
+  description: 'Template for generating report PDFs',
+  filename: (data) => `Report-${(data.title || 'generated').replace(/\s+/g, '-')}.pdf`,
+};
+
+// Data points drawn in the chart; the table lists every point, but thousands of bars would be unreadable
+const MAX_CHART_POINTS = 50;
+
+export const defaultOptions: PdfOptions = {
+  format: 'Letter',
+};
+
+export const propsSchema: JsonSchema = {
+  type: 'object',
+  required: ['title', 'date', 'author', 'summary', 'data'],
+  properties: {
+    title: { type: 'string', minLength: 1, description: 'Title of the report' },
+    date: { type: 'string', minLength: 1, description: 'Date of the report (YYYY-MM-DD format)' },
+    author: { type: 'string', minLength: 1, description: 'Name of the report author' },
+    summary: { type: 'string', minLength: 1, description: 'Executive summary of the report' },
+    data: {
+      type: 'array',
+      description: 'Array of data points to include in the report',
+      items: {
+        type: 'object',
+        required: ['label', 'value'],
+        properties: {
+          label: { type: 'string', minLength: 1, description: 'Label for the data point' },
+          value: { type: 'number', description: 'Numeric value for the data point' },
+        },
+      },
+    },
+    chartType: { type: 'string', enum: CHART_TYPES, default: 'bar', description: 'Chart drawn for the data points' },
+    sections: {
+      type: 'array',
+      description: 'Additional data sections, each drawn as its own chart',
+      items: {
+        type: 'object',
+        required: ['title', 'labels', 'series'],
+        properties: {
+          title: { type: 'string', minLength: 1, description: 'Heading of the section' },
+          description: { type: 'string', description: 'Text shown above the chart' },
+          chartType: { type: 'string', enum: CHART_TYPES, default: 'bar', description: 'Chart drawn for the section' },
+          labels: { type: 'array', items: { type: 'string' }, description: 'Category labels along the chart' },
+          series: {
+            type: 'array',
+            description: 'Data series with one value per label; pie and donut charts draw the first series',
+            items: {
+              type: 'object',
+              required: ['name', 'values'],
+              properties: {
+                name: { type: 'string', minLength: 1, description: 'Name of the series shown in the legend' },
+                values: { type: 'array', items: { type: 'number' }, description: 'Values of the series' },
+                color: { type: 'string', description: 'CSS colour of the series' },
+              },
+            },
+          },
+        },
+      },
+    },
+    conclusion: { type: 'string', description: 'Conclusion or final thoughts for the report' },
+    companyName: { type: 'string', description: 'Name of the company issuing the report' },
+  },
+};
+
+export const sampleData: ReportProps = {
+  title: 'Monthly Performance Report',
+  date: '2023-11-01',
+  author: 'Jane Smith',
+  summary: 'This report summarizes the performance metrics for October 2023.',
+  data: [
+    { label: 'Website Visitors', value: 15000 },
+    { label: 'New Customers', value: 120 },
+    { label: 'Revenue', value: 25000 },
+  ],
+  conclusion: "Overall, we've seen a 15% increase in all key metrics compared to the previous month.",
+};
+
 const ReportTemplate: React.FC<ReportProps> = ({
   title,
   date,
   author,
   summary,
   data,
+  chartType = 'bar',
+  sections = [],
   conclusion = '',
   companyName = 'Your Company Name',
 }) => {
-  // Find the highest value for scaling the chart
-  const maxValue = Math.max(...data.map((item) => item.value));
+  const { t, formatNumber } = useTranslation();
+  const DataChart = CHARTS[chartType];
+  const chartData = data.length > MAX_CHART_POINTS ? data.slice(0, MAX_CHART_POINTS) : data;
 
   return (
     <div className='page'>
       <div className='page-header text-center'>
         <h1 className='text-2xl font-bold'>{title}</h1>
         <p className='text-gray-500'>{companyName}</p>
-        <p className='text-gray-500'>Date: {date}</p>
-        <p className='text-gray-500'>Prepared by: {author}</p>
+        <p className='text-gray-500'>
+          {t('common.date')}: <DateText value={date} />
+        </p>
+        <p className='text-gray-500'>
+          {t('report.preparedBy')}: {author}
+        </p>
       </div>
 
       <div className='my-4 p-4 border border-gray-200 rounded'>
-        <h2 className='text-xl font-semibold'>Executive Summary</h2>
+        <h2 className='text-xl font-semibold'>{t('report.executiveSummary')}</h2>
         <p className='my-2'>{summary}</p>
       </div>
 
       <div className='my-4'>
-        <h2 className='text-xl font-semibold'>Data Analysis</h2>
-
-        <table className='table my-4'>
-          <thead>
-            <tr className='bg-gray-100'>
-              <th>Metric</th>
-              <th className='text-right'>Value</th>
-            </tr>
-          </thead>
-          <tbody>
-            {data.map((item, index) => (
-              <tr key={index}>
-                <td>{item.label}</td>
-                <td className='text-right'>{item.value.toLocaleString()}</td>
-              </tr>
-            ))}
-          </tbody>
-        </table>
-
-        {/* Simple bar chart visualization */}
-        <div className='my-4 p-4 border border-gray-200 rounded'>
-          <h3 className='font-semibold mb-2'>Data Visualization</h3>
-          <div className='flex flex-col gap-2'>
-            {data.map((item, index) => (
-              <div key={index} className='flex items-center gap-2'>
-                <div className='w-full max-w-xs text-sm'>{item.label}:</div>
-                <div className='flex-1 h-6 bg-gray-100 rounded'>
-                  <div className='h-6 bg-blue-500 rounded' style={{ width: `${(item.value / maxValue) * 100}%` }}></div>
-                </div>
-                <div className='w-16 text-right text-sm'>{item.value}</div>
-              </div>
-            ))}
-          </div>
+        <h2 className='text-xl font-semibold'>{t('report.dataAnalysis')}</h2>
+
+        <div className='my-4'>
+          <Table
+            columns={[
+              { key: 'label', header: t('report.metric') },
+              { key: 'value', header: t('report.value'), align: 'right' },
+            ]}
+            rows={data}
+          />
         </div>
+
+        <KeepTogether>
+          <div className='my-4 p-4 border border-gray-200 rounded'>
+            <DataChart
+              title={t('report.dataVisualization')}
+              labels={chartData.map((item) => item.label)}
+              series={[{ name: t('report.value'), values: chartData.map((item) => item.value) }]}
+            />
+            {chartData.length < data.length && (
+              <p className='text-gray-500'>
+                {t('report.chartSample', { shown: formatNumber(chartData.length), total: formatNumber(data.length) })}
+              </p>
+            )}
+          </div>
+        </KeepTogether>
       </div>
 
+      {sections.map((section, index) => {
+        const SectionChart = CHARTS[section.chartType || 'bar'];
+
+        return (
+          <KeepTogether key={index}>
+            <div className='my-4'>
+              <h2 className='text-xl font-semibold'>{section.title}</h2>
+              {section.description && <p className='my-2'>{section.description}</p>}
+              <div className='my-4 p-4 border border-gray-200 rounded'>
+                <SectionChart labels={section.labels} series={section.series} />
+              </div>
+            </div>
+          </KeepTogether>
+        );
+      })}
+
       {conclusion && (
         <div className='my-4 p-4 border border-gray-200 rounded'>
-          <h2 className='text-xl font-semibold'>Conclusion</h2>
+          <h2 className='text-xl font-semibold'>{t('report.conclusion')}</h2>
           <p className='my-2'>{conclusion}</p>
         </div>
       )}
 
       <div className='page-footer text-center'>
         <p>
-          Confidential - {companyName} - {date}
+          {t('report.confidential')} - {companyName} - <DateText value={date} />
         </p>
       </div>
     </div>
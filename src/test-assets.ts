@@ -0,0 +1,63 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { ASSET_ORIGIN, buildFontFaceCss, registerAsset, resolveAssetReferences } from './utils/assets';
+import { shutdownBrowserPool } from './utils/browserPool';
+import { renderDocument } from './utils/pdfGenerator';
+import { extractPdfText } from './utils/pdfText';
+import { expect, finishTests } from './utils/testing';
+
+async function runAssetTests() {
+  console.log('Testing asset resolution...');
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'pdf-assets-'));
+  fs.writeFileSync(path.join(dir, 'stamp.png'), Buffer.from([0x89, 0x50, 0x4e, 0x47]));
+  fs.writeFileSync(path.join(dir, 'font.woff2'), 'font');
+  registerAsset('images/paid stamp.png', path.join(dir, 'stamp.png'));
+  registerAsset('fonts/Test Sans/BoldItalic.woff2', path.join(dir, 'font.woff2'));
+
+  // The render page fetches assets from the asset origin; missing assets become warnings
+  const warnings: string[] = [];
+  const served = resolveAssetReferences(
+    '<img src="asset:images/paid stamp.png"><img src="asset:images/missing.png">',
+    'serve',
+    warnings
+  );
+  expect(
+    'Served references',
+    served,
+    `<img src="${ASSET_ORIGIN}/images/paid%20stamp.png"><img src="asset:images/missing.png">`
+  );
+  expect('Missing asset warning', warnings, ['Missing asset "images/missing.png"']);
+
+  // Fonts are only declared for documents that use their family
+  expect('Unused font', buildFontFaceCss('font-family: serif'), '');
+  expect('Font weight and style', /font-weight: 700; font-style: italic/.test(buildFontFaceCss('Test Sans')), true);
+
+  // Standalone HTML documents carry their assets as data URIs
+  const html = await renderDocument('<p style="font-family: \'Test Sans\'"><img src="asset:images/paid stamp.png"></p>', {
+    outputFormat: 'html',
+  });
+  const markup = html.buffer.toString();
+  expect('Inlined image', markup.includes('src="data:image/png;base64,iVBORw=="'), true);
+  expect('Inlined font', markup.includes('url("data:font/woff2;base64,Zm9udA==")'), true);
+  expect('No warnings', html.warnings, []);
+
+  // Malformed asset URLs are answered instead of failing the render
+  const malformed = await renderDocument(`<img src="${ASSET_ORIGIN}/%E0">`);
+  expect('Malformed asset URL', [malformed.contentType, malformed.warnings], [
+    'application/pdf',
+    [`Malformed asset URL ${ASSET_ORIGIN}/%E0`],
+  ]);
+
+  // Scripts do not run on the render page, so they cannot reach the network around the request block
+  const scripted = await renderDocument(
+    '<p id="text">Printed as written</p><script>document.getElementById("text").textContent = "Changed";</script>'
+  );
+  expect('Scripts disabled', await extractPdfText(scripted.buffer), ['Printed as written']);
+
+  fs.rmSync(dir, { recursive: true, force: true });
+
+  finishTests('Asset tests completed!');
+}
+
+runAssetTests().finally(() => shutdownBrowserPool());
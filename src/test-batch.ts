@@ -0,0 +1,87 @@
+import fs from 'fs';
+import path from 'path';
+import JSZip from 'jszip';
+import { PDFDict, PDFDocument, PDFName } from 'pdf-lib';
+import { BatchEntry, renderBatch, safeFilename } from './utils/batchRenderer';
+import { shutdownBrowserPool } from './utils/browserPool';
+import { shutdownTemplateSandbox } from './utils/templateSandbox';
+
+async function testBatchRendering() {
+  console.log('Testing batch PDF generation...');
+  let failures = 0;
+
+  // Create output directory if it doesn't exist
+  const outputDir = path.join(__dirname, '..', 'output');
+  if (!fs.existsSync(outputDir)) {
+    fs.mkdirSync(outputDir);
+  }
+
+  const letterTemplate = `
+    function Template(props) {
+      return (
+        <div className="page">
+          <h1 className="text-2xl font-bold">Dear {props.name},</h1>
+          <p>Thank you for your order.</p>
+        </div>
+      );
+    }
+  `;
+
+  // The second entry is invalid and must be reported without failing the others
+  const entries: BatchEntry[] = [
+    { jsxTemplate: letterTemplate, data: { name: 'John Doe' }, title: 'Letter to John Doe' },
+    { templateType: 'invoice', data: { invoiceNumber: 'INV-001' } },
+    { jsxTemplate: letterTemplate, data: { name: 'Jane Smith' }, options: { filename: 'jane.pdf' } },
+  ];
+
+  try {
+    console.log('Generating merged batch PDF...');
+    const merged = await renderBatch({ entries, output: 'merged' });
+    const document = await PDFDocument.load(merged.buffer!);
+    const outline = document.catalog.lookup(PDFName.of('Outlines'), PDFDict);
+
+    fs.writeFileSync(path.join(outputDir, 'batch-test.pdf'), merged.buffer!);
+
+    if (
+      merged.manifest.succeeded === 2 &&
+      merged.manifest.entries[1].error === 'Invalid template data' &&
+      outline.get(PDFName.of('Count'))?.toString() === '2'
+    ) {
+      console.log('Merged batch PDF generated with a bookmark per document!');
+    } else {
+      console.error('Unexpected merged batch result:', JSON.stringify(merged.manifest, null, 2));
+      failures++;
+    }
+
+    console.log('Generating batch ZIP archive...');
+    const archive = await renderBatch({ entries, output: 'zip' });
+    const files = Object.keys((await JSZip.loadAsync(archive.buffer!)).files).sort();
+
+    if (files.join(',') === '1-document.pdf,3-jane.pdf,manifest.json') {
+      console.log('Batch ZIP archive generated successfully!');
+    } else {
+      console.error('Unexpected batch ZIP contents:', files);
+      failures++;
+    }
+
+    // Filenames from options or template data cannot leave the archive
+    const names = ['../../etc/evil.pdf', '..\\..\\evil.pdf', '..', 'Rechnung Nr. 1/ä.pdf'].map(safeFilename);
+    if (names.join(',') === 'evil.pdf,evil.pdf,document,ä.pdf') {
+      console.log('Unsafe filenames were cleaned!');
+    } else {
+      console.error('Unexpected cleaned filenames:', names);
+      failures++;
+    }
+  } catch (error) {
+    console.error('Error generating PDF batch:', error);
+    failures++;
+  }
+
+  if (failures > 0) {
+    process.exitCode = 1;
+  }
+
+  console.log('Batch tests completed!');
+}
+
+testBatchRendering().finally(() => Promise.all([shutdownBrowserPool(), shutdownTemplateSandbox()]));
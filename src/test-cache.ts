@@ -0,0 +1,111 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import React from 'react';
+import { isCacheable, PdfOptions, RenderedDocument } from './utils/pdfGenerator';
+import { preparePdfRequest } from './utils/pdfRequest';
+import { FileRenderCache, MemoryRenderCache, renderCacheKey, RenderCacheStore } from './utils/renderCache';
+import { loadTemplates } from './utils/templateRegistry';
+import { expect, finishTests } from './utils/testing';
+
+/**
+ * Builds a rendered document whose buffer has a given size
+ */
+function documentOf(filename: string, size: number): RenderedDocument {
+  return { buffer: Buffer.alloc(size, filename), filename, contentType: 'application/pdf', warnings: [] };
+}
+
+/**
+ * Lists which of the keys a cache holds
+ */
+async function cachedKeys(cache: RenderCacheStore, keys: string[]): Promise<string[]> {
+  const found = await Promise.all(keys.map(async (key) => ((await cache.get(key)) ? key : null)));
+  return found.filter((key): key is string => key !== null);
+}
+
+async function runCacheTests() {
+  console.log('Testing render cache...');
+  // Keys do not depend on the order of object keys, but on every value
+  const key = renderCacheKey({ template: 'invoice', data: { a: 1, b: [1, 2] } });
+  expect('Key order', renderCacheKey({ data: { b: [1, 2], a: 1 }, template: 'invoice' }), key);
+  expect('Key values', renderCacheKey({ template: 'invoice', data: { a: 1, b: [2, 1] } }) === key, false);
+
+  // The memory cache evicts the least recently used documents
+  const memory = new MemoryRenderCache(300);
+  await memory.set('a', 'invoice', documentOf('a.pdf', 100));
+  await memory.set('b', 'invoice', documentOf('b.pdf', 100));
+  await memory.set('c', 'report', documentOf('c.pdf', 100));
+  await memory.get('a');
+  await memory.set('d', 'report', documentOf('d.pdf', 100));
+  expect('Memory eviction', await cachedKeys(memory, ['a', 'b', 'c', 'd']), ['a', 'c', 'd']);
+  expect('Memory document', (await memory.get('a'))?.filename, 'a.pdf');
+  expect('Memory clear by tag', await memory.clear('report'), 2);
+  expect('Memory after clear', await cachedKeys(memory, ['a', 'c', 'd']), ['a']);
+
+  // The file cache keeps documents with their description, and evicts by last use
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'render-cache-test-'));
+  try {
+    const files = new FileRenderCache(dir, 300);
+    await files.set('a', 'invoice', { ...documentOf('a.pdf', 100), warnings: ['Image failed to load'] });
+    const stored = await files.get('a');
+    expect('File round trip', [stored?.filename, stored?.warnings, stored?.buffer.length], [
+      'a.pdf',
+      ['Image failed to load'],
+      100,
+    ]);
+
+    // Modification times are used as the last use, so they are set explicitly
+    await files.set('b', 'invoice', documentOf('b.pdf', 100));
+    await files.set('c', 'report', documentOf('c.pdf', 100));
+    ['a', 'b', 'c'].forEach((name, index) => {
+      const usedAt = new Date(Date.now() - (3 - index) * 60000);
+      fs.utimesSync(path.join(dir, `${name}.json`), usedAt, usedAt);
+    });
+    await files.get('a');
+    await files.set('d', 'report', documentOf('d.pdf', 100));
+    expect('File eviction', await cachedKeys(files, ['a', 'b', 'c', 'd']), ['a', 'c', 'd']);
+    expect('File clear by tag', await files.clear('report'), 2);
+    expect('File clear all', await files.clear(), 1);
+    expect('File directory empty', fs.readdirSync(dir), []);
+
+    // Identical requests that miss the cache together store the same entry at once
+    const entry = documentOf('e.pdf', 100);
+    await Promise.all([files.set('e', 'invoice', entry), files.set('e', 'invoice', entry)]);
+    expect('Concurrent writes', fs.readdirSync(dir).sort(), ['e.bin', 'e.json']);
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+
+  // Requests are keyed on their template, data and options
+  loadTemplates();
+  const invoice = {
+    invoiceNumber: 'INV-1',
+    date: '2024-01-01',
+    dueDate: '2024-01-31',
+    customerName: 'Customer',
+    customerAddress: 'Street 1',
+    items: [{ description: 'Item', quantity: 1, unitPrice: 10 }],
+  };
+  const request = preparePdfRequest({ templateType: 'invoice', data: invoice });
+  const same = preparePdfRequest({ templateType: 'invoice', data: { ...invoice } });
+  expect('Same request', same.cacheKey, request.cacheKey);
+  const other = preparePdfRequest({ templateType: 'invoice', data: { ...invoice, invoiceNumber: 'INV-2' } });
+  expect('Different data', other.cacheKey === request.cacheKey, false);
+  const landscape = preparePdfRequest({ templateType: 'invoice', data: invoice, options: { landscape: true } });
+  expect('Different options', landscape.cacheKey === request.cacheKey, false);
+  expect('Template tag', request.cacheTag, 'invoice');
+
+  const jsx = preparePdfRequest({ jsxTemplate: 'function Template() { return <h1>Hi</h1>; }' });
+  expect('JSX tag', [typeof jsx.cacheKey, jsx.cacheTag], ['string', 'jsx']);
+
+  // Signatures and React element headers and footers are rendered every time
+  expect('Cacheable options', [
+    isCacheable({ footer: '<span className="pageNumber"></span>' }),
+    isCacheable({ footer: React.createElement('span') }),
+    isCacheable({ signature: { certificate: '', password: '' } as PdfOptions['signature'] }),
+  ], [true, false, false]);
+
+  finishTests('Cache tests completed!');
+}
+
+runCacheTests();
@@ -0,0 +1,79 @@
+import React from 'react';
+import { renderToStaticMarkup } from 'react-dom/server';
+import { CHART_TYPES, CHARTS, niceTicks, StackedBarChart } from './components/charts';
+import ReportTemplate from './templates/ReportTemplate';
+import { expect, finishTests } from './utils/testing';
+
+function runChartTests() {
+  console.log('Testing chart components...');
+  // Axes always include zero and fall back to 0..1 when there is nothing to scale
+  expect('Empty range ticks', niceTicks(0, 0), [0, 0.2, 0.4, 0.6, 0.8, 1]);
+  expect('Negative range ticks', niceTicks(-3, 7), [-4, -2, 0, 2, 4, 6, 8]);
+
+  // Every chart type must draw all-zero, negative and empty data without NaN coordinates
+  const datasets = [
+    { labels: ['A', 'B'], series: [{ name: 'Zero', values: [0, 0] }] },
+    { labels: ['A', 'B', 'C'], series: [{ name: 'Loss', values: [-5, -2, 3] }, { name: 'Gain', values: [4, -1, 2] }] },
+    { labels: [], series: [] },
+  ];
+  for (const type of CHART_TYPES) {
+    const markup = datasets.map((props) => renderToStaticMarkup(React.createElement(CHARTS[type], props))).join('');
+    expect(`${type} chart coordinates`, /NaN|Infinity/.test(markup), false);
+  }
+
+  // Stacked negative values are drawn below the zero line, positive ones above it
+  const stacked = renderToStaticMarkup(
+    React.createElement(StackedBarChart, {
+      labels: ['A'],
+      series: [
+        { name: 'In', values: [10] },
+        { name: 'Out', values: [-10] },
+      ],
+    })
+  );
+  const bars = Array.from(stacked.matchAll(/<rect [^>]*y="([\d.]+)" [^>]*height="([\d.]+)"/g), (match) => [
+    Number(match[1]),
+    Number(match[2]),
+  ]);
+  expect('Stacked bars meet at zero', bars[0][0] + bars[0][1], bars[1][0]);
+
+  // Reports with only zero values used to divide by zero when scaling the chart
+  const report = renderToStaticMarkup(
+    React.createElement(ReportTemplate, {
+      title: 'Zero',
+      date: '2024-01-01',
+      author: 'Tester',
+      summary: 'Nothing happened',
+      data: [{ label: 'Sales', value: 0 }],
+      sections: [{ title: 'Split', chartType: 'pie', labels: ['A'], series: [{ name: 'Share', values: [0] }] }],
+    })
+  );
+  expect('Zero-value report', /NaN|Infinity/.test(report), false);
+
+  // Large reports list every point in the table but chart only the first ones
+  const data = Array.from({ length: 200000 }, (_, index) => ({ label: `Item ${index + 1}`, value: index % 97 }));
+  const largeReport = renderToStaticMarkup(
+    React.createElement(ReportTemplate, {
+      title: 'Large',
+      date: '2024-01-01',
+      author: 'Tester',
+      summary: 'Many rows',
+      data,
+    })
+  );
+  expect('Large report rows', largeReport.includes('<td>Item 200000</td>'), true);
+  expect('Large report chart', largeReport.includes('The chart shows the first 50 of 200,000 data points.'), true);
+
+  // Spreading this many values into Math.min used to overflow the stack
+  const longLine = renderToStaticMarkup(
+    React.createElement(CHARTS.line, {
+      labels: data.map((item) => item.label),
+      series: [{ name: 'Value', values: data.map((item) => item.value) }],
+    })
+  );
+  expect('Long line chart', longLine.includes('<polyline'), true);
+
+  finishTests('Chart tests completed!');
+}
+
+runChartTests();
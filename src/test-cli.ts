@@ -0,0 +1,92 @@
+import { CliUsageError, parseCliArgs } from './utils/cliArgs';
+import { expect, finishTests } from './utils/testing';
+
+/**
+ * Returns the message of the usage error a command line fails with
+ */
+function usageError(argv: string[]): string {
+  try {
+    parseCliArgs(argv);
+    return 'accepted';
+  } catch (error) {
+    return error instanceof CliUsageError ? error.message : String(error);
+  }
+}
+
+function testCli() {
+  console.log('Testing command-line arguments...');
+  // Without flags nothing is overridden
+  const plain = parseCliArgs(['invoice', '-d', 'invoice.json', '-o', 'out.pdf']);
+  expect('Input and output', [plain.template, plain.dataPath, plain.output, plain.options], [
+    'invoice',
+    'invoice.json',
+    'out.pdf',
+    {},
+  ]);
+
+  // Flags map onto PdfOptions
+  const options = parseCliArgs([
+    'report',
+    '--format',
+    'A4',
+    '--landscape',
+    '--margin',
+    '1cm',
+    '--margin-top',
+    '2cm',
+    '--locale',
+    'de-DE',
+    '--var',
+    'brandColor=#0a7',
+    '--var=--accent=red',
+    '--title',
+    'Q3',
+    '--keywords',
+    'sales, q3',
+    '--no-outline',
+    '--pdfa',
+    'PDF/A-2b',
+    '--user-password',
+    'secret',
+    '--sign-reason',
+    'Approved',
+  ]).options;
+  expect('Document options', options, {
+    format: 'A4',
+    landscape: true,
+    margin: { top: '2cm', right: '1cm', bottom: '1cm', left: '1cm' },
+    locale: 'de-DE',
+    variables: { brandColor: '#0a7', '--accent': 'red' },
+    metadata: { title: 'Q3', keywords: ['sales', 'q3'] },
+    outline: false,
+    pdfa: 'PDF/A-2b',
+    encryption: { userPassword: 'secret' },
+    signature: { reason: 'Approved' },
+  });
+
+  const image = parseCliArgs(['invoice', '--output-format', 'png', '--pages', '1,3', '--thumbnail', 'small']);
+  expect('Image options', image.options, { outputFormat: 'png', image: { pages: [1, 3], thumbnail: 'small' } });
+  expect('Thumbnail width', parseCliArgs(['invoice', '--thumbnail', '300']).options.image, { thumbnail: 300 });
+  expect('Sign', parseCliArgs(['invoice', '--sign']).options.signature, {});
+
+  // Batch mode does not need a template
+  const batch = parseCliArgs(['--batch', '-', '--output-dir', 'out', '--coerce']);
+  expect('Batch', [batch.template, batch.batchPath, batch.outputDir, batch.coerce], [undefined, '-', 'out', true]);
+
+  // Command lines that cannot be understood are usage errors
+  expect('Usage errors', [
+    usageError(['invoice', 'report']),
+    usageError(['invoice', '--scale', 'big']),
+    usageError(['invoice', '--var', 'brandColor']),
+    usageError(['invoice', '--format']),
+  ], [
+    'Expected one template, got invoice, report',
+    '--scale expects a number, got "big"',
+    '--var expects name=value, got "brandColor"',
+    "Option '--format <value>' argument missing",
+  ]);
+
+  finishTests('CLI tests completed!');
+}
+
+testCli();
@@ -1,6 +1,8 @@
 import fs from 'fs';
 import path from 'path';
+import { shutdownBrowserPool } from './utils/browserPool';
 import { generatePdfFromJsxString } from './utils/pdfGenerator';
+import { shutdownTemplateSandbox } from './utils/templateSandbox';
 
 async function testDynamicJsxRendering() {
   console.log('Testing dynamic JSX template rendering...');
@@ -175,4 +177,6 @@ async function testDynamicJsxRendering() {
   console.log('Dynamic JSX template tests completed!');
 }
 
-testDynamicJsxRendering().catch(console.error);
+testDynamicJsxRendering()
+  .catch(console.error)
+  .finally(() => Promise.all([shutdownBrowserPool(), shutdownTemplateSandbox()]));
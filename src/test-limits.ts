@@ -0,0 +1,118 @@
+import { Readable, Writable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { JobQueue, JobQueueFullError, MemoryResultStore } from './utils/jobQueue';
+import {
+  checkOutputSize,
+  PdfLimitStream,
+  RenderLimitError,
+  renderLimits,
+  withRenderTimeout,
+} from './utils/renderLimits';
+import { expect, finishTests } from './utils/testing';
+
+/**
+ * Streams chunks through a limit stream and returns the error it failed with, if any
+ */
+async function streamThroughLimits(chunks: string[]): Promise<{ limiter: PdfLimitStream; error?: unknown }> {
+  const limiter = new PdfLimitStream();
+  const discard = new Writable({ write: (chunk, encoding, callback) => callback() });
+
+  try {
+    await pipeline(Readable.from(chunks.map((chunk) => Buffer.from(chunk, 'latin1'))), limiter, discard);
+    return { limiter };
+  } catch (error) {
+    return { limiter, error };
+  }
+}
+
+async function runLimitTests() {
+  console.log('Testing render limits...');
+  // Page objects are counted once, also when split across chunks, and the page tree is not counted
+  const page = '3 0 obj\n<</Type /Page /Parent 2 0 R>>\nendobj\n';
+  const { limiter } = await streamThroughLimits([
+    `%PDF-1.4\n${page}4 0 obj\n<</Type /Pa`,
+    'ge /Parent 2 0 R>>\nendobj\n2 0 obj\n<</Type /Page',
+    's /Kids [3 0 R 4 0 R] /Count 2>>\nendobj\n%%EOF',
+  ]);
+  expect('Pages across chunks', limiter.pages, 2);
+
+  // Documents over the page limit fail while streaming
+  renderLimits.maxPages = 3;
+  const tooLong = await streamThroughLimits(Array.from({ length: 5 }, () => page));
+  const status = tooLong.error instanceof RenderLimitError ? tooLong.error.status : undefined;
+  expect('Page limit', status, 413);
+  expect('Stopped early', tooLong.limiter.pages, 4);
+
+  // Output size is limited for every format
+  renderLimits.maxOutputBytes = 1024 * 1024;
+  const tooLarge = await streamThroughLimits(['%PDF-1.4\n', 'x'.repeat(1024 * 1024)]);
+  expect('Size limit', (tooLarge.error as Error)?.message, 'The document is larger than the limit of 1 MB');
+  try {
+    checkOutputSize(1024 * 1024);
+    expect('Size at limit', 'accepted', 'accepted');
+  } catch (error) {
+    expect('Size at limit', (error as Error).message, 'accepted');
+  }
+
+  // Slow renders are abandoned with a 504
+  renderLimits.renderTimeoutMs = 20;
+  try {
+    await withRenderTimeout(new Promise((resolve) => setTimeout(resolve, 1000)));
+    expect('Render timeout', 'finished', 'timed out');
+  } catch (error) {
+    expect('Render timeout', [(error as RenderLimitError).status, (error as Error).message], [
+      504,
+      'Rendering took longer than the limit of 20 ms',
+    ]);
+  }
+  expect('Fast render', await withRenderTimeout(Promise.resolve('done')), 'done');
+
+  // Jobs beyond the queue limit are rejected, and cancelled running jobs keep their slot until they stop
+  const queue = new JobQueue({ concurrency: 1, maxQueued: 1 });
+  const started: string[] = [];
+  const hang = (name: string) => () => {
+    started.push(name);
+    return new Promise<never>(() => undefined);
+  };
+  let stopFirst = () => {};
+  const running = queue.enqueue(() => {
+    started.push('first');
+    return new Promise<never>((_, reject) => (stopFirst = () => reject(new Error('Cancelled'))));
+  });
+  const waiting = queue.enqueue(hang('second'));
+  try {
+    queue.enqueue(hang('third'));
+    expect('Queue limit', 'queued', 'rejected');
+  } catch (error) {
+    expect('Queue limit', error instanceof JobQueueFullError, true);
+  }
+  expect('Cancelled job', queue.cancel(running.id)?.status, 'cancelled');
+  expect('Cancelled job keeps its slot', [started, queue.get(waiting.id)?.status], [['first'], 'queued']);
+  stopFirst();
+  await new Promise((resolve) => setImmediate(resolve));
+  expect('Stopped job frees its slot', [started, queue.get(waiting.id)?.status], [['first', 'second'], 'running']);
+  queue.close();
+
+  // Stored results are bounded in size, dropping the oldest first
+  const store = new MemoryResultStore(1024 * 1024);
+  const result = (kb: number) => ({
+    buffer: Buffer.alloc(kb * 1024),
+    contentType: 'application/pdf',
+    filename: 'job.pdf',
+  });
+  await store.save('a', result(400));
+  await store.save('b', result(400));
+  await store.save('c', result(400));
+  const kept = await Promise.all(['a', 'b', 'c'].map(async (id) => (await store.load(id)) !== null));
+  expect('Result store size', kept, [false, true, true]);
+  try {
+    await store.save('d', result(1025));
+    expect('Oversized result', 'stored', 'rejected');
+  } catch (error) {
+    expect('Oversized result', (error as Error).message, 'The result is larger than the 1 MB kept for job results');
+  }
+
+  finishTests('Limit tests completed!');
+}
+
+runLimitTests();
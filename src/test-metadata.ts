@@ -0,0 +1,141 @@
+import fs from 'fs';
+import { PDFArray, PDFDict, PDFDocument, PDFHexString, PDFName, PDFRawStream, PDFRef, PDFString } from 'pdf-lib';
+import { shutdownBrowserPool } from './utils/browserPool';
+import { renderDocument, streamDocument } from './utils/pdfGenerator';
+import { setOutline } from './utils/pdfMerge';
+import { setDocumentMetadata, setHeadingOutline } from './utils/pdfMetadata';
+import { PdfRequestError, preparePdfRequest } from './utils/pdfRequest';
+import { expect, finishTests } from './utils/testing';
+
+/**
+ * Reads the titles of an outline as "title@page" strings, with nested items in brackets
+ */
+function describeOutline(doc: PDFDocument, parent: PDFDict): string[] {
+  const pageRefs = doc.getPages().map((page) => page.ref.toString());
+  const titles: string[] = [];
+  let current = parent.get(PDFName.of('First'));
+
+  while (current instanceof PDFRef) {
+    const item = doc.context.lookup(current, PDFDict);
+    const title = item.lookup(PDFName.of('Title'), PDFString, PDFHexString).decodeText();
+    const destination = item.lookup(PDFName.of('Dest'), PDFArray);
+    const children = describeOutline(doc, item);
+
+    titles.push(`${title}@${pageRefs.indexOf(String(destination.get(0)))}`);
+    if (children.length > 0) {
+      titles.push(`[${children.join(', ')}]`);
+    }
+    current = item.get(PDFName.of('Next'));
+  }
+
+  return titles;
+}
+
+async function runMetadataTests() {
+  console.log('Testing PDF metadata and outlines...');
+  // Metadata goes into the information dictionary and an uncompressed XMP stream
+  const doc = await PDFDocument.create();
+  doc.addPage();
+  doc.addPage();
+  setDocumentMetadata(doc, {
+    title: 'Quarterly Report',
+    author: 'Jane Smith',
+    keywords: ['finance', 'Q1'],
+    language: 'de-DE',
+    custom: { Department: 'Finance & Ops' },
+  });
+
+  const saved = await PDFDocument.load(await doc.save(), { updateMetadata: false });
+  const info = saved.context.lookup(saved.context.trailerInfo.Info, PDFDict);
+  const xmp = saved.catalog.lookup(PDFName.of('Metadata')) as PDFRawStream;
+  const xml = Buffer.from(xmp.getContents()).toString('utf8');
+
+  expect('Title', saved.getTitle(), 'Quarterly Report');
+  expect('Keywords', saved.getKeywords(), 'finance, Q1');
+  expect('Language', saved.catalog.lookup(PDFName.of('Lang'), PDFString).decodeText(), 'de-DE');
+  expect('Custom property', info.lookup(PDFName.of('Department'), PDFHexString).decodeText(), 'Finance & Ops');
+  expect('XMP custom property', xml.includes('<pdfx:Department>Finance &#38; Ops</pdfx:Department>'), true);
+  expect('XMP author', xml.includes('<dc:creator><rdf:Seq><rdf:li>Jane Smith</rdf:li></rdf:Seq></dc:creator>'), true);
+
+  // Chromium's outline lists every heading; only the requested ones are kept, nested by level
+  setOutline(doc, [
+    { title: 'Report', pageIndex: 0 },
+    { title: 'Revenue', pageIndex: 0 },
+    { title: 'By region', pageIndex: 1 },
+    { title: 'Footnote', pageIndex: 1 },
+    { title: 'Costs', pageIndex: 1 },
+  ]);
+  setHeadingOutline(doc, [
+    { title: 'Report', level: 1 },
+    { title: 'Revenue', level: 2 },
+    { title: ' By   region ', level: 3 },
+    { title: 'Costs', level: 2 },
+    { title: 'Not printed', level: 2 },
+  ]);
+  const outline = doc.catalog.lookup(PDFName.of('Outlines'), PDFDict);
+  expect('Nested outline', describeOutline(doc, outline), ['Report@0', '[Revenue@0, [By region@1], Costs@1]']);
+  expect('Outline count', outline.get(PDFName.of('Count'))?.toString(), '4');
+
+  // PDFs keep Chromium's outline of every heading, streamed without being reloaded; `true` rewrites it
+  const headingsHtml = '<h1>Report</h1><h2>Revenue</h2><h4>Footnote</h4><h2>Costs</h2>';
+  const readOutline = (pdf: PDFDocument) => describeOutline(pdf, pdf.catalog.lookup(PDFName.of('Outlines'), PDFDict));
+  const readStreamed = async (options: { outline?: boolean }) => {
+    const streamed = await streamDocument(headingsHtml, options);
+    const chunks: Buffer[] = [];
+    for await (const chunk of streamed.stream) {
+      chunks.push(chunk);
+    }
+    return [streamed.stream instanceof fs.ReadStream, readOutline(await PDFDocument.load(Buffer.concat(chunks)))];
+  };
+  const readBuffered = async (options: { outline?: boolean }) =>
+    readOutline(await PDFDocument.load((await renderDocument(headingsHtml, options)).buffer));
+  const everyHeading = ['Report@0', '[Revenue@0, [Footnote@0], Costs@0]'];
+  const requestedHeadings = ['Report@0', '[Revenue@0, Costs@0]'];
+  expect('Streamed outline', await readStreamed({}), [true, everyHeading]);
+  expect('Requested outline', await readStreamed({ outline: true }), [false, requestedHeadings]);
+  expect('Buffered outlines', [await readBuffered({}), await readBuffered({ outline: true })], [
+    everyHeading,
+    requestedHeadings,
+  ]);
+
+  // Custom property names become XML elements and information dictionary keys
+  const invalidRequests: Array<[string, object, string]> = [
+    [
+      'Reserved property',
+      { metadata: { custom: { Producer: 'x' } } },
+      'Invalid metadata.custom property name "Producer"',
+    ],
+    [
+      'Invalid name',
+      { metadata: { custom: { 'Cost Center': 'x' } } },
+      'Invalid metadata.custom property name "Cost Center"',
+    ],
+    [
+      'Keyword string',
+      { metadata: { keywords: 'finance' } },
+      'Invalid metadata.keywords, expected an array of strings',
+    ],
+    ['Outline option', { outline: 'yes' }, 'Invalid outline option, expected a boolean'],
+  ];
+  invalidRequests.forEach(([name, options, message]) => {
+    try {
+      preparePdfRequest({ jsxTemplate: 'function Template() { return <h1>Hi</h1>; }', options });
+      expect(name, 'accepted', message);
+    } catch (error) {
+      expect(name, error instanceof PdfRequestError ? error.message : String(error), message);
+    }
+  });
+
+  // HTML output is named by the metadata title
+  const html = await renderDocument('<h1>Report</h1>', {
+    outputFormat: 'html',
+    metadata: { title: 'Q1 <Report>', subject: 'Revenue & costs' },
+  });
+  const markup = html.buffer.toString();
+  expect('HTML title', markup.includes('<title>Q1 &#60;Report&#62;</title>'), true);
+  expect('HTML description', markup.includes('<meta name="description" content="Revenue &#38; costs">'), true);
+
+  finishTests('Metadata tests completed!');
+}
+
+runMetadataTests().finally(() => shutdownBrowserPool());
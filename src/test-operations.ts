@@ -0,0 +1,149 @@
+import JSZip from 'jszip';
+import { PDFContentStream, PDFDocument, PDFName } from 'pdf-lib';
+import { PdfRequestError } from './utils/pdfRequest';
+import {
+  drawOverlay,
+  readMergeRequest,
+  readPageNumberRequest,
+  readSplitRequest,
+  readStampRequest,
+  resolvePageRanges,
+} from './utils/pdfOperations';
+import { expect, finishTests } from './utils/testing';
+
+/**
+ * Builds a base64 PDF whose pages have the given widths, so pages can be told apart after copying
+ */
+async function buildPdf(widths: number[]): Promise<string> {
+  const doc = await PDFDocument.create();
+  widths.forEach((width) => doc.addPage([width, 400]));
+  return Buffer.from(await doc.save()).toString('base64');
+}
+
+/**
+ * Reads the page widths of a PDF
+ */
+async function pageWidths(buffer: Buffer | Uint8Array): Promise<number[]> {
+  return (await PDFDocument.load(buffer)).getPages().map((page) => page.getWidth());
+}
+
+async function runOperationTests() {
+  console.log('Testing PDF operations...');
+  // Ranges are 1-based and inclusive; open ranges run to the last page
+  expect('Page ranges', resolvePageRanges('1-2, 4, 3-', 5), [0, 1, 3, 2, 3, 4]);
+  try {
+    resolvePageRanges('2-7', 5);
+    expect('Range outside', 'accepted', 'rejected');
+  } catch (error) {
+    expect('Range outside', (error as Error).message, 'Page range "2-7" is outside the 5 pages of source');
+  }
+
+  // Merged parts keep the selected pages in order and get a bookmark each
+  const first = await buildPdf([100, 200, 300]);
+  const second = await buildPdf([400, 500]);
+  const merged = await readMergeRequest({
+    sources: [
+      { pdf: first, pages: '3,1', title: 'Cover letter' },
+      { pdf: second, title: 'Contract' },
+    ],
+    options: { filename: 'bundle' },
+  })();
+  const mergedDoc = await PDFDocument.load(merged.buffer);
+
+  expect('Merged pages', await pageWidths(merged.buffer), [300, 100, 400, 500]);
+  expect('Merged filename', merged.filename, 'bundle.pdf');
+  expect('Merged bookmarks', mergedDoc.catalog.get(PDFName.of('Outlines')) !== undefined, true);
+
+  // One range returns a PDF, several return a ZIP archive with a PDF per range
+  const single = await readSplitRequest({ source: { pdf: first }, ranges: ['2-'] })();
+  expect('Single range', [single.contentType, await pageWidths(single.buffer)], ['application/pdf', [200, 300]]);
+
+  const split = await readSplitRequest({
+    source: { pdf: first },
+    ranges: ['1', '2-3'],
+    options: { filename: 'a.pdf' },
+  })();
+  const archive = await JSZip.loadAsync(split.buffer);
+  const part = await archive.file('a-2-3.pdf')?.async('uint8array');
+  expect('Split archive', [split.filename, Object.keys(archive.files).sort()], ['a.zip', ['a-1.pdf', 'a-2-3.pdf']]);
+  expect('Split part', part && (await pageWidths(part)), [200, 300]);
+
+  // Overlays are scaled to fit the page, centered, and drawn over or behind its content
+  const target = await PDFDocument.create();
+  const page = target.addPage([600, 400]);
+  page.drawText('Contract');
+  const stamp = await PDFDocument.create();
+  stamp.addPage([300, 100]);
+  const [embedded] = await target.embedPdf(stamp, [0]);
+  drawOverlay(page, embedded, 'background', 0.5);
+  drawOverlay(page, embedded, 'foreground', 1);
+
+  const contents = page.node.normalizedEntries().Contents!;
+  const streamText = (index: number) =>
+    Buffer.from((target.context.lookup(contents.get(index)) as PDFContentStream).getUnencodedContents()).toString();
+  expect('Overlay streams', contents.size(), 5);
+  expect('Content wrapped', [streamText(0).trim(), streamText(3).trim()], ['q', 'Q']);
+  expect('Background before content', /2 0 0 2 0 100 cm/.test(streamText(1)), true);
+  expect('Foreground last', /Do/.test(streamText(4)), true);
+
+  // Requests are checked before anything is rendered
+  const invalidRequests: Array<[string, () => unknown, string]> = [
+    ['No sources', () => readMergeRequest({ sources: [] }), 'Missing sources'],
+    [
+      'Not a PDF',
+      () => readMergeRequest({ sources: [{ pdf: 'aGVsbG8=' }] }),
+      'Invalid sources[0].pdf, expected a base64-encoded PDF',
+    ],
+    [
+      'Bad pages',
+      () => readMergeRequest({ sources: [{ pdf: first, pages: 'last' }] }),
+      'Invalid sources[0].pages, expected page ranges such as "1-3,5"',
+    ],
+    [
+      'Encrypted source',
+      () => readMergeRequest({ sources: [{ jsxTemplate: '<p />', options: { encryption: { userPassword: 'x' } } }] }),
+      'sources[0] cannot be PDF/A, encrypted or signed; set these options on the result',
+    ],
+    [
+      'Image result',
+      () => readMergeRequest({ sources: [{ pdf: first }], options: { outputFormat: 'png' } }),
+      'PDF operations only produce the pdf output format',
+    ],
+    [
+      'No ranges',
+      () => readSplitRequest({ source: { pdf: first }, ranges: [] }),
+      'Invalid ranges, expected page ranges such as ["1-3", "4-"]',
+    ],
+    ['Missing stamp', () => readStampRequest({ source: { pdf: first } }), 'Missing stamp'],
+    [
+      'Opacity',
+      () => readStampRequest({ source: { pdf: first }, stamp: { jsxTemplate: '<p />' }, opacity: 2 }),
+      'Invalid opacity, expected a number from 0 to 1',
+    ],
+    [
+      'No footer',
+      () => readPageNumberRequest({ source: { pdf: first } }),
+      'Page numbers need options.header or options.footer',
+    ],
+  ];
+  invalidRequests.forEach(([name, read, message]) => {
+    try {
+      read();
+      expect(name, 'accepted', message);
+    } catch (error) {
+      expect(name, error instanceof PdfRequestError ? error.message : String(error), message);
+    }
+  });
+
+  // Range errors are found once the source is loaded
+  try {
+    await readMergeRequest({ sources: [{ pdf: second, pages: '3' }] })();
+    expect('Range past the end', 'accepted', 'rejected');
+  } catch (error) {
+    expect('Range past the end', (error as Error).message, 'Page range "3" is outside the 2 pages of sources[0]');
+  }
+
+  finishTests('Operation tests completed!');
+}
+
+runOperationTests();
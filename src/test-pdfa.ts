@@ -0,0 +1,124 @@
+import { PDFArray, PDFDict, PDFDocument, PDFHexString, PDFName, PDFRawStream, PDFString, StandardFonts } from 'pdf-lib';
+import { buildFacturXAttachment, buildFacturXml, FacturXInvoice } from './utils/facturX';
+import { buildSrgbIccProfile } from './utils/iccProfile';
+import { calculateInvoiceTotals } from './utils/invoiceTotals';
+import { convertToPdfa } from './utils/pdfa';
+import { PdfRequestError, preparePdfRequest } from './utils/pdfRequest';
+import { loadTemplates } from './utils/templateRegistry';
+import { expect, finishTests } from './utils/testing';
+
+/**
+ * Reads the text of the first element with a tag name in an XML string
+ */
+function xmlValue(xml: string, tag: string): string | undefined {
+  return new RegExp(`<${tag}[^>]*>([^<]*)</${tag}>`).exec(xml)?.[1];
+}
+
+async function runPdfaTests() {
+  console.log('Testing PDF/A conversion...');
+  // The ICC profile is a valid sRGB display profile
+  const profile = buildSrgbIccProfile();
+  expect('ICC profile size', profile.readUInt32BE(0), profile.length);
+  expect('ICC profile signature', profile.toString('ascii', 36, 40), 'acsp');
+  expect('ICC colour space', profile.toString('ascii', 16, 20), 'RGB ');
+
+  // Factur-X totals match the printed invoice, also when prices include tax
+  const invoice: FacturXInvoice = {
+    invoiceNumber: 'INV-001',
+    date: '2024-03-01',
+    dueDate: '2024-03-31',
+    customerName: 'Acme & Co',
+    customerAddress: 'Hauptstr. 1, 10115 Berlin',
+    customerCountry: 'DE',
+    companyName: 'Example GmbH',
+    companyVatId: 'DE123456789',
+    currency: 'EUR',
+    taxRate: 19,
+    items: [
+      { description: 'Consulting', quantity: 3, unitPrice: 33.33 },
+      { description: 'Books', quantity: 2, unitPrice: 9.99, taxRate: 7 },
+      { description: 'Training', quantity: 1, unitPrice: 100, discountPercent: 10 },
+      { description: 'Donation', quantity: 1, unitPrice: 20, taxExempt: true },
+    ],
+    shipping: 4.95,
+    shippingTaxRate: 19,
+  };
+
+  [false, true].forEach((pricesIncludeTax) => {
+    const label = pricesIncludeTax ? 'Inclusive' : 'Net';
+    const xml = buildFacturXml({ ...invoice, pricesIncludeTax });
+    const totals = calculateInvoiceTotals({ ...invoice, pricesIncludeTax });
+    const lineTotals = xml.matchAll(/LineMonetarySummation>\s*<ram:LineTotalAmount>([^<]*)/g);
+    const lineSum = Array.from(lineTotals).reduce((sum, match) => sum + Math.round(Number(match[1]) * 100), 0);
+    const header = xml.slice(xml.indexOf('<ram:SpecifiedTradeSettlementHeaderMonetarySummation>'));
+
+    expect(`${label} grand total`, Number(xmlValue(header, 'ram:GrandTotalAmount')), totals.total);
+    expect(`${label} tax total`, Number(xmlValue(header, 'ram:TaxTotalAmount')), totals.taxTotal);
+    expect(`${label} line total`, Math.round(Number(xmlValue(header, 'ram:LineTotalAmount')) * 100), lineSum);
+  });
+
+  const xml = buildFacturXml(invoice);
+  expect('Issue date', xml.includes('<udt:DateTimeString format="102">20240301</udt:DateTimeString>'), true);
+  expect('Escaped buyer', xml.includes('<ram:Name>Acme &#38; Co</ram:Name>'), true);
+  expect('Exempt category', xml.includes('<ram:CategoryCode>E</ram:CategoryCode>'), true);
+
+  // Chromium-like output with a script, a hidden link and a font that is not embedded
+  const doc = await PDFDocument.create();
+  const page = doc.addPage();
+  page.drawText('Invoice', { font: await doc.embedFont(StandardFonts.Helvetica) });
+  page.node.set(
+    PDFName.of('Annots'),
+    doc.context.obj([doc.context.obj({ Type: 'Annot', Subtype: 'Link', Rect: [0, 0, 10, 10], F: 2 })])
+  );
+  doc.catalog.set(PDFName.of('OpenAction'), doc.context.obj({ S: 'JavaScript', JS: 'app.alert(1)' }));
+  await doc.flush();
+
+  const report = convertToPdfa(doc, 'PDF/A-3b', { title: 'Invoice INV-001' }, [buildFacturXAttachment(invoice)]);
+  expect('Fixed features', report.fixed, ['Removed JavaScript open action', 'Set the print flag of annotations']);
+  expect('Remaining problems', report.problems, ['Font "Helvetica" is not embedded']);
+  expect('Conformant', report.conformant, false);
+
+  const saved = await PDFDocument.load(await doc.save(), { updateMetadata: false });
+  const xmp = Buffer.from((saved.catalog.lookup(PDFName.of('Metadata')) as PDFRawStream).getContents()).toString();
+  const intents = saved.catalog.lookup(PDFName.of('OutputIntents'), PDFArray);
+  const embeddedFiles = saved.catalog
+    .lookup(PDFName.of('Names'), PDFDict)
+    .lookup(PDFName.of('EmbeddedFiles'), PDFDict)
+    .lookup(PDFName.of('Names'), PDFArray);
+
+  expect('PDF/A part', xmlValue(xmp, 'pdfaid:part'), '3');
+  expect('Factur-X properties', xmlValue(xmp, 'fx:DocumentFileName'), 'factur-x.xml');
+  expect('Extension schema', xmp.includes('<pdfaSchema:prefix>fx</pdfaSchema:prefix>'), true);
+  expect('Output intent', intents.lookup(0, PDFDict).get(PDFName.of('S'))?.toString(), '/GTS_PDFA1');
+  const link = page.node.lookup(PDFName.of('Annots'), PDFArray).lookup(0, PDFDict);
+
+  expect('Embedded invoice', embeddedFiles.lookup(0, PDFString, PDFHexString).decodeText(), 'factur-x.xml');
+  expect('Link annotation flags', link.get(PDFName.of('F'))?.toString(), '4');
+  expect('File identifier', saved.context.trailerInfo.ID !== undefined, true);
+
+  // Requests choose the level; attachments come from the template
+  loadTemplates();
+  const invalidOptions: Array<[string, object, string]> = [
+    ['Unknown level', { pdfa: 'PDF/A-1b' }, 'Invalid PDF/A level, expected one of: PDF/A-2b, PDF/A-3b'],
+    ['Image output', { pdfa: 'PDF/A-2b', outputFormat: 'png' }, 'PDF/A requires the pdf output format'],
+    ['Request attachments', { attachments: [] }, 'Attachments cannot be set in requests'],
+  ];
+  invalidOptions.forEach(([name, options, message]) => {
+    try {
+      preparePdfRequest({ templateType: 'invoice', data: invoice, options });
+      expect(name, 'accepted', message);
+    } catch (error) {
+      expect(name, error instanceof PdfRequestError ? error.message : String(error), message);
+    }
+  });
+
+  const archived = preparePdfRequest({ templateType: 'invoice', data: invoice, options: { pdfa: 'PDF/A-3b' } });
+  const plain = preparePdfRequest({ templateType: 'invoice', data: invoice, options: { pdfa: 'PDF/A-2b' } });
+  const filenames = archived.options.attachments?.map((attachment) => attachment.filename);
+  expect('Template attachments', filenames, ['factur-x.xml']);
+  expect('No attachments for PDF/A-2', plain.options.attachments, undefined);
+
+  finishTests('PDF/A tests completed!');
+}
+
+runPdfaTests();
@@ -0,0 +1,133 @@
+import express from 'express';
+import fs from 'fs';
+import { AddressInfo } from 'net';
+import os from 'os';
+import path from 'path';
+import previewRoutes from './routes/previewRoutes';
+import { getTemplate, loadTemplates, reloadTemplates } from './utils/templateRegistry';
+import { shutdownTemplateSandbox } from './utils/templateSandbox';
+import { expect, finishTests } from './utils/testing';
+
+/**
+ * Writes a template module that renders a greeting without importing React
+ */
+function writeGreetingModule(file: string, greeting: string): void {
+  fs.writeFileSync(
+    file,
+    `exports.default = ({ name }) => '${greeting} ' + name;
+exports.metadata = { type: 'greeting', name: 'Greeting', description: 'Greets someone' };
+exports.propsSchema = { type: 'object', properties: { name: { type: 'string' } } };
+exports.sampleData = { name: 'Ada' };
+`
+  );
+}
+
+async function testPreview() {
+  console.log('Testing live preview...');
+  // Edited template modules are picked up when the templates are reloaded
+  const greet = () => {
+    const component = getTemplate('greeting')?.component as ((props: object) => string) | undefined;
+    return component?.({ name: 'Ada' });
+  };
+  loadTemplates();
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'preview-test-'));
+  try {
+    const file = path.join(dir, 'Greeting.js');
+    writeGreetingModule(file, 'Hello');
+    loadTemplates(dir);
+    expect('Loaded', greet(), 'Hello Ada');
+
+    writeGreetingModule(file, 'Welcome');
+    reloadTemplates(dir);
+    expect('Reloaded', greet(), 'Welcome Ada');
+    expect('Sample data', getTemplate('greeting')?.sampleData, { name: 'Ada' });
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+
+  const app = express();
+  app.use(express.json());
+  app.use(express.urlencoded({ extended: true }));
+  app.use('/preview', previewRoutes);
+  const server = app.listen(0);
+  const base = `http://localhost:${(server.address() as AddressInfo).port}/preview`;
+
+  try {
+    const index = await (await fetch(base)).text();
+    expect('Index lists templates', ['/templates/invoice', '/templates/greeting'].map((url) => index.includes(url)), [
+      true,
+      true,
+    ]);
+
+    // The HTML pane is as wide as the paper, and the panes load the document with the toolbar options
+    const page = await (await fetch(`${base}/templates/greeting?format=A4&landscape=true`)).text();
+    const paneUrl = 'document.pdf?format=A4&amp;landscape=true';
+    expect('Preview page', [page.includes('width:1123px'), page.includes(paneUrl)], [true, true]);
+
+    // The HTML pane cannot run scripts or load anything on this origin
+    const sample = await fetch(`${base}/templates/greeting/document.html`);
+    expect('Sample document', [sample.status, (await sample.text()).includes('Welcome Ada')], [200, true]);
+    const panePolicy = sample.headers.get('Content-Security-Policy');
+    expect('Pane policy', panePolicy?.startsWith('sandbox allow-same-origin;'), true);
+    expect('Unknown template', (await fetch(`${base}/templates/missing`)).status, 404);
+
+    // Posted drafts are previewed at a stable URL
+    const post = (body: object) =>
+      fetch(base, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+        redirect: 'manual',
+      });
+    const draft = { jsxTemplate: 'function Template({ name }) { return <h1>Hi {name}</h1>; }', data: { name: 'Ada' } };
+    const [first, second] = await Promise.all([post(draft), post(draft)]);
+    const location = first.headers.get('Location')!;
+    expect('Draft redirect', [first.status, location, second.headers.get('Location')], [303, location, location]);
+
+    const rendered = await (await fetch(`${new URL(location, base)}/document.html`)).text();
+    expect('Draft document', rendered.includes('<h1>Hi Ada</h1>'), true);
+
+    // Compile errors are shown in place of the document
+    const broken = await post({ jsxTemplate: 'function Template() { return <div>; }' });
+    const failure = await fetch(`${new URL(broken.headers.get('Location')!, base)}/document.html`);
+    const failureHtml = await failure.text();
+    expect('Compile error', [failure.status, failureHtml.includes('Template failed to compile')], [422, true]);
+    expect('Code frame', failureHtml.includes('<pre>&gt; 1 | function Template()'), true);
+
+    const invalid = await post({ templateType: 'invoice', data: {} });
+    const invalidHtml = await (await fetch(`${new URL(invalid.headers.get('Location')!, base)}/document.html`)).text();
+    expect('Invalid data', invalidHtml.includes('invoiceNumber'), true);
+    expect('Missing template', (await post({ data: {} })).status, 400);
+
+    // Forms posted from other sites are turned away
+    const form = await fetch(base, {
+      method: 'POST',
+      body: new URLSearchParams({ jsxTemplate: 'function Template() { return <script>alert(1)</script>; }' }),
+      redirect: 'manual',
+    });
+    expect('Form post', form.status, 415);
+
+    // The event stream greets new pages with the server's start time
+    const controller = new AbortController();
+    const events = await fetch(`${base}/events`, { signal: controller.signal });
+    const reader = events.body!.getReader();
+    const { value } = await reader.read();
+    controller.abort();
+    expect('Event stream', [
+      events.headers.get('Content-Type'),
+      /event: ready\ndata: \{"startedAt":/.test(new TextDecoder().decode(value)),
+    ], ['text/event-stream', true]);
+  } finally {
+    server.closeAllConnections();
+    server.close();
+  }
+
+  finishTests('Live preview tests completed!');
+}
+
+testPreview()
+  .catch((error) => {
+    console.error(error);
+    process.exitCode = 1;
+  })
+  .finally(() => shutdownTemplateSandbox());
@@ -0,0 +1,164 @@
+import { renderJsxString } from './utils/pdfGenerator';
+import { TemplateCompileError, TemplateRenderError } from './utils/templateErrors';
+import { shutdownTemplateSandbox, TemplateSandboxError } from './utils/templateSandbox';
+
+// Templates that must be rejected by the sandbox, with the expected failure reason
+const rejectedTemplates = [
+  {
+    name: 'Node globals',
+    reason: 'forbidden',
+    jsx: `function Template() { return <div>{process.env.HOME}</div>; }`,
+  },
+  {
+    name: 'require',
+    reason: 'forbidden',
+    jsx: `function Template() { const fs = require('fs'); return <div>{fs.readFileSync('/etc/passwd', 'utf8')}</div>; }`,
+  },
+  {
+    name: 'Constructor chain escape',
+    reason: 'forbidden',
+    jsx: `function Template() { const F = this.constructor.constructor; return <div>{F('return process')().pid}</div>; }`,
+  },
+  {
+    name: 'eval',
+    reason: 'forbidden',
+    jsx: `function Template() { return <div>{eval('1 + 1')}</div>; }`,
+  },
+  {
+    name: 'Infinite loop',
+    reason: 'timeout',
+    jsx: `function Template() { while (true) {} }`,
+  },
+  {
+    name: 'Infinite loop in a promise job',
+    reason: 'timeout',
+    jsx: `function Template() { Promise.resolve().then(() => { while (true) {} }); return <div>Done</div>; }`,
+  },
+  {
+    name: 'Memory exhaustion',
+    reason: 'memory',
+    jsx: `function Template() { const chunks = []; while (true) { chunks.push(new Array(1e6).fill(1)); } }`,
+  },
+];
+
+async function testSandbox() {
+  console.log('Testing the dynamic template sandbox...');
+  let failures = 0;
+
+  for (const template of rejectedTemplates) {
+    try {
+      await renderJsxString(template.jsx, {});
+      console.error(`${template.name}: template was not rejected`);
+      failures++;
+    } catch (error) {
+      if (error instanceof TemplateSandboxError && error.reason === template.reason) {
+        console.log(`${template.name}: rejected (${error.message})`);
+      } else {
+        console.error(`${template.name}: unexpected error`, error);
+        failures++;
+      }
+    }
+  }
+
+  // Broken templates must report the phase and position of the failure
+  const brokenTemplates = [
+    {
+      name: 'Syntax error',
+      errorClass: TemplateCompileError,
+      line: 2,
+      jsx: `function Template(props) {\n  return <div>{props.title}</span>;\n}`,
+    },
+    {
+      name: 'Runtime error',
+      errorClass: TemplateRenderError,
+      line: 3,
+      jsx: `function Template(props) {\n  const missing = null;\n  return <div>{missing.title}</div>;\n}`,
+    },
+  ];
+
+  for (const template of brokenTemplates) {
+    try {
+      await renderJsxString(template.jsx, {});
+      console.error(`${template.name}: template did not fail`);
+      failures++;
+    } catch (error) {
+      if (error instanceof template.errorClass && error.line === template.line && error.codeFrame) {
+        console.log(`${template.name}: reported at line ${error.line}, column ${error.column}\n${error.codeFrame}`);
+      } else {
+        console.error(`${template.name}: unexpected error`, error);
+        failures++;
+      }
+    }
+  }
+
+  // The sandbox must still render well-behaved templates after the rejections above
+  const html = await renderJsxString(`function Template(props) { return <h1 className="title">{props.title}</h1>; }`, {
+    title: 'Still working',
+  });
+
+  if (html === '<h1 class="title">Still working</h1>') {
+    console.log('Valid template rendered successfully!');
+  } else {
+    console.error('Valid template rendered unexpected markup:', html);
+    failures++;
+  }
+
+  // Translation helpers follow the requested locale and fall back to English
+  const translated = await renderJsxString(
+    `function Template(props) {
+      const { dir } = useTranslation();
+      return <p dir={dir}>{t('invoice.total')} {t('report.metric')} {formatDate(props.date)}</p>;
+    }`,
+    { date: '2024-02-29' },
+    'de'
+  );
+
+  if (translated === '<p dir="ltr">Gesamtbetrag Kennzahl 29.02.2024</p>') {
+    console.log('Template translated successfully!');
+  } else {
+    console.error('Template rendered unexpected translation:', translated);
+    failures++;
+  }
+
+  // Chart components are available without importing them
+  const chart = await renderJsxString(
+    `function Template() { return <DonutChart labels={['A', 'B']} series={[{ name: 'Share', values: [1, 3] }]} />; }`,
+    {}
+  );
+
+  if (chart.includes('<svg') && chart.includes('B (75%)')) {
+    console.log('Chart rendered successfully!');
+  } else {
+    console.error('Chart rendered unexpected markup:', chart);
+    failures++;
+  }
+
+  // Library components are rendered in the document locale
+  const library = await renderJsxString(
+    `function Template() {
+      return <KeepTogether><Money amount={1234.5} currency='EUR' /><Barcode value='INV-1' showText={false} /></KeepTogether>;
+    }`,
+    {},
+    'de'
+  );
+
+  if (library.includes('1.234,50') && library.includes('<rect x="20" width="4" height="48"')) {
+    console.log('Library components rendered successfully!');
+  } else {
+    console.error('Library components rendered unexpected markup:', library);
+    failures++;
+  }
+
+  if (failures > 0) {
+    process.exitCode = 1;
+  }
+
+  console.log('Sandbox tests completed!');
+}
+
+testSandbox()
+  .catch((error) => {
+    console.error(error);
+    process.exitCode = 1;
+  })
+  .finally(() => shutdownTemplateSandbox());
@@ -0,0 +1,138 @@
+import { generateKeyPairSync } from 'crypto';
+import forge from 'node-forge';
+import { PDFDocument } from 'pdf-lib';
+import { setDocumentMetadata } from './utils/pdfMetadata';
+import { PdfRequestError, preparePdfRequest } from './utils/pdfRequest';
+import { encryptDocument, permissionFlags } from './utils/pdfSecurity';
+import { addSignaturePlaceholder, loadSigningCertificate, SigningError, signPdf } from './utils/pdfSignature';
+import { expect, finishTests } from './utils/testing';
+
+/**
+ * Builds a PKCS#12 file with a self-signed certificate for "Test Signer"
+ */
+function buildTestCertificate(password: string): Buffer {
+  const { privateKey, publicKey } = generateKeyPairSync('rsa', { modulusLength: 2048 });
+  const key = forge.pki.privateKeyFromPem(privateKey.export({ type: 'pkcs1', format: 'pem' }).toString());
+  const certificate = forge.pki.createCertificate();
+  const subject = [{ name: 'commonName', value: 'Test Signer' }];
+
+  certificate.publicKey = forge.pki.publicKeyFromPem(publicKey.export({ type: 'spki', format: 'pem' }).toString());
+  certificate.serialNumber = '01';
+  certificate.validity.notBefore = new Date();
+  certificate.validity.notAfter = new Date(Date.now() + 24 * 60 * 60 * 1000);
+  certificate.setSubject(subject);
+  certificate.setIssuer(subject);
+  certificate.sign(key, forge.md.sha256.create());
+
+  const pkcs12 = forge.pkcs12.toPkcs12Asn1(key, [certificate], password, { algorithm: '3des' });
+  return Buffer.from(forge.asn1.toDer(pkcs12).getBytes(), 'binary');
+}
+
+async function runSecurityTests() {
+  console.log('Testing PDF encryption and signatures...');
+  // Permission flags keep the reserved bits set
+  expect('All permissions', permissionFlags(undefined), -4);
+  expect('Print only', permissionFlags({ printing: 'highResolution' }), 0xfffff8c4 | 0);
+  expect('Nothing allowed', permissionFlags({}), 0xfffff0c0 | 0);
+
+  // Strings and streams are unreadable without the key
+  const doc = await PDFDocument.create();
+  doc.addPage().drawText('Salary statement');
+  setDocumentMetadata(doc, { title: 'Payroll March' });
+  await encryptDocument(doc, {
+    userPassword: 'open',
+    ownerPassword: 'owner',
+    permissions: { printing: 'lowResolution' },
+  });
+  const encrypted = Buffer.from(await doc.save({ useObjectStreams: false }));
+  const text = encrypted.toString('latin1');
+
+  expect('Encryption dictionary', /\/Filter \/Standard/.test(text) && /\/R 6/.test(text), true);
+  expect('Title hidden', text.includes('Payroll') || text.includes('5061797'), false);
+  expect('Permissions', /\/P -3900\b/.test(text), true);
+  expect('Recognised as encrypted', (await PDFDocument.load(encrypted, { ignoreEncryption: true })).isEncrypted, true);
+
+  // Certificates are read from PKCS#12 files
+  const p12 = buildTestCertificate('secret');
+  const certificate = loadSigningCertificate(p12, 'secret');
+  expect('Signer', certificate.signer, 'Test Signer');
+  try {
+    loadSigningCertificate(p12, 'wrong');
+    expect('Wrong password', 'accepted', 'rejected');
+  } catch (error) {
+    expect('Wrong password', error instanceof SigningError, true);
+  }
+
+  // The signature covers every byte except its own value
+  const unsigned = await PDFDocument.create();
+  unsigned.addPage();
+  await addSignaturePlaceholder(
+    unsigned,
+    { reason: 'Approved', visible: { x: 400, y: 40, width: 160, height: 50 } },
+    certificate
+  );
+  const signed = signPdf(Buffer.from(await unsigned.save({ useObjectStreams: false })), certificate);
+  const [, start, length, end, endLength] = /\/ByteRange \[ (\d+) (\d+) (\d+) (\d+) \]/
+    .exec(signed.toString('latin1'))!
+    .map(Number);
+  const content = Buffer.concat([signed.subarray(start, length), signed.subarray(end, end + endLength)]);
+  const signatureHex = signed.subarray(length + 1, end - 1).toString('latin1');
+
+  expect('Byte range', [start, end + endLength], [0, signed.length]);
+
+  // Verify the RSA signature over the signed attributes, and the digest of the content in them
+  // The reserved space is padded with zeros after the signature, whose DER header holds its length
+  const reserved = Buffer.from(signatureHex, 'hex');
+  const lengthBytes = reserved[1] & 0x7f;
+  const signatureDer = reserved.subarray(0, 2 + lengthBytes + reserved.readUIntBE(2, lengthBytes));
+  const message = forge.pkcs7.messageFromAsn1(forge.asn1.fromDer(signatureDer.toString('binary')));
+  const capture = (message as unknown as { rawCapture: Record<string, any> }).rawCapture;
+  const signedAttributes: any[] = capture.authenticatedAttributes;
+  const attributes = forge.asn1.create(forge.asn1.Class.UNIVERSAL, forge.asn1.Type.SET, true, signedAttributes);
+  const attributesDigest = forge.md.sha256.create().update(forge.asn1.toDer(attributes).getBytes());
+  const publicKey = certificate.certificate.publicKey as forge.pki.rsa.PublicKey;
+  // Each attribute is a sequence of its type and a set of values
+  const digestAttribute = signedAttributes.find(
+    (attribute) => forge.asn1.derToOid(attribute.value[0].value) === forge.pki.oids.messageDigest
+  );
+  const signedDigest = Buffer.from(digestAttribute.value[1].value[0].value, 'binary').toString('hex');
+  const contentDigest = forge.md.sha256.create().update(content.toString('binary')).digest().toHex();
+
+  expect('Signature valid', publicKey.verify(attributesDigest.digest().bytes(), capture.signature), true);
+  expect('Content digest', signedDigest, contentDigest);
+
+  // Requests cannot combine security options with other output or with PDF/A
+  const jsxTemplate = 'function Template() { return <h1>Payroll</h1>; }';
+  const invalidOptions: Array<[string, object, string]> = [
+    ['No password', { encryption: {} }, 'Invalid encryption, expected a userPassword or an ownerPassword'],
+    [
+      'Unknown permission',
+      { encryption: { ownerPassword: 'x', permissions: { printing: 'yes' } } },
+      'Invalid encryption.permissions.printing',
+    ],
+    [
+      'Encrypted image',
+      { encryption: { userPassword: 'x' }, outputFormat: 'png' },
+      'Encryption and signatures require the pdf output format',
+    ],
+    ['Encrypted PDF/A', { encryption: { userPassword: 'x' }, pdfa: 'PDF/A-2b' }, 'PDF/A documents cannot be encrypted'],
+    [
+      'Signature position',
+      { signature: { visible: { x: 0, y: 0, width: 0, height: 10 } } },
+      'Invalid signature.visible, expected a page, x, y, width and height in points',
+    ],
+    ['No certificate', { signature: { reason: 'Approved' } }, 'Signing is not configured on this server'],
+  ];
+  invalidOptions.forEach(([name, options, message]) => {
+    try {
+      preparePdfRequest({ jsxTemplate, options });
+      expect(name, 'accepted', message);
+    } catch (error) {
+      expect(name, error instanceof PdfRequestError ? error.message : String(error), message);
+    }
+  });
+
+  finishTests('Security tests completed!');
+}
+
+runSecurityTests();
@@ -0,0 +1,133 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { compileJsxString } from './utils/pdfGenerator';
+import { PdfRequestError, preparePdfRequest, readTemplateDraft } from './utils/pdfRequest';
+import { TemplateError } from './utils/templateErrors';
+import { shutdownTemplateSandbox } from './utils/templateSandbox';
+import { configureTemplateStore, TemplateStore } from './utils/templateStore';
+import { expect, finishTests } from './utils/testing';
+
+const greeting = `function Template({ name }) { return <h1 className="title">Hello {name}</h1>; }`;
+
+/**
+ * Describes why preparing or storing a template failed
+ */
+async function failure(task: () => unknown): Promise<string> {
+  try {
+    await task();
+    return 'accepted';
+  } catch (error) {
+    if (error instanceof PdfRequestError || error instanceof TemplateError) {
+      return `${error.name}: ${error.message}`;
+    }
+    throw error;
+  }
+}
+
+async function testTemplates() {
+  console.log('Testing stored templates...');
+  // The same JSX is compiled once
+  expect('Compile cache', compileJsxString(greeting) === compileJsxString(greeting), true);
+
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'template-store-test-'));
+  try {
+    const store = new TemplateStore(dir);
+    configureTemplateStore(store);
+
+    // Drafts are compiled, and checked against their schema and sample data
+    const propsSchema = { type: 'object', required: ['name'], properties: { name: { type: 'string', minLength: 1 } } };
+    const sampleData = { name: 'Ada' };
+    const draft = await readTemplateDraft({ name: 'Greeting', jsxTemplate: greeting, propsSchema, sampleData });
+    expect('Draft compiled', draft.template.code.includes('React.createElement'), true);
+
+    const rejected = await Promise.all([
+      failure(() => readTemplateDraft({ jsxTemplate: '' })),
+      failure(() => readTemplateDraft({ jsxTemplate: 'function Template() { return <div>; }' })),
+      failure(() => readTemplateDraft({ jsxTemplate: greeting, propsSchema: [] })),
+      failure(() => readTemplateDraft({ jsxTemplate: greeting, propsSchema, sampleData: {} })),
+      failure(() => readTemplateDraft({ jsxTemplate: 'function Template() { return null.x; }', sampleData: {} })),
+      failure(() => readTemplateDraft({ jsxTemplate: greeting, options: { encryption: { userPassword: 'secret' } } })),
+    ]);
+    expect('Invalid drafts', rejected.map((message) => message.split(':')[0]), [
+      'PdfRequestError',
+      'TemplateCompileError',
+      'PdfRequestError',
+      'PropsValidationError',
+      'TemplateRenderError',
+      'PdfRequestError',
+    ]);
+
+    // Nested schemas are checked too, so stored templates can always validate their props
+    const invalidSchemas = await Promise.all(
+      [
+        { properties: { name: null } },
+        { required: 'name' },
+        { type: 'object', properties: { lines: { type: 'array', items: { type: 'money' } } } },
+      ].map((schema) => failure(() => readTemplateDraft({ jsxTemplate: greeting, propsSchema: schema })))
+    );
+    expect('Invalid nested schemas', invalidSchemas, [
+      'PdfRequestError: Invalid propsSchema, propsSchema.properties.name must be a schema object',
+      'PdfRequestError: Invalid propsSchema, propsSchema.required must be an array of property names',
+      'PdfRequestError: Invalid propsSchema, propsSchema.properties.lines.items.type must be one of string, number, ' +
+        'integer, boolean, object, array',
+    ]);
+
+    // New versions are added to the same template and survive reopening the store
+    const created = await store.save(draft);
+    const id = created!.id;
+    const revised = await store.save(
+      await readTemplateDraft({ jsxTemplate: greeting.replace('Hello', 'Welcome'), options: { filename: 'hi.pdf' } }),
+      id
+    );
+    expect('Versions', revised?.versions.map((version) => version.version), [1, 2]);
+    expect('Name kept', revised?.name, 'Greeting');
+    expect('Unknown template', await store.save(draft, 'missing'), undefined);
+
+    const reopened = new TemplateStore(dir);
+    expect('Reopened', [reopened.list().length, reopened.getVersion(id)?.version], [1, 2]);
+    configureTemplateStore(reopened);
+
+    // Requests render the latest version unless they pick one
+    const latest = preparePdfRequest({ templateId: id, data: { name: 'Ada' } }, 'jsx');
+    expect('Latest version', [latest.filename, await latest.renderMarkup()], [
+      'hi.pdf',
+      '<h1 class="title">Welcome Ada</h1>',
+    ]);
+    const first = preparePdfRequest({ templateId: id, templateVersion: 1, data: { name: 'Ada' } }, 'jsx');
+    expect('Pinned version', await first.renderMarkup(), '<h1 class="title">Hello Ada</h1>');
+    const inline = preparePdfRequest({ jsxTemplate: greeting, data: { name: 'Ada' } }, 'jsx');
+    expect('Shares cache with inline JSX', first.cacheKey, inline.cacheKey);
+
+    const requestErrors = await Promise.all([
+      failure(() => preparePdfRequest({ templateId: 'missing' }, 'jsx')),
+      failure(() => preparePdfRequest({ templateId: id, templateVersion: 3 }, 'jsx')),
+      failure(() => preparePdfRequest({ templateId: id, templateVersion: 1, data: {} }, 'jsx')),
+      failure(() => preparePdfRequest({ templateId: id, jsxTemplate: greeting }, 'jsx')),
+    ]);
+    expect('Request errors', requestErrors, [
+      'TemplateNotFoundError: Template missing not found',
+      `TemplateNotFoundError: Version 3 of template ${id} not found`,
+      'PropsValidationError: Invalid template data',
+      'PdfRequestError: Send either jsxTemplate or templateId, not both',
+    ]);
+
+    // Concurrent saves of one template get consecutive versions, in memory and on disk
+    const concurrent = await Promise.all([reopened.save(draft, id), reopened.save(draft, id)]);
+    expect('Concurrent saves', concurrent.map((saved) => saved?.versions.length), [3, 4]);
+    expect('Concurrent saves stored', new TemplateStore(dir).getVersion(id)?.version, 4);
+
+    expect('Deleted', [await reopened.delete(id), await reopened.delete(id), fs.readdirSync(dir)], [true, false, []]);
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+
+  finishTests('Template store tests completed!');
+}
+
+testTemplates()
+  .catch((error) => {
+    console.error(error);
+    process.exitCode = 1;
+  })
+  .finally(() => shutdownTemplateSandbox());
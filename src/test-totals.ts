@@ -0,0 +1,44 @@
+import { calculateInvoiceTotals, formatMoney } from './utils/invoiceTotals';
+import { expect, finishTests } from './utils/testing';
+
+function runTotalsTests() {
+  console.log('Testing invoice totals...');
+  // Floating point sums such as 0.1 * 3 + 0.2 must not leak into totals
+  const cents = calculateInvoiceTotals({
+    items: [
+      { quantity: 3, unitPrice: 0.1 },
+      { quantity: 1, unitPrice: 0.2 },
+    ],
+    taxRate: 10,
+  });
+  expect('Decimal-safe subtotal', [cents.subtotal, cents.taxTotal, cents.total], [0.5, 0.05, 0.55]);
+
+  // Tax-inclusive EU invoice with two VAT rates, a discount, an exempt item and taxed shipping
+  const eu = calculateInvoiceTotals({
+    currency: 'EUR',
+    pricesIncludeTax: true,
+    items: [
+      { quantity: 2, unitPrice: 11.9, taxRate: 19, discountPercent: 10 },
+      { quantity: 1, unitPrice: 10.7, taxRate: 7 },
+      { quantity: 1, unitPrice: 5, taxExempt: true },
+    ],
+    shipping: 4.99,
+    shippingTaxRate: 19,
+  });
+  expect('Inclusive tax lines', eu.taxes, [
+    { rate: 19, taxable: 22.19, tax: 4.22 },
+    { rate: 7, taxable: 10, tax: 0.7 },
+  ]);
+  expect('Inclusive total', [eu.discount, eu.exempt, eu.total], [2.38, 5, 42.11]);
+
+  // Currencies without minor units round to whole amounts
+  const yen = calculateInvoiceTotals({ currency: 'JPY', taxRate: 10, items: [{ quantity: 3, unitPrice: 333.33 }] });
+  expect('JPY rounding', [yen.subtotal, yen.taxTotal, yen.total], [1000, 100, 1100]);
+
+  // Formatting follows the locale
+  expect('Locale formatting', formatMoney(1234.5, 'EUR', 'de-DE'), '1.234,50 €');
+
+  finishTests('Invoice totals tests completed!');
+}
+
+runTotalsTests();
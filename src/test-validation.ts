@@ -0,0 +1,112 @@
+import { validateProps } from './utils/propsSchema';
+import { getTemplate } from './utils/templateRegistry';
+
+function runValidationTests() {
+  console.log('Testing template props validation...');
+  let failures = 0;
+
+  const invoice = getTemplate('invoice')!;
+  const invoiceData = {
+    invoiceNumber: 'INV-001',
+    date: '2023-11-01',
+    dueDate: '2023-11-15',
+    customerName: 'John Doe',
+    customerAddress: '123 Main St, Anytown, USA',
+    items: [
+      { description: 'Web Development', quantity: 10, unitPrice: 150 },
+      { description: 'Hosting (monthly)', quantity: '1', unitPrice: '50' },
+      { description: '', quantity: 2 },
+    ],
+  };
+
+  // Every failing path must be reported, not just the first one
+  const strict = validateProps(invoice.propsSchema, invoiceData);
+  const expectedIssues = [
+    'items[1].quantity: expected number, got string',
+    'items[1].unitPrice: expected number, got string',
+    'items[2].unitPrice: is required',
+    'items[2].description: must not be empty',
+  ];
+  const reported = strict.issues.map((issue) => `${issue.path}: ${issue.message}`);
+
+  if (expectedIssues.every((issue) => reported.includes(issue)) && reported.length === expectedIssues.length) {
+    console.log('Invalid invoice reported every failing field:\n  ' + reported.join('\n  '));
+  } else {
+    console.error('Unexpected validation issues:', reported);
+    failures++;
+  }
+
+  // Coercion converts numeric strings but still reports missing fields
+  const coerced = validateProps<typeof invoiceData>(invoice.propsSchema, invoiceData, { coerce: true });
+  const coercedIssues = coerced.issues.map((issue) => `${issue.path}: ${issue.message}`);
+
+  if (coerced.value.items[1].unitPrice === 50 && coercedIssues.length === 2) {
+    console.log('Coercion converted numeric strings successfully!');
+  } else {
+    console.error('Unexpected coercion result:', coercedIssues, coerced.value.items[1]);
+    failures++;
+  }
+
+  // Formats and ranges are checked for invoice settings
+  const settings = validateProps(invoice.propsSchema, {
+    ...invoiceData,
+    items: [{ description: 'Consulting', quantity: 1, unitPrice: 100, taxRate: 120 }],
+    currency: 'euro',
+    locale: 'de_DE!',
+  });
+  const settingsIssues = settings.issues.map((issue) => `${issue.path}: ${issue.message}`);
+
+  if (
+    settingsIssues.includes('currency: must be an ISO 4217 currency code') &&
+    settingsIssues.includes('locale: must be a BCP 47 locale') &&
+    settingsIssues.includes('items[0].taxRate: must be at most 100')
+  ) {
+    console.log('Invalid invoice settings were rejected!');
+  } else {
+    console.error('Unexpected invoice settings issues:', settingsIssues);
+    failures++;
+  }
+
+  // Amounts too large to total exactly are rejected instead of failing the render
+  const huge = validateProps(invoice.propsSchema, {
+    ...invoiceData,
+    items: [{ description: 'Consulting', quantity: 1, unitPrice: 1e21 }],
+    shipping: 1e21,
+  });
+  const hugeIssues = huge.issues.map((issue) => `${issue.path}: ${issue.message}`);
+
+  if (
+    hugeIssues.includes('items[0].unitPrice: must be at most 1000000000000') &&
+    hugeIssues.includes('shipping: must be at most 1000000000000')
+  ) {
+    console.log('Huge amounts were rejected!');
+  } else {
+    console.error('Unexpected huge amount issues:', hugeIssues);
+    failures++;
+  }
+
+  // Valid reports pass without issues
+  const report = getTemplate('report')!;
+  const valid = validateProps(report.propsSchema, {
+    title: 'Monthly Performance Report',
+    date: '2023-11-01',
+    author: 'Jane Smith',
+    summary: 'This report summarizes the performance metrics for October 2023.',
+    data: [{ label: 'Revenue', value: 25000 }],
+  });
+
+  if (valid.valid) {
+    console.log('Valid report passed validation!');
+  } else {
+    console.error('Valid report was rejected:', valid.issues);
+    failures++;
+  }
+
+  if (failures > 0) {
+    process.exitCode = 1;
+  }
+
+  console.log('Validation tests completed!');
+}
+
+runValidationTests();
@@ -0,0 +1,219 @@
+import fs from 'fs';
+import path from 'path';
+import { PDFDocument, PDFName, StandardFonts } from 'pdf-lib';
+import { PNG } from 'pngjs';
+import { parseArgs } from 'util';
+import { shutdownBrowserPool } from './utils/browserPool';
+import { comparePngs } from './utils/imageDiff';
+import { renderDocument } from './utils/pdfGenerator';
+import { PdfRequestBody, preparePdfRequest } from './utils/pdfRequest';
+import { rasterizePdf } from './utils/pdfRaster';
+import { extractPdfText } from './utils/pdfText';
+import { loadTemplates } from './utils/templateRegistry';
+import { shutdownTemplateSandbox } from './utils/templateSandbox';
+import { expect, fail, finishTests } from './utils/testing';
+
+/**
+ * A document whose rendering is checked, read from `src/visual-tests/cases/<name>.json`
+ */
+interface VisualCase {
+  description: string;
+  // Request body as sent to `/api/pdf/generate`
+  request: PdfRequestBody;
+  // JSX template next to the case, used as `request.jsxTemplate`
+  jsxFile?: string;
+  // Number of pages of the PDF
+  pages: number;
+  // Text the PDF must contain; whitespace is ignored, so line breaks do not matter
+  text: string[];
+  // Overrides of the --threshold and --max-diff flags
+  threshold?: number;
+  maxDiff?: number;
+}
+
+const casesDir = path.join(__dirname, 'visual-tests', 'cases');
+const baselinesDir = path.join(__dirname, 'visual-tests', 'baselines');
+const outputDir = path.join(__dirname, '../output/visual');
+
+// Pixels per PDF point of the page images; an A4 page is 893x1263 pixels
+const RASTER_SCALE = 1.5;
+
+const { values: flags, positionals: caseNames } = parseArgs({
+  options: {
+    // Write the rendered pages as the new baselines
+    update: { type: 'boolean', default: false },
+    // Colour distance from 0 to 1 below which pixels count as equal
+    threshold: { type: 'string', default: '0.1' },
+    // Share of pixels of a page that may differ
+    'max-diff': { type: 'string', default: '0.001' },
+  },
+  allowPositionals: true,
+});
+
+/**
+ * Removes whitespace, so text can be compared however the PDF breaks it into lines
+ */
+function squash(text: string): string {
+  return text.replace(/\s+/g, '');
+}
+
+/**
+ * Builds a PDF showing text with a composite font, like the PDFs Chromium prints.
+ * Codes 1 to 3 are mapped to "H", "i" and "W" by a ToUnicode CMap, and glyphs
+ * are positioned along the line with Td as Chromium does for kerning.
+ */
+async function buildType0Pdf(): Promise<Uint8Array> {
+  const doc = await PDFDocument.create();
+  const page = doc.addPage([200, 200]);
+  const cmap = `/CIDInit /ProcSet findresource begin
+begincmap
+1 begincodespacerange <0000> <FFFF> endcodespacerange
+2 beginbfchar
+<0001> <0048>
+<0002> <0069>
+endbfchar
+1 beginbfrange
+<0003> <0003> <0057>
+endbfrange
+endcmap
+end`;
+  const font = doc.context.obj({
+    Type: 'Font',
+    Subtype: 'Type0',
+    BaseFont: 'TestFont',
+    Encoding: 'Identity-H',
+    ToUnicode: doc.context.register(doc.context.flateStream(cmap)),
+  });
+  page.node.setFontDictionary(PDFName.of('F1'), doc.context.register(font));
+  page.node.addContentStream(
+    doc.context.register(
+      doc.context.stream('BT /F1 12 Tf 20 150 Td <0001> Tj 8.7 0 Td <0002> Tj 0 -20 Td [<0003> -400 <0001>] TJ ET')
+    )
+  );
+  return doc.save();
+}
+
+async function runVisualTests() {
+  console.log('Testing rendered documents against baselines...');
+  // Images are compared pixel by pixel, and images of another size not at all
+  const blank = new PNG({ width: 10, height: 10 });
+  blank.data.fill(255);
+  const marked = new PNG({ width: 10, height: 10 });
+  blank.data.copy(marked.data);
+  for (let pixel = 0; pixel < 5; pixel++) {
+    marked.data.writeUInt32BE(0xff0000ff, pixel * 4);
+  }
+  const blankPng = PNG.sync.write(blank);
+  const markedComparison = comparePngs(PNG.sync.write(marked), blankPng);
+  expect('Identical images', comparePngs(blankPng, blankPng).differentPixels, 0);
+  expect('Changed pixels', [markedComparison.differentPixels, markedComparison.difference], [5, 0.05]);
+  const tallPng = PNG.sync.write(new PNG({ width: 10, height: 12 }));
+  expect('Size mismatch', comparePngs(tallPng, blankPng).sizeMismatch, 'expected 10x10 pixels, got 10x12');
+
+  // Text is read from simple fonts and from composite fonts with a ToUnicode CMap
+  const simple = await PDFDocument.create();
+  const helvetica = await simple.embedFont(StandardFonts.Helvetica);
+  simple.addPage().drawText('Total: $1,650.00\nThank you (again)', { x: 50, y: 700, font: helvetica, lineHeight: 14 });
+  simple.addPage().drawText('Page two', { x: 50, y: 700, font: helvetica });
+  expect('Simple font text', await extractPdfText(await simple.save()), [
+    'Total: $1,650.00\nThank you (again)',
+    'Page two',
+  ]);
+  expect('Composite font text', await extractPdfText(await buildType0Pdf()), ['Hi\nW H']);
+
+  // Pages are drawn at the size of the PDF page
+  const drawn = (await rasterizePdf(await simple.save(), RASTER_SCALE)).map((image) => PNG.sync.read(image));
+  expect('Page images', drawn.map(({ width, height }) => `${width}x${height}`), ['893x1263', '893x1263']);
+
+  const threshold = Number(flags.threshold);
+  const maxDiff = Number(flags['max-diff']);
+  if (!(threshold >= 0 && threshold <= 1) || !(maxDiff >= 0 && maxDiff <= 1)) {
+    throw new Error('--threshold and --max-diff must be numbers from 0 to 1');
+  }
+
+  loadTemplates();
+  fs.mkdirSync(baselinesDir, { recursive: true });
+
+  const names = fs
+    .readdirSync(casesDir)
+    .filter((file) => file.endsWith('.json'))
+    .map((file) => path.basename(file, '.json'))
+    .filter((name) => caseNames.length === 0 || caseNames.includes(name));
+  const unknown = caseNames.filter((name) => !names.includes(name));
+  if (unknown.length > 0) {
+    throw new Error(`Unknown cases: ${unknown.join(', ')}`);
+  }
+
+  for (const name of names) {
+    const visualCase: VisualCase = JSON.parse(fs.readFileSync(path.join(casesDir, `${name}.json`), 'utf8'));
+    const request = { ...visualCase.request };
+    if (visualCase.jsxFile) {
+      request.jsxTemplate = fs.readFileSync(path.join(casesDir, visualCase.jsxFile), 'utf8');
+    }
+    console.log(`\n${name}: ${visualCase.description}`);
+
+    try {
+      const prepared = preparePdfRequest(request);
+
+      // The PDF has the expected pages and text
+      const pdf = await renderDocument(
+        await prepared.renderMarkup(),
+        { ...prepared.options, outputFormat: 'pdf' },
+        prepared.data
+      );
+      expect(`${name} pages`, (await PDFDocument.load(pdf.buffer)).getPageCount(), visualCase.pages);
+      const text = squash((await extractPdfText(pdf.buffer)).join('\n'));
+      const missing = visualCase.text.filter((expected) => !text.includes(squash(expected)));
+      expect(`${name} text`, missing, []);
+
+      // Each page of the PDF looks like its baseline
+      const images = await rasterizePdf(pdf.buffer, RASTER_SCALE);
+      const baselines = fs.readdirSync(baselinesDir).filter((file) => file.startsWith(`${name}-page-`));
+      const baselineFile = (page: number) => `${name}-page-${page}.png`;
+
+      if (flags.update) {
+        baselines.forEach((file) => fs.rmSync(path.join(baselinesDir, file)));
+        images.forEach((image, index) => fs.writeFileSync(path.join(baselinesDir, baselineFile(index + 1)), image));
+        console.log(`${name} baselines: updated ${images.length} page(s)`);
+        continue;
+      }
+
+      expect(`${name} baseline pages`, baselines.length, images.length);
+      images.forEach((image, index) => {
+        const file = baselineFile(index + 1);
+        const page = `${name} page ${index + 1}`;
+        if (!baselines.includes(file)) {
+          fail(`${page}: no baseline, run "npm run test:visual -- --update ${name}" to create it`);
+          return;
+        }
+
+        const baseline = fs.readFileSync(path.join(baselinesDir, file));
+        const comparison = comparePngs(image, baseline, visualCase.threshold ?? threshold);
+        if (!comparison.sizeMismatch && comparison.difference <= (visualCase.maxDiff ?? maxDiff)) {
+          console.log(`${page}: ok (${comparison.differentPixels} pixels differ)`);
+          return;
+        }
+
+        // The rendered page and the differences are kept for review
+        fs.mkdirSync(outputDir, { recursive: true });
+        fs.writeFileSync(path.join(outputDir, file.replace('.png', '-actual.png')), image);
+        if (comparison.diff) {
+          fs.writeFileSync(path.join(outputDir, file.replace('.png', '-diff.png')), comparison.diff);
+        }
+        const reason = comparison.sizeMismatch || `${(comparison.difference * 100).toFixed(2)}% of pixels differ`;
+        fail(`${page}: ${reason}, see ${path.relative(process.cwd(), outputDir)}`);
+      });
+    } catch (error) {
+      fail(`${name}: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  finishTests('\nVisual regression tests completed!');
+}
+
+runVisualTests()
+  .catch((error) => {
+    console.error(error);
+    process.exitCode = 1;
+  })
+  .finally(() => Promise.all([shutdownBrowserPool(), shutdownTemplateSandbox()]));
@@ -3,6 +3,7 @@ import path from 'path';
 import React from 'react';
 import InvoiceTemplate from './templates/InvoiceTemplate';
 import ReportTemplate from './templates/ReportTemplate';
+import { shutdownBrowserPool } from './utils/browserPool';
 import { generatePdfFromJsx } from './utils/pdfGenerator';
 
 async function runTests() {
@@ -48,6 +49,15 @@ async function runTests() {
 
     fs.writeFileSync(path.join(outputDir, 'invoice-test.pdf'), invoicePdf);
     console.log('Invoice PDF generated successfully!');
+
+    console.log('Generating invoice preview image...');
+    const invoicePreview = await generatePdfFromJsx(React.createElement(InvoiceTemplate, invoiceData), {
+      outputFormat: 'png',
+      image: { thumbnail: 'medium' },
+    });
+
+    fs.writeFileSync(path.join(outputDir, 'invoice-preview.png'), invoicePreview);
+    console.log('Invoice preview image generated successfully!');
   } catch (error) {
     console.error('Error generating invoice PDF:', error);
   }
@@ -80,6 +90,7 @@ async function runTests() {
 
     const reportPdf = await generatePdfFromJsx(React.createElement(ReportTemplate, reportData), {
       filename: 'Report-Test.pdf',
+      footer: '<div className="text-center text-gray-500">Page <PageNumber /> of <TotalPages /></div>',
     });
 
     fs.writeFileSync(path.join(outputDir, 'report-test.pdf'), reportPdf);
@@ -91,4 +102,6 @@ async function runTests() {
   console.log('Tests completed!');
 }
 
-runTests().catch(console.error);
+runTests()
+  .catch(console.error)
+  .finally(() => shutdownBrowserPool());
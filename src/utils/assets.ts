@@ -0,0 +1,345 @@
+import fs from 'fs';
+import path from 'path';
+import type { HTTPRequest, HTTPResponse, Page } from 'puppeteer';
+
+export interface Asset {
+  // Path relative to the assets directory, used in `asset:` references
+  path: string;
+  file: string;
+  contentType: string;
+}
+
+export interface FontFace {
+  family: string;
+  weight: number;
+  style: 'normal' | 'italic';
+  asset: Asset;
+}
+
+// Origin the render page loads assets from; requests to it are answered from the assets directory
+export const ASSET_ORIGIN = 'https://assets.local';
+
+const assetsDir = process.env.PDF_ASSETS_DIR || path.join(__dirname, '..', 'assets');
+
+// Hosts the render page may reach, e.g. "cdn.example.com,*.example.org"; everything else is blocked
+const allowedHosts = (process.env.PDF_ALLOWED_HOSTS || '')
+  .split(',')
+  .map((host) => host.trim().toLowerCase())
+  .filter(Boolean);
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.woff2': 'font/woff2',
+  '.woff': 'font/woff',
+  '.ttf': 'font/ttf',
+  '.otf': 'font/otf',
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+  '.svg': 'image/svg+xml',
+};
+
+const FONT_FORMATS: Record<string, string> = {
+  'font/woff2': 'woff2',
+  'font/woff': 'woff',
+  'font/ttf': 'truetype',
+  'font/otf': 'opentype',
+};
+
+// Weights of font files named after the weight instead of its number, e.g. "SemiBold.woff2"
+const FONT_WEIGHTS: Record<string, number> = {
+  thin: 100,
+  extralight: 200,
+  light: 300,
+  regular: 400,
+  normal: 400,
+  medium: 500,
+  semibold: 600,
+  bold: 700,
+  extrabold: 800,
+  black: 900,
+};
+
+// `asset:` references in attributes and CSS `url()`, including quotes escaped by React
+const ASSET_REFERENCE = /(=\s*["']|url\(\s*(?:["']|&quot;|&#x27;)?)asset:([^"'()<>&]*[^"'()<>&\s])/g;
+
+const assets = new Map<string, Asset>();
+const fonts: FontFace[] = [];
+let loaded = false;
+
+/**
+ * Registers a file as an asset, replacing any asset with the same path. Files
+ * under `fonts/<Family>/` are also registered as font faces of that family.
+ * @param assetPath Path used in `asset:` references, e.g. "images/logo.png"
+ * @param file Absolute path of the file
+ */
+export function registerAsset(assetPath: string, file: string): void {
+  const contentType = CONTENT_TYPES[path.extname(file).toLowerCase()];
+  if (!contentType) {
+    return;
+  }
+
+  const asset = { path: assetPath, file, contentType };
+  assets.set(assetPath, asset);
+
+  // Font files are named after their weight, e.g. fonts/Inter/700.woff2 or fonts/Inter/BoldItalic.woff2
+  const match = /^fonts\/([^/]+)\/([^/]+)\.\w+$/.exec(assetPath);
+  if (match && FONT_FORMATS[contentType]) {
+    const name = match[2].toLowerCase().replace(/[-_\s]/g, '');
+    const italic = name.endsWith('italic');
+    const weightName = italic ? name.slice(0, -'italic'.length) : name;
+    const weight = /^\d+$/.test(weightName) ? Number(weightName) : FONT_WEIGHTS[weightName || 'regular'];
+
+    if (!weight) {
+      console.warn(`Skipping font ${assetPath}: name the file after its weight, e.g. 400.woff2 or Bold.woff2`);
+      return;
+    }
+
+    const face: FontFace = { family: match[1], weight, style: italic ? 'italic' : 'normal', asset };
+    const index = fonts.findIndex(
+      (font) => font.family === face.family && font.weight === face.weight && font.style === face.style
+    );
+
+    if (index === -1) {
+      fonts.push(face);
+    } else {
+      fonts[index] = face;
+    }
+  }
+}
+
+/**
+ * Loads every font and image in a directory and its subdirectories
+ * @param dir Directory to scan, defaults to `src/assets` or `PDF_ASSETS_DIR`
+ */
+export function loadAssets(dir: string = assetsDir): void {
+  loaded = true;
+
+  if (!fs.existsSync(dir)) {
+    console.warn(`Asset directory ${dir} does not exist`);
+    return;
+  }
+
+  const scan = (current: string) => {
+    fs.readdirSync(current, { withFileTypes: true })
+      .sort((a, b) => a.name.localeCompare(b.name))
+      .forEach((entry) => {
+        const file = path.join(current, entry.name);
+        if (entry.isDirectory()) {
+          scan(file);
+        } else {
+          registerAsset(path.relative(dir, file).split(path.sep).join('/'), file);
+        }
+      });
+  };
+
+  scan(dir);
+}
+
+/**
+ * Loads the asset directory the first time assets are used, when it was not loaded at startup
+ */
+function ensureLoaded(): void {
+  if (!loaded) {
+    loadAssets();
+  }
+}
+
+/**
+ * Looks up an asset by path
+ * @param assetPath Path relative to the assets directory
+ * @returns The asset, or undefined when there is none
+ */
+export function getAsset(assetPath: string): Asset | undefined {
+  ensureLoaded();
+  return assets.get(assetPath);
+}
+
+/**
+ * Lists the registered fonts and images
+ * @returns Font faces and asset paths in alphabetical order
+ */
+export function listAssets() {
+  ensureLoaded();
+  return {
+    fonts: fonts.map(({ family, weight, style }) => ({ family, weight, style })),
+    assets: Array.from(assets.keys()).sort(),
+  };
+}
+
+/**
+ * Builds `@font-face` rules for the registered font families a document mentions
+ * @param documentText Markup and CSS of the document
+ * @returns CSS with `asset:` references to the font files
+ */
+export function buildFontFaceCss(documentText: string): string {
+  ensureLoaded();
+
+  return fonts
+    .filter((font) => documentText.includes(font.family))
+    .map(
+      (font) =>
+        `@font-face { font-family: "${font.family}"; font-weight: ${font.weight}; font-style: ${font.style}; ` +
+        `font-display: block; src: url("asset:${font.asset.path}") format("${FONT_FORMATS[font.asset.contentType]}"); }`
+    )
+    .join('\n');
+}
+
+/**
+ * Adds a warning unless the same warning was already reported
+ * @param warnings Warnings of the render
+ * @param message Warning to add
+ */
+function warn(warnings: string[], message: string): void {
+  if (!warnings.includes(message)) {
+    warnings.push(message);
+  }
+}
+
+/**
+ * Replaces `asset:` references with data URIs, for documents that are used
+ * without the render page (HTML output, headers and footers), or with URLs
+ * on the asset origin that the render page answers locally
+ * @param html Document markup
+ * @param mode "inline" for data URIs, "serve" for asset origin URLs
+ * @param warnings Receives a warning for every missing asset
+ * @returns Markup with resolved references
+ */
+export function resolveAssetReferences(html: string, mode: 'inline' | 'serve', warnings: string[]): string {
+  ensureLoaded();
+
+  return html.replace(ASSET_REFERENCE, (reference, prefix: string, assetPath: string) => {
+    const asset = assets.get(assetPath);
+
+    if (!asset) {
+      warn(warnings, `Missing asset "${assetPath}"`);
+      return reference;
+    }
+
+    if (mode === 'serve') {
+      return `${prefix}${ASSET_ORIGIN}/${assetPath.split('/').map(encodeURIComponent).join('/')}`;
+    }
+
+    return `${prefix}data:${asset.contentType};base64,${fs.readFileSync(asset.file).toString('base64')}`;
+  });
+}
+
+/**
+ * Checks whether the render page may load a URL from the network
+ * @param url Absolute URL
+ * @returns Whether the host is allowlisted
+ */
+export function isHostAllowed(url: string): boolean {
+  const host = new URL(url).hostname.toLowerCase();
+
+  return allowedHosts.some((allowed) =>
+    allowed.startsWith('*.') ? host.endsWith(allowed.slice(1)) : host === allowed
+  );
+}
+
+/**
+ * Shortens a URL for warnings
+ * @param url URL to shorten
+ * @returns URL of at most 200 characters
+ */
+function shortUrl(url: string): string {
+  return url.length > 200 ? `${url.slice(0, 197)}...` : url;
+}
+
+/**
+ * Takes the render page offline: assets are answered from the assets directory,
+ * allowlisted hosts are fetched normally and every other request is blocked.
+ * Scripts are disabled until the page is restored.
+ * Blocked, missing and failed requests are reported as warnings.
+ * @param page Page about to render a document
+ * @param warnings Receives the warnings of the render
+ * @returns Function restoring the page for the next render
+ */
+export async function isolatePage(page: Page, warnings: string[]): Promise<() => Promise<void>> {
+  ensureLoaded();
+
+  const onRequest = (request: HTTPRequest) => {
+    const url = request.url();
+
+    if (url.startsWith('data:') || url.startsWith('about:')) {
+      request.continue();
+      return;
+    }
+
+    if (url.startsWith(`${ASSET_ORIGIN}/`)) {
+      let assetPath: string;
+      try {
+        assetPath = decodeURIComponent(new URL(url).pathname.slice(1));
+      } catch {
+        // Throwing here would leave the request unanswered and reject inside Puppeteer
+        warn(warnings, `Malformed asset URL ${shortUrl(url)}`);
+        request.respond({ status: 400, body: '' });
+        return;
+      }
+      const asset = assets.get(assetPath);
+
+      if (!asset) {
+        warn(warnings, `Missing asset "${assetPath}"`);
+        request.respond({ status: 404, body: '' });
+        return;
+      }
+
+      fs.promises
+        .readFile(asset.file)
+        // Fonts are fetched with CORS, and the document is not on the asset origin
+        .then((body) =>
+          request.respond({
+            status: 200,
+            contentType: asset.contentType,
+            headers: { 'Access-Control-Allow-Origin': '*' },
+            body,
+          })
+        )
+        .catch(() => {
+          warn(warnings, `Failed to read asset "${assetPath}"`);
+          request.respond({ status: 500, body: '' });
+        });
+      return;
+    }
+
+    if (/^https?:/.test(url) && isHostAllowed(url)) {
+      request.continue();
+      return;
+    }
+
+    warn(warnings, `Blocked request to ${shortUrl(url)}`);
+    request.abort('blockedbyclient');
+  };
+
+  const onResponse = (response: HTTPResponse) => {
+    if (response.status() >= 400 && !response.url().startsWith(ASSET_ORIGIN)) {
+      warn(warnings, `Failed to load ${shortUrl(response.url())} (HTTP ${response.status()})`);
+    }
+  };
+
+  const onRequestFailed = (request: HTTPRequest) => {
+    const reason = request.failure()?.errorText;
+    if (reason && reason !== 'net::ERR_BLOCKED_BY_CLIENT') {
+      warn(warnings, `Failed to load ${shortUrl(request.url())} (${reason})`);
+    }
+  };
+
+  // Interception does not see WebSocket or WebRTC traffic, so scripts, e.g. injected
+  // through dangerouslySetInnerHTML, must not run at all
+  await page.setJavaScriptEnabled(false);
+  // Without scripts, content written over the previous document never reaches network idle
+  await page.goto('about:blank');
+  await page.setRequestInterception(true);
+  page.on('request', onRequest);
+  page.on('response', onResponse);
+  page.on('requestfailed', onRequestFailed);
+
+  return async () => {
+    page.off('request', onRequest);
+    page.off('response', onResponse);
+    page.off('requestfailed', onRequestFailed);
+    await page.setRequestInterception(false);
+    await page.setJavaScriptEnabled(true);
+  };
+}
@@ -0,0 +1,261 @@
+import JSZip from 'jszip';
+import path from 'path';
+import { envInt } from './env';
+import { ConformanceReport } from './pdfa';
+import { renderDocument } from './pdfGenerator';
+import { mergePdfDocuments } from './pdfMerge';
+import { PdfRequestBody, PdfRequestError, preparePdfRequest } from './pdfRequest';
+import { RenderLimitError } from './renderLimits';
+import { ValidationOptions } from './propsSchema';
+import { TemplateError } from './templateErrors';
+import { TemplateSandboxError } from './templateSandbox';
+
+export const BATCH_CONCURRENCY = envInt('PDF_BATCH_CONCURRENCY', 4);
+const BATCH_MAX_ENTRIES = envInt('PDF_BATCH_MAX_ENTRIES', 500);
+
+export type BatchOutput = 'merged' | 'zip';
+
+export interface BatchEntry extends PdfRequestBody {
+  // Bookmark title in merged output; defaults to the entry's filename
+  title?: string;
+}
+
+export interface BatchRequest {
+  entries: BatchEntry[];
+  output: BatchOutput;
+}
+
+export interface BatchManifestEntry {
+  index: number;
+  status: 'ok' | 'failed';
+  filename?: string;
+  // Where the entry starts in merged output (1-based) and how many pages it has
+  startPage?: number;
+  pages?: number;
+  // Values the template computed from the data, e.g. invoice totals
+  summary?: object;
+  // Missing assets and blocked or failed requests
+  warnings?: string[];
+  // Outcome of the PDF/A conversion of entries that requested it
+  conformance?: ConformanceReport;
+  error?: string;
+  details?: unknown;
+  issues?: unknown;
+}
+
+export interface BatchManifest {
+  output: BatchOutput;
+  total: number;
+  succeeded: number;
+  failed: number;
+  entries: BatchManifestEntry[];
+}
+
+export interface BatchResult {
+  // Null when no entry could be rendered
+  buffer: Buffer | null;
+  contentType: string;
+  filename: string;
+  manifest: BatchManifest;
+}
+
+interface RenderedEntry {
+  buffer: Buffer;
+  filename: string;
+  title: string;
+  summary?: object;
+  warnings: string[];
+  conformance?: ConformanceReport;
+}
+
+/**
+ * Validates the body of a `/batch` request
+ * @param body Request body with `entries` and an optional `output`
+ * @returns The entries and the requested output
+ * @throws PdfRequestError when the body is not a valid batch
+ */
+export function readBatchRequest(body: any): BatchRequest {
+  const { entries, output = 'merged' } = body || {};
+
+  if (!Array.isArray(entries) || entries.length === 0) {
+    throw new PdfRequestError('Missing batch entries');
+  }
+
+  if (entries.length > BATCH_MAX_ENTRIES) {
+    throw new PdfRequestError(`A batch may contain at most ${BATCH_MAX_ENTRIES} entries`);
+  }
+
+  if (output !== 'merged' && output !== 'zip') {
+    throw new PdfRequestError('Invalid batch output, expected "merged" or "zip"');
+  }
+
+  return { entries, output };
+}
+
+/**
+ * Describes why a batch entry failed, in the same shape the single-document endpoints answer with
+ * @param error Error thrown while rendering the entry
+ * @returns Manifest fields describing the failure
+ */
+export function describeFailure(error: unknown): Pick<BatchManifestEntry, 'error' | 'details' | 'issues'> {
+  if (error instanceof PdfRequestError || error instanceof RenderLimitError) {
+    return error.toJSON();
+  }
+
+  if (error instanceof TemplateError) {
+    return {
+      error: error instanceof TemplateSandboxError ? 'Template rejected by sandbox' : `Template failed to ${error.phase}`,
+      details: error.toJSON(),
+    };
+  }
+
+  console.error('Error generating batch entry:', error);
+  return { error: 'Failed to generate PDF', details: error instanceof Error ? error.message : 'Unknown error' };
+}
+
+/**
+ * Turns a document filename into the name of a file in a batch directory or ZIP
+ * archive. Filenames come from options and template data, so directories and
+ * `..` are dropped, and characters other than letters, digits, `.`, `-`, `_`
+ * and spaces are replaced with `_`.
+ * @param filename Filename of the rendered document
+ * @returns Name without a path, or `document` when nothing is left
+ */
+export function safeFilename(filename: string): string {
+  const name = path.posix
+    .basename(filename.replace(/\\/g, '/'))
+    .replace(/[^\p{L}\p{N}._\- ]/gu, '_')
+    .replace(/^[. ]+/, '');
+  return name || 'document';
+}
+
+/**
+ * Renders a single batch entry
+ * @param entry Entry with either `templateType` or `jsxTemplate`
+ * @param output Output of the batch; merged batches only accept PDF entries
+ * @param validation Options for validating template data
+ * @returns The document with its filename and bookmark title
+ */
+async function renderEntry(entry: BatchEntry, output: BatchOutput, validation: ValidationOptions): Promise<RenderedEntry> {
+  const request = preparePdfRequest(entry, undefined, validation);
+
+  if (output === 'merged' && (request.options.outputFormat || 'pdf') !== 'pdf') {
+    throw new PdfRequestError('Merged batches only support PDF entries');
+  }
+
+  // Merging copies the pages into a new document, which loses the PDF/A conversion
+  if (output === 'merged' && request.options.pdfa) {
+    throw new PdfRequestError('Merged batches do not support PDF/A entries, use zip output');
+  }
+  // Encrypted entries cannot be read for merging, and signatures would not survive it
+  if (output === 'merged' && (request.options.encryption || request.options.signature)) {
+    throw new PdfRequestError('Merged batches do not support encrypted or signed entries, use zip output');
+  }
+
+  const document = await renderDocument(await request.renderMarkup(), request.options, request.data);
+
+  return {
+    buffer: document.buffer,
+    filename: document.filename,
+    title: entry.title || request.filename.replace(/\.pdf$/i, ''),
+    summary: request.summary,
+    warnings: document.warnings,
+    conformance: document.conformance,
+  };
+}
+
+/**
+ * Runs a task for every item with at most `limit` tasks in flight
+ * @param items Items to process
+ * @param limit Maximum number of concurrent tasks
+ * @param task Task run for each item; must not throw
+ */
+export async function forEachConcurrently<T>(items: T[], limit: number, task: (item: T, index: number) => Promise<void>) {
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      await task(items[index], index);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+}
+
+/**
+ * Renders every entry of a batch and packages the results. Failing entries are
+ * reported in the manifest instead of failing the whole batch.
+ * @param request Entries and output format
+ * @param validation Options for validating template data
+ * @returns The merged PDF or ZIP archive, and the manifest
+ */
+export async function renderBatch(request: BatchRequest, validation: ValidationOptions = {}): Promise<BatchResult> {
+  const rendered: Array<RenderedEntry | null> = new Array(request.entries.length).fill(null);
+  const entries: BatchManifestEntry[] = request.entries.map((_, index) => ({ index, status: 'failed' }));
+
+  await forEachConcurrently(request.entries, BATCH_CONCURRENCY, async (entry, index) => {
+    try {
+      const result = await renderEntry(entry, request.output, validation);
+      rendered[index] = result;
+      entries[index] = {
+        index,
+        status: 'ok',
+        filename: result.filename,
+        summary: result.summary,
+        warnings: result.warnings.length > 0 ? result.warnings : undefined,
+        conformance: result.conformance,
+      };
+    } catch (error) {
+      entries[index] = { index, status: 'failed', ...describeFailure(error) };
+    }
+  });
+
+  const succeeded = rendered.filter((entry): entry is RenderedEntry => entry !== null);
+  const manifest: BatchManifest = {
+    output: request.output,
+    total: entries.length,
+    succeeded: succeeded.length,
+    failed: entries.length - succeeded.length,
+    entries,
+  };
+
+  if (succeeded.length === 0) {
+    return { buffer: null, contentType: 'application/json', filename: 'manifest.json', manifest };
+  }
+
+  if (request.output === 'zip') {
+    const zip = new JSZip();
+    const width = String(entries.length).length;
+
+    rendered.forEach((entry, index) => {
+      if (entry) {
+        // Prefix with the entry index so entries with the same filename do not overwrite each other
+        const filename = `${String(index + 1).padStart(width, '0')}-${safeFilename(entry.filename)}`;
+        entries[index].filename = filename;
+        zip.file(filename, entry.buffer);
+      }
+    });
+    zip.file('manifest.json', JSON.stringify(manifest, null, 2));
+
+    const buffer = await zip.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' });
+    return { buffer, contentType: 'application/zip', filename: 'batch.zip', manifest };
+  }
+
+  const merged = await mergePdfDocuments(succeeded.map(({ buffer, title }) => ({ buffer, title })));
+  const okEntries = entries.filter((entry) => entry.status === 'ok');
+
+  merged.ranges.forEach((range, position) => {
+    okEntries[position].startPage = range.startPage;
+    okEntries[position].pages = range.pageCount;
+  });
+
+  // Attach the manifest to the merged PDF so failed entries are still listed once the response is saved to disk
+  await merged.document.attach(Buffer.from(JSON.stringify(manifest, null, 2)), 'manifest.json', {
+    mimeType: 'application/json',
+    description: 'Batch manifest',
+  });
+
+  const buffer = Buffer.from(await merged.document.save());
+  return { buffer, contentType: 'application/pdf', filename: 'batch.pdf', manifest };
+}
@@ -0,0 +1,225 @@
+import puppeteer, { Browser, LaunchOptions, Page } from 'puppeteer';
+import { envInt } from './env';
+
+export interface BrowserPoolOptions {
+  maxPages?: number;
+  maxConcurrency?: number;
+  maxRendersPerPage?: number;
+  launchOptions?: LaunchOptions;
+}
+
+interface PooledPage {
+  page: Page;
+  renders: number;
+  crashed: boolean;
+}
+
+/**
+ * Keeps a single warm Chromium instance and a bounded set of reusable pages.
+ * Pages are recycled after a number of renders, and a crashed or disconnected
+ * browser is relaunched on the next request.
+ */
+export class BrowserPool {
+  private readonly maxPages: number;
+  private readonly maxConcurrency: number;
+  private readonly maxRendersPerPage: number;
+  private readonly launchOptions: LaunchOptions;
+
+  private browser: Browser | null = null;
+  private launching: Promise<Browser> | null = null;
+  private idle: PooledPage[] = [];
+  private openPages = 0;
+  private active = 0;
+  private waiters: Array<() => void> = [];
+  private closed = false;
+
+  constructor(options: BrowserPoolOptions = {}) {
+    this.maxPages = options.maxPages ?? 4;
+    this.maxConcurrency = Math.min(options.maxConcurrency ?? this.maxPages, this.maxPages);
+    this.maxRendersPerPage = options.maxRendersPerPage ?? 50;
+    this.launchOptions = options.launchOptions ?? {
+      headless: true,
+      args: ['--no-sandbox', '--disable-setuid-sandbox'],
+    };
+  }
+
+  /**
+   * Runs a callback with a page from the pool and returns the page afterwards
+   * @param task Callback that receives a ready-to-use page
+   * @returns Result of the callback
+   */
+  async withPage<T>(task: (page: Page) => Promise<T>): Promise<T> {
+    const pooled = await this.acquire();
+    let failed = false;
+
+    try {
+      return await task(pooled.page);
+    } catch (error) {
+      failed = true;
+      throw error;
+    } finally {
+      await this.release(pooled, failed);
+    }
+  }
+
+  /**
+   * Closes every page and the browser; pending and future requests are rejected
+   */
+  async shutdown(): Promise<void> {
+    this.closed = true;
+
+    // Wake up waiters so they can fail fast
+    const waiters = this.waiters.splice(0);
+    waiters.forEach((wake) => wake());
+
+    const browser = this.browser || (this.launching ? await this.launching.catch(() => null) : null);
+    this.browser = null;
+    this.launching = null;
+    this.idle = [];
+    this.openPages = 0;
+
+    if (browser) {
+      browser.removeAllListeners('disconnected');
+      await browser.close().catch(() => undefined);
+    }
+  }
+
+  /**
+   * Returns current pool usage, useful for health checks
+   */
+  stats() {
+    return {
+      connected: Boolean(this.browser && this.browser.connected),
+      openPages: this.openPages,
+      idlePages: this.idle.length,
+      activeRenders: this.active,
+      queuedRenders: this.waiters.length,
+    };
+  }
+
+  private async acquire(): Promise<PooledPage> {
+    // Wait for a free concurrency slot
+    while (this.active >= this.maxConcurrency && !this.closed) {
+      await new Promise<void>((resolve) => this.waiters.push(resolve));
+    }
+
+    if (this.closed) {
+      throw new Error('Browser pool has been shut down');
+    }
+
+    this.active++;
+
+    try {
+      // Reuse a warm page when one is available
+      while (this.idle.length > 0) {
+        const pooled = this.idle.pop()!;
+        if (!pooled.crashed && !pooled.page.isClosed()) {
+          return pooled;
+        }
+        this.openPages--;
+      }
+
+      const browser = await this.getBrowser();
+      const page = await browser.newPage();
+      const pooled: PooledPage = { page, renders: 0, crashed: false };
+
+      // Mark the page as unusable if its renderer process dies
+      page.once('error', () => {
+        pooled.crashed = true;
+      });
+
+      this.openPages++;
+      return pooled;
+    } catch (error) {
+      this.active--;
+      this.wakeNext();
+      throw error;
+    }
+  }
+
+  private async release(pooled: PooledPage, failed: boolean): Promise<void> {
+    pooled.renders++;
+    this.active--;
+
+    const recycle =
+      this.closed ||
+      failed ||
+      pooled.crashed ||
+      pooled.page.isClosed() ||
+      pooled.renders >= this.maxRendersPerPage ||
+      this.idle.length >= this.maxPages;
+
+    if (recycle) {
+      this.openPages = Math.max(0, this.openPages - 1);
+      await pooled.page.close().catch(() => undefined);
+    } else {
+      this.idle.push(pooled);
+    }
+
+    this.wakeNext();
+  }
+
+  private wakeNext(): void {
+    const next = this.waiters.shift();
+    if (next) {
+      next();
+    }
+  }
+
+  private async getBrowser(): Promise<Browser> {
+    if (this.browser && this.browser.connected) {
+      return this.browser;
+    }
+
+    if (!this.launching) {
+      this.launching = puppeteer
+        .launch(this.launchOptions)
+        .then((browser) => {
+          // Drop all cached pages when Chromium crashes so the next request relaunches it
+          browser.on('disconnected', () => {
+            if (this.browser === browser) {
+              console.error('Browser disconnected, it will be relaunched on the next request');
+              this.browser = null;
+              this.idle = [];
+              this.openPages = 0;
+            }
+          });
+          this.browser = browser;
+          return browser;
+        })
+        .finally(() => {
+          this.launching = null;
+        });
+    }
+
+    return this.launching;
+  }
+}
+
+let sharedPool: BrowserPool | null = null;
+
+/**
+ * Returns the process-wide browser pool, configured from environment variables
+ * @returns Shared BrowserPool instance
+ */
+export function getBrowserPool(): BrowserPool {
+  if (!sharedPool) {
+    sharedPool = new BrowserPool({
+      maxPages: envInt('PDF_POOL_MAX_PAGES', 4),
+      maxConcurrency: envInt('PDF_POOL_MAX_CONCURRENCY', 4),
+      maxRendersPerPage: envInt('PDF_POOL_MAX_RENDERS_PER_PAGE', 50),
+    });
+  }
+  return sharedPool;
+}
+
+/**
+ * Shuts down the shared browser pool if it was ever started
+ */
+export async function shutdownBrowserPool(): Promise<void> {
+  if (sharedPool) {
+    const pool = sharedPool;
+    sharedPool = null;
+    await pool.shutdown();
+  }
+}
@@ -0,0 +1,249 @@
+import { parseArgs } from 'util';
+import type { ImageOptions, OutputFormat, PdfOptions, ThumbnailSize } from './pdfGenerator';
+import type { PdfaLevel } from './pdfa';
+
+/**
+ * Raised when the command line cannot be understood; the CLI prints the usage and exits with status 2
+ */
+export class CliUsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CliUsageError';
+  }
+}
+
+export interface CliCommand {
+  // Built-in template type, `.jsx` template or `.tsx` template module; optional in batch mode
+  template?: string;
+  // JSON props of the document; "-" reads stdin
+  dataPath?: string;
+  // Where the document is written; "-" is stdout
+  output?: string;
+  // JSON file with PdfOptions that the flags are layered over
+  optionsPath?: string;
+  // Options set by flags
+  options: PdfOptions;
+  // Stylesheet appended to the document, read when rendering so watch mode sees changes
+  cssPath?: string;
+  coerce: boolean;
+  watch: boolean;
+  // NDJSON file with one document per line; "-" reads stdin
+  batchPath?: string;
+  outputDir?: string;
+  help: boolean;
+}
+
+export const CLI_USAGE = `Usage: jsx-to-pdf <template> [options]
+       jsx-to-pdf [template] --batch <file.ndjson> [options]
+
+<template> is a built-in template type (e.g. invoice), a .jsx template with a
+Template function, or a .tsx template module like those in src/templates.
+
+Input and output:
+  -d, --data <file>          JSON props of the document, "-" for stdin
+  -o, --output <file>        Output file, "-" for stdout (default: stdout, or
+                             the document's filename when stdout is a terminal)
+      --options <file>       JSON file with document options; flags override it
+      --coerce               Convert numeric and boolean strings in the data
+  -w, --watch                Render again when the template, data or CSS changes
+      --batch <file>         Render one document per NDJSON line, "-" for stdin;
+                             lines are props with <template>, request bodies without
+      --output-dir <dir>     Directory of batch output (default: .)
+
+Document options:
+      --format <size>        A4, Letter or Legal
+      --landscape            Landscape orientation
+      --margin <size>        All margins, e.g. 0.5in; --margin-top, --margin-right,
+                             --margin-bottom and --margin-left set one side
+      --filename <name>      Filename of the document
+      --locale <locale>      Locale of labels and dates, e.g. de-DE
+      --theme <name>         Document theme
+      --var <name=value>     Theme variable, e.g. brandColor=#0a7 or --var=--accent=red;
+                             repeatable
+      --css <file>           Extra stylesheet
+      --header <jsx>         Header repeated on every page
+      --footer <jsx>         Footer repeated on every page
+      --output-format <fmt>  pdf, png, jpeg, webp or html
+      --pages <pages>        Pages of image output: first, all or a list such as 1,3
+      --scale <factor>       Device scale factor of image output
+      --thumbnail <size>     small, medium, large or a width in pixels
+      --quality <0-100>      Quality of jpeg and webp output
+      --title <text>         Document title; also --author, --subject and --keywords a,b
+      --no-outline           Do not add bookmarks for headings
+      --pdfa <level>         PDF/A-2b or PDF/A-3b
+      --user-password <pw>   Password needed to open the PDF
+      --owner-password <pw>  Password that lifts the PDF's permissions
+      --sign                 Sign with the certificate in PDF_SIGNING_CERTIFICATE
+      --sign-reason <text>   Reason recorded in the signature
+  -h, --help                 Show this help`;
+
+const OPTIONS = {
+  data: { type: 'string', short: 'd' },
+  output: { type: 'string', short: 'o' },
+  options: { type: 'string' },
+  coerce: { type: 'boolean' },
+  watch: { type: 'boolean', short: 'w' },
+  batch: { type: 'string' },
+  'output-dir': { type: 'string' },
+  format: { type: 'string' },
+  landscape: { type: 'boolean' },
+  margin: { type: 'string' },
+  'margin-top': { type: 'string' },
+  'margin-right': { type: 'string' },
+  'margin-bottom': { type: 'string' },
+  'margin-left': { type: 'string' },
+  filename: { type: 'string' },
+  locale: { type: 'string' },
+  theme: { type: 'string' },
+  var: { type: 'string', multiple: true },
+  css: { type: 'string' },
+  header: { type: 'string' },
+  footer: { type: 'string' },
+  'output-format': { type: 'string' },
+  pages: { type: 'string' },
+  scale: { type: 'string' },
+  thumbnail: { type: 'string' },
+  quality: { type: 'string' },
+  title: { type: 'string' },
+  author: { type: 'string' },
+  subject: { type: 'string' },
+  keywords: { type: 'string' },
+  'no-outline': { type: 'boolean' },
+  pdfa: { type: 'string' },
+  'user-password': { type: 'string' },
+  'owner-password': { type: 'string' },
+  sign: { type: 'boolean' },
+  'sign-reason': { type: 'string' },
+  help: { type: 'boolean', short: 'h' },
+} as const;
+
+/**
+ * Reads a number flag
+ * @param name Flag name, for the error message
+ * @param value Flag value
+ * @returns The number, or undefined when the flag is not set
+ * @throws CliUsageError when the value is not a number
+ */
+function readNumber(name: string, value: string | undefined): number | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+
+  const number = Number(value);
+  if (value.trim() === '' || !Number.isFinite(number)) {
+    throw new CliUsageError(`--${name} expects a number, got "${value}"`);
+  }
+  return number;
+}
+
+/**
+ * Reads the `--pages` flag of image output
+ * @param value `first`, `all`, a page number or a comma-separated list of page numbers
+ */
+function readPages(value: string | undefined): ImageOptions['pages'] {
+  if (value === undefined || value === 'first' || value === 'all') {
+    return value;
+  }
+
+  const pages = value.split(',').map((page) => readNumber('pages', page)!);
+  return pages.length === 1 ? pages[0] : pages;
+}
+
+/**
+ * Drops the fields that were not set, so flags only override what they mention
+ */
+function definedFields<T extends object>(fields: T): T | undefined {
+  const defined = Object.fromEntries(Object.entries(fields).filter(([, value]) => value !== undefined));
+  return Object.keys(defined).length > 0 ? (defined as T) : undefined;
+}
+
+/**
+ * Parses the arguments of the `jsx-to-pdf` command. Option values are mapped
+ * onto PdfOptions but not validated; rendering validates them like the API does.
+ * @param argv Arguments after the script name
+ * @returns What to render and how
+ * @throws CliUsageError when a flag is unknown, misses its value or has an invalid number
+ */
+export function parseCliArgs(argv: string[]): CliCommand {
+  let parsed;
+  try {
+    parsed = parseArgs({ args: argv, options: OPTIONS, allowPositionals: true, strict: true });
+  } catch (error) {
+    throw new CliUsageError((error as Error).message);
+  }
+
+  const { values, positionals } = parsed;
+  if (positionals.length > 1) {
+    throw new CliUsageError(`Expected one template, got ${positionals.join(', ')}`);
+  }
+
+  const variables: Record<string, string> = {};
+  for (const assignment of values.var || []) {
+    const separator = assignment.indexOf('=');
+    if (separator <= 0) {
+      throw new CliUsageError(`--var expects name=value, got "${assignment}"`);
+    }
+    variables[assignment.slice(0, separator)] = assignment.slice(separator + 1);
+  }
+
+  const margin = definedFields({
+    top: values['margin-top'] ?? values.margin,
+    right: values['margin-right'] ?? values.margin,
+    bottom: values['margin-bottom'] ?? values.margin,
+    left: values['margin-left'] ?? values.margin,
+  });
+  const { thumbnail } = values;
+  const isPreset = thumbnail !== undefined && /^[a-z]+$/.test(thumbnail);
+  const image = definedFields<ImageOptions>({
+    pages: readPages(values.pages),
+    scale: readNumber('scale', values.scale),
+    // Presets are passed on as they are, so an unknown preset is reported by the option validation
+    thumbnail: isPreset ? (thumbnail as ThumbnailSize) : readNumber('thumbnail', thumbnail),
+    quality: readNumber('quality', values.quality),
+  });
+  const metadata = definedFields({
+    title: values.title,
+    author: values.author,
+    subject: values.subject,
+    keywords: values.keywords?.split(',').map((keyword) => keyword.trim()),
+  });
+  const encryption = definedFields({
+    userPassword: values['user-password'],
+    ownerPassword: values['owner-password'],
+  });
+  const signed = values.sign || values['sign-reason'] !== undefined;
+  const signature = signed ? definedFields({ reason: values['sign-reason'] }) || {} : undefined;
+
+  const options = definedFields<PdfOptions>({
+    format: values.format as PdfOptions['format'],
+    landscape: values.landscape,
+    margin,
+    filename: values.filename,
+    locale: values.locale,
+    theme: values.theme,
+    variables: Object.keys(variables).length > 0 ? variables : undefined,
+    header: values.header,
+    footer: values.footer,
+    outputFormat: values['output-format'] as OutputFormat | undefined,
+    image,
+    metadata,
+    outline: values['no-outline'] ? false : undefined,
+    pdfa: values.pdfa as PdfaLevel | undefined,
+    encryption,
+    signature,
+  });
+
+  return {
+    template: positionals[0],
+    dataPath: values.data,
+    output: values.output,
+    optionsPath: values.options,
+    options: options || {},
+    cssPath: values.css,
+    coerce: Boolean(values.coerce),
+    watch: Boolean(values.watch),
+    batchPath: values.batch,
+    outputDir: values['output-dir'],
+    help: Boolean(values.help),
+  };
+}
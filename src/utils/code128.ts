@@ -0,0 +1,50 @@
+// Bar and space widths of each Code 128 symbol, in modules; the last entry is the stop pattern
+const PATTERNS = [
+  '212222', '222122', '222221', '121223', '121322', '131222', '122213', '122312', '132212', '221213',
+  '221312', '231212', '112232', '122132', '122231', '113222', '123122', '123221', '223211', '221132',
+  '221231', '213212', '223112', '312131', '311222', '321122', '321221', '312212', '322112', '322211',
+  '212123', '212321', '232121', '111323', '131123', '131321', '112313', '132113', '132311', '211313',
+  '231113', '231311', '112133', '112331', '132131', '113123', '113321', '133121', '313121', '211331',
+  '231131', '213113', '213311', '213131', '311123', '311321', '331121', '312113', '312311', '332111',
+  '314111', '221411', '431111', '111224', '111422', '121124', '121421', '141122', '141221', '112214',
+  '112412', '122114', '122411', '142112', '142211', '241211', '221114', '413111', '241112', '134111',
+  '111242', '121142', '121241', '114212', '124112', '124211', '411212', '421112', '421211', '212141',
+  '214121', '412121', '111143', '111341', '131141', '114113', '114311', '411113', '411311', '113141',
+  '114131', '311141', '411131', '211412', '211214', '211232', '2331112',
+];
+
+const START_B = 104;
+const START_C = 105;
+const STOP = 106;
+
+/**
+ * Encodes text as a Code 128 barcode. Text made only of digits, an even
+ * number of them, uses the compact code set C; all other text uses code set B.
+ * Code sets are not switched within a barcode.
+ * @param text Printable ASCII text
+ * @returns Widths of the alternating bars and spaces, starting with a bar, in modules
+ */
+export function encodeCode128(text: string): number[] {
+  if (!text) {
+    throw new RangeError('Code 128 barcodes need at least one character');
+  }
+
+  let values: number[];
+  if (/^(\d\d)+$/.test(text)) {
+    values = [START_C, ...(text.match(/\d\d/g) || []).map(Number)];
+  } else {
+    values = [START_B];
+    for (const char of text) {
+      const code = char.charCodeAt(0);
+      if (char.length > 1 || code < 32 || code > 126) {
+        throw new RangeError('Code 128 barcodes only support printable ASCII characters');
+      }
+      values.push(code - 32);
+    }
+  }
+
+  const checksum = values.reduce((sum, value, index) => sum + value * Math.max(index, 1), 0) % 103;
+  values.push(checksum, STOP);
+
+  return values.flatMap((value) => PATTERNS[value].split('').map(Number));
+}
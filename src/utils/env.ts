@@ -0,0 +1,10 @@
+/**
+ * Reads a positive integer from an environment variable
+ * @param name Name of the environment variable
+ * @param fallback Value used when the variable is missing or invalid
+ * @returns Parsed integer
+ */
+export function envInt(name: string, fallback: number): number {
+  const value = parseInt(process.env[name] || '', 10);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+}
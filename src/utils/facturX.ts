@@ -0,0 +1,339 @@
+import { calculateInvoiceTotals, currencyDigits, InvoiceLineInput, InvoiceTotalsInput } from './invoiceTotals';
+import type { PdfAttachment } from './pdfa';
+import { escapeXml } from './pdfMetadata';
+
+export interface FacturXLine extends InvoiceLineInput {
+  description: string;
+}
+
+/**
+ * Invoice data for the machine-readable XML, as accepted by the invoice template
+ */
+export interface FacturXInvoice extends InvoiceTotalsInput {
+  invoiceNumber: string;
+  date: string;
+  dueDate: string;
+  items: FacturXLine[];
+  customerName: string;
+  customerAddress?: string;
+  // ISO 3166-1 alpha-2 country codes
+  customerCountry?: string;
+  companyName: string;
+  companyAddress?: string;
+  companyCountry?: string;
+  companyEmail?: string;
+  // VAT identification number of the seller, e.g. "DE123456789"
+  companyVatId?: string;
+  notes?: string;
+}
+
+// Name the Factur-X and ZUGFeRD specifications require for the embedded invoice
+export const FACTUR_X_FILENAME = 'factur-x.xml';
+
+const FACTUR_X_NAMESPACE = 'urn:factur-x:pdfa:CrossIndustryDocument:invoice:1p0#';
+const BASIC_GUIDELINE = 'urn:cen.eu:en16931:2017#compliant#urn:factur-x.eu:1p0:basic';
+
+// UNCL 5305 tax categories: standard rate, zero rated and exempt
+type TaxCategory = 'S' | 'Z' | 'E';
+
+interface TaxGroup {
+  category: TaxCategory;
+  rate: number;
+  // Net amounts of the lines and shipping in the group, in minor units
+  members: number[];
+  basis: number;
+  tax: number;
+}
+
+/**
+ * Formats a date as a UN/CEFACT format 102 date (YYYYMMDD)
+ */
+function formatDate(value: string): string {
+  const calendarDate = /^(\d{4})-(\d{2})-(\d{2})/.exec(value);
+  if (calendarDate) {
+    return `${calendarDate[1]}${calendarDate[2]}${calendarDate[3]}`;
+  }
+
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? value.replace(/\D/g, '') : date.toISOString().slice(0, 10).replace(/-/g, '');
+}
+
+/**
+ * Splits a postal address into at most three lines
+ */
+function addressLines(address: string | undefined): string[] {
+  const lines = (address || '')
+    .split(/\n|,/)
+    .map((line) => line.trim())
+    .filter(Boolean);
+  return lines.length > 3 ? [...lines.slice(0, 2), lines.slice(2).join(', ')] : lines;
+}
+
+/**
+ * Builds a CII trade party element
+ */
+function tradeParty(
+  element: string,
+  name: string,
+  address: string | undefined,
+  country: string | undefined,
+  extra: string[] = []
+): string[] {
+  const [lineOne, lineTwo, lineThree] = addressLines(address);
+  const postalAddress = [
+    lineOne && `<ram:LineOne>${escapeXml(lineOne)}</ram:LineOne>`,
+    lineTwo && `<ram:LineTwo>${escapeXml(lineTwo)}</ram:LineTwo>`,
+    lineThree && `<ram:LineThree>${escapeXml(lineThree)}</ram:LineThree>`,
+    country && `<ram:CountryID>${escapeXml(country.toUpperCase())}</ram:CountryID>`,
+  ].filter(Boolean) as string[];
+
+  return [
+    `<ram:${element}>`,
+    `<ram:Name>${escapeXml(name)}</ram:Name>`,
+    ...(postalAddress.length > 0 ? ['<ram:PostalTradeAddress>', ...postalAddress, '</ram:PostalTradeAddress>'] : []),
+    ...extra,
+    `</ram:${element}>`,
+  ];
+}
+
+/**
+ * Builds a Factur-X (ZUGFeRD 2) invoice in the BASIC profile: a UN/CEFACT
+ * Cross Industry Invoice with the lines, taxes and totals of the invoice.
+ * Amounts are computed with the same rounding as the printed invoice. When
+ * prices include tax, the net amount of each tax rate is spread over its lines
+ * so the lines add up to the printed totals.
+ * @param invoice Invoice data
+ * @returns Invoice XML
+ */
+export function buildFacturXml(invoice: FacturXInvoice): string {
+  const totals = calculateInvoiceTotals(invoice);
+  const digits = currencyDigits(totals.currency);
+  const factor = 10 ** digits;
+  const toMinor = (amount: number) => Math.round(amount * factor);
+  const money = (minor: number) => (minor / factor).toFixed(digits);
+  const decimal = (value: number) => String(Number(value.toFixed(4)));
+
+  // Lines and shipping are grouped by tax category and rate
+  const groups = new Map<string, TaxGroup>();
+  const groupOf = (category: TaxCategory, rate: number): TaxGroup => {
+    const key = `${category}:${rate}`;
+    if (!groups.has(key)) {
+      const taxLine = category === 'S' ? totals.taxes.find((tax) => tax.rate === rate) : undefined;
+      groups.set(key, {
+        category,
+        rate,
+        members: [],
+        basis: toMinor(taxLine?.taxable ?? 0),
+        tax: toMinor(taxLine?.tax ?? 0),
+      });
+    }
+    return groups.get(key)!;
+  };
+  const categoryOf = (exempt: boolean, rate: number): TaxCategory => (exempt ? 'E' : rate === 0 ? 'Z' : 'S');
+
+  const lineGroups = totals.lines.map((line) => groupOf(categoryOf(line.taxExempt, line.taxRate), line.taxRate));
+  const lineAmounts = totals.lines.map((line) => toMinor(line.amount));
+  const shipping = toMinor(totals.shipping);
+  const shippingRate = invoice.shippingTaxRate ?? 0;
+  const shippingGroup =
+    shipping !== 0 ? groupOf(categoryOf(invoice.shippingTaxRate === undefined, shippingRate), shippingRate) : null;
+
+  // Net amounts as printed; with inclusive prices the tax is taken out below
+  const lineNets = [...lineAmounts];
+  let shippingNet = shipping;
+
+  if (totals.pricesIncludeTax) {
+    groups.forEach((group) => {
+      if (group.category !== 'S') {
+        return;
+      }
+
+      // Spread the group's net amount over its members in proportion to their printed amounts
+      const members = [
+        ...lineGroups.map((lineGroup, index) => (lineGroup === group ? index : -1)).filter((index) => index !== -1),
+        ...(shippingGroup === group ? [-1] : []),
+      ];
+      const gross = members.reduce((sum, index) => sum + (index === -1 ? shipping : lineAmounts[index]), 0);
+      let remaining = group.basis;
+
+      members.forEach((index, position) => {
+        const amount = index === -1 ? shipping : lineAmounts[index];
+        const net = position === members.length - 1 ? remaining : Math.round((amount * group.basis) / (gross || 1));
+        remaining -= net;
+        if (index === -1) {
+          shippingNet = net;
+        } else {
+          lineNets[index] = net;
+        }
+      });
+    });
+  }
+
+  // Zero-rated and exempt groups have no tax, so their basis is the sum of their members
+  lineGroups.forEach((group, index) => group.members.push(lineNets[index]));
+  shippingGroup?.members.push(shippingNet);
+  groups.forEach((group) => {
+    if (group.category !== 'S') {
+      group.basis = group.members.reduce((sum, amount) => sum + amount, 0);
+    }
+  });
+
+  const currency = escapeXml(totals.currency);
+  const taxElements = (group: TaxGroup, withAmounts: boolean) => [
+    withAmounts ? `<ram:CalculatedAmount>${money(group.tax)}</ram:CalculatedAmount>` : '',
+    '<ram:TypeCode>VAT</ram:TypeCode>',
+    group.category === 'E' ? '<ram:ExemptionReason>Exempt from tax</ram:ExemptionReason>' : '',
+    withAmounts ? `<ram:BasisAmount>${money(group.basis)}</ram:BasisAmount>` : '',
+    `<ram:CategoryCode>${group.category}</ram:CategoryCode>`,
+    `<ram:RateApplicablePercent>${decimal(group.rate)}</ram:RateApplicablePercent>`,
+  ];
+
+  const lineItems = invoice.items.flatMap((item, index) => {
+    const line = totals.lines[index];
+    const inclusive = totals.pricesIncludeTax && lineGroups[index].category === 'S';
+    // Inclusive prices are converted to a net price; the discount is already part of the net amount then
+    const netPrice = inclusive ? lineNets[index] / factor / (item.quantity || 1) : item.unitPrice;
+    const discount = inclusive ? 0 : toMinor(line.discount);
+
+    return [
+      '<ram:IncludedSupplyChainTradeLineItem>',
+      `<ram:AssociatedDocumentLineDocument><ram:LineID>${index + 1}</ram:LineID></ram:AssociatedDocumentLineDocument>`,
+      `<ram:SpecifiedTradeProduct><ram:Name>${escapeXml(item.description)}</ram:Name></ram:SpecifiedTradeProduct>`,
+      '<ram:SpecifiedLineTradeAgreement>',
+      '<ram:NetPriceProductTradePrice>',
+      `<ram:ChargeAmount>${decimal(netPrice)}</ram:ChargeAmount>`,
+      '</ram:NetPriceProductTradePrice>',
+      '</ram:SpecifiedLineTradeAgreement>',
+      '<ram:SpecifiedLineTradeDelivery>',
+      `<ram:BilledQuantity unitCode="C62">${decimal(item.quantity)}</ram:BilledQuantity>`,
+      '</ram:SpecifiedLineTradeDelivery>',
+      '<ram:SpecifiedLineTradeSettlement>',
+      '<ram:ApplicableTradeTax>',
+      ...taxElements(lineGroups[index], false),
+      '</ram:ApplicableTradeTax>',
+      ...(discount !== 0
+        ? [
+            '<ram:SpecifiedTradeAllowanceCharge>',
+            '<ram:ChargeIndicator><udt:Indicator>false</udt:Indicator></ram:ChargeIndicator>',
+            `<ram:ActualAmount>${money(discount)}</ram:ActualAmount>`,
+            '<ram:Reason>Discount</ram:Reason>',
+            '</ram:SpecifiedTradeAllowanceCharge>',
+          ]
+        : []),
+      '<ram:SpecifiedTradeSettlementLineMonetarySummation>',
+      `<ram:LineTotalAmount>${money(lineNets[index])}</ram:LineTotalAmount>`,
+      '</ram:SpecifiedTradeSettlementLineMonetarySummation>',
+      '</ram:SpecifiedLineTradeSettlement>',
+      '</ram:IncludedSupplyChainTradeLineItem>',
+    ];
+  });
+
+  const lineTotal = lineNets.reduce((sum, amount) => sum + amount, 0);
+  const taxBasis = lineTotal + shippingNet;
+  const taxTotal = Array.from(groups.values()).reduce((sum, group) => sum + group.tax, 0);
+  const grandTotal = taxBasis + taxTotal;
+
+  const sellerExtra = [
+    invoice.companyEmail &&
+      `<ram:URIUniversalCommunication><ram:URIID schemeID="EM">${escapeXml(invoice.companyEmail)}</ram:URIID>` +
+        '</ram:URIUniversalCommunication>',
+    invoice.companyVatId &&
+      `<ram:SpecifiedTaxRegistration><ram:ID schemeID="VA">${escapeXml(invoice.companyVatId)}</ram:ID>` +
+        '</ram:SpecifiedTaxRegistration>',
+  ].filter(Boolean) as string[];
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<rsm:CrossIndustryInvoice' +
+      ' xmlns:rsm="urn:un:unece:uncefact:data:standard:CrossIndustryInvoice:100"' +
+      ' xmlns:ram="urn:un:unece:uncefact:data:standard:ReusableAggregateBusinessInformationEntity:100"' +
+      ' xmlns:udt="urn:un:unece:uncefact:data:standard:UnqualifiedDataType:100"' +
+      ' xmlns:qdt="urn:un:unece:uncefact:data:standard:QualifiedDataType:100">',
+    '<rsm:ExchangedDocumentContext>',
+    '<ram:GuidelineSpecifiedDocumentContextParameter>',
+    `<ram:ID>${BASIC_GUIDELINE}</ram:ID>`,
+    '</ram:GuidelineSpecifiedDocumentContextParameter>',
+    '</rsm:ExchangedDocumentContext>',
+    '<rsm:ExchangedDocument>',
+    `<ram:ID>${escapeXml(invoice.invoiceNumber)}</ram:ID>`,
+    // 380: commercial invoice
+    '<ram:TypeCode>380</ram:TypeCode>',
+    '<ram:IssueDateTime>',
+    `<udt:DateTimeString format="102">${formatDate(invoice.date)}</udt:DateTimeString>`,
+    '</ram:IssueDateTime>',
+    invoice.notes && `<ram:IncludedNote><ram:Content>${escapeXml(invoice.notes)}</ram:Content></ram:IncludedNote>`,
+    '</rsm:ExchangedDocument>',
+    '<rsm:SupplyChainTradeTransaction>',
+    ...lineItems,
+    '<ram:ApplicableHeaderTradeAgreement>',
+    ...tradeParty('SellerTradeParty', invoice.companyName, invoice.companyAddress, invoice.companyCountry, sellerExtra),
+    ...tradeParty('BuyerTradeParty', invoice.customerName, invoice.customerAddress, invoice.customerCountry),
+    '</ram:ApplicableHeaderTradeAgreement>',
+    '<ram:ApplicableHeaderTradeDelivery/>',
+    '<ram:ApplicableHeaderTradeSettlement>',
+    `<ram:InvoiceCurrencyCode>${currency}</ram:InvoiceCurrencyCode>`,
+    ...Array.from(groups.values()).flatMap((group) => [
+      '<ram:ApplicableTradeTax>',
+      ...taxElements(group, true),
+      '</ram:ApplicableTradeTax>',
+    ]),
+    ...(shippingGroup
+      ? [
+          '<ram:SpecifiedTradeAllowanceCharge>',
+          '<ram:ChargeIndicator><udt:Indicator>true</udt:Indicator></ram:ChargeIndicator>',
+          `<ram:ActualAmount>${money(shippingNet)}</ram:ActualAmount>`,
+          '<ram:Reason>Shipping</ram:Reason>',
+          '<ram:CategoryTradeTax>',
+          ...taxElements(shippingGroup, false),
+          '</ram:CategoryTradeTax>',
+          '</ram:SpecifiedTradeAllowanceCharge>',
+        ]
+      : []),
+    '<ram:SpecifiedTradePaymentTerms>',
+    '<ram:DueDateDateTime>',
+    `<udt:DateTimeString format="102">${formatDate(invoice.dueDate)}</udt:DateTimeString>`,
+    '</ram:DueDateDateTime>',
+    '</ram:SpecifiedTradePaymentTerms>',
+    '<ram:SpecifiedTradeSettlementHeaderMonetarySummation>',
+    `<ram:LineTotalAmount>${money(lineTotal)}</ram:LineTotalAmount>`,
+    ...(shippingGroup ? [`<ram:ChargeTotalAmount>${money(shippingNet)}</ram:ChargeTotalAmount>`] : []),
+    `<ram:TaxBasisTotalAmount>${money(taxBasis)}</ram:TaxBasisTotalAmount>`,
+    `<ram:TaxTotalAmount currencyID="${currency}">${money(taxTotal)}</ram:TaxTotalAmount>`,
+    `<ram:GrandTotalAmount>${money(grandTotal)}</ram:GrandTotalAmount>`,
+    `<ram:DuePayableAmount>${money(grandTotal)}</ram:DuePayableAmount>`,
+    '</ram:SpecifiedTradeSettlementHeaderMonetarySummation>',
+    '</ram:ApplicableHeaderTradeSettlement>',
+    '</rsm:SupplyChainTradeTransaction>',
+    '</rsm:CrossIndustryInvoice>',
+  ]
+    .filter(Boolean)
+    .join('\n');
+}
+
+/**
+ * Builds the Factur-X attachment of an invoice, with the XMP properties that
+ * identify the PDF as a Factur-X invoice
+ * @param invoice Invoice data
+ * @returns Attachment for PDF/A-3 documents
+ */
+export function buildFacturXAttachment(invoice: FacturXInvoice): PdfAttachment {
+  return {
+    filename: FACTUR_X_FILENAME,
+    content: buildFacturXml(invoice),
+    mimeType: 'text/xml',
+    description: 'Factur-X invoice',
+    // The XML carries the same invoice as the printed pages
+    relationship: 'Alternative',
+    xmp: {
+      namespace: FACTUR_X_NAMESPACE,
+      prefix: 'fx',
+      name: 'Factur-X PDFA Extension Schema',
+      properties: [
+        { name: 'DocumentType', value: 'INVOICE', description: 'The type of the hybrid document' },
+        { name: 'DocumentFileName', value: FACTUR_X_FILENAME, description: 'The name of the embedded XML document' },
+        { name: 'Version', value: '1.0', description: 'The version of the Factur-X XML schema' },
+        { name: 'ConformanceLevel', value: 'BASIC', description: 'The conformance level of the embedded XML document' },
+      ],
+    },
+  };
+}
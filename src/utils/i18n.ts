@@ -0,0 +1,100 @@
+import fs from 'fs';
+import path from 'path';
+import React, { ReactElement } from 'react';
+import { createTranslator, DEFAULT_LOCALE, I18nContext, MessageCatalog, Translator } from './translator';
+
+const localesDir = process.env.PDF_LOCALES_DIR || path.join(__dirname, '..', 'locales');
+const catalogs = new Map<string, MessageCatalog>();
+let loaded = false;
+
+/**
+ * Registers a message catalog, merging it into any catalog already registered for the locale
+ * @param locale Locale of the messages, e.g. "de" or "de-AT"
+ * @param messages Messages keyed by message key
+ */
+export function registerMessages(locale: string, messages: MessageCatalog): void {
+  const key = locale.toLowerCase();
+  catalogs.set(key, { ...catalogs.get(key), ...messages });
+}
+
+/**
+ * Loads every `.json` file in a directory as the catalog of the locale it is named after
+ * @param dir Directory to scan, defaults to `src/locales` or `PDF_LOCALES_DIR`
+ */
+export function loadLocales(dir: string = localesDir): void {
+  loaded = true;
+
+  fs.readdirSync(dir)
+    .filter((file) => file.endsWith('.json'))
+    .sort()
+    .forEach((file) => {
+      registerMessages(path.basename(file, '.json'), JSON.parse(fs.readFileSync(path.join(dir, file), 'utf8')));
+    });
+}
+
+/**
+ * Loads the locale directory the first time catalogs are used, when it was not loaded at startup
+ */
+function ensureLoaded(): void {
+  if (!loaded) {
+    loadLocales();
+  }
+}
+
+/**
+ * Lists the locales that have a message catalog
+ * @returns Locales in alphabetical order
+ */
+export function listLocales(): string[] {
+  ensureLoaded();
+  return Array.from(catalogs.keys()).sort();
+}
+
+/**
+ * Checks that a string is a well-formed BCP 47 locale
+ * @param locale Locale to check
+ * @returns Whether the locale can be used for formatting
+ */
+export function isValidLocale(locale: unknown): locale is string {
+  try {
+    return typeof locale === 'string' && Intl.getCanonicalLocales(locale).length === 1;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Returns the catalogs used for a locale, most specific first: "de-AT" looks
+ * in "de-AT", then "de", then English
+ * @param locale Requested locale
+ * @returns Message catalogs in lookup order
+ */
+export function getMessageCatalogs(locale: string = DEFAULT_LOCALE): MessageCatalog[] {
+  ensureLoaded();
+
+  const parts = locale.toLowerCase().split('-');
+  const chain = parts.map((_, index) => parts.slice(0, parts.length - index).join('-'));
+
+  return [...new Set([...chain, DEFAULT_LOCALE])]
+    .map((candidate) => catalogs.get(candidate))
+    .filter((catalog): catalog is MessageCatalog => Boolean(catalog));
+}
+
+/**
+ * Creates a translator for a locale, falling back to English for missing messages
+ * @param locale Requested locale, defaults to English
+ * @returns Translator bound to the locale
+ */
+export function getTranslator(locale: string = DEFAULT_LOCALE): Translator {
+  return createTranslator(locale, getMessageCatalogs(locale));
+}
+
+/**
+ * Wraps a template element so `useTranslation` inside it uses the given locale
+ * @param element Template element
+ * @param locale Document locale
+ * @returns Element rendered with the locale's translator
+ */
+export function withLocale(element: ReactElement, locale: string = DEFAULT_LOCALE): ReactElement {
+  return React.createElement(I18nContext.Provider, { value: getTranslator(locale) }, element);
+}
@@ -0,0 +1,124 @@
+// sRGB primaries and white point adapted to D50, the illuminant of the ICC profile connection space
+const D50_WHITE: [number, number, number] = [0.9642, 1.0, 0.8249];
+const RED: [number, number, number] = [0.4361, 0.2225, 0.0139];
+const GREEN: [number, number, number] = [0.3851, 0.7169, 0.0971];
+const BLUE: [number, number, number] = [0.1431, 0.0606, 0.7141];
+
+// Entries of the tone curve table; enough for 8-bit colour
+const CURVE_POINTS = 1024;
+
+export const SRGB_PROFILE_DESCRIPTION = 'sRGB IEC61966-2.1';
+
+let cachedProfile: Buffer | null = null;
+
+/**
+ * Encodes a number as an ICC s15Fixed16Number
+ */
+function s15Fixed16(value: number): Buffer {
+  const buffer = Buffer.alloc(4);
+  buffer.writeInt32BE(Math.round(value * 65536));
+  return buffer;
+}
+
+/**
+ * Builds an XYZType tag
+ */
+function xyzTag(xyz: [number, number, number]): Buffer {
+  return Buffer.concat([Buffer.from('XYZ '), Buffer.alloc(4), ...xyz.map(s15Fixed16)]);
+}
+
+/**
+ * Builds a textDescriptionType tag with an ASCII description and empty Unicode and ScriptCode parts
+ */
+function descriptionTag(text: string): Buffer {
+  const count = Buffer.alloc(4);
+  count.writeUInt32BE(text.length + 1);
+  const ascii = Buffer.from(`${text}\0`, 'ascii');
+  return Buffer.concat([Buffer.from('desc'), Buffer.alloc(4), count, ascii, Buffer.alloc(78)]);
+}
+
+/**
+ * Builds a textType tag
+ */
+function textTag(text: string): Buffer {
+  return Buffer.concat([Buffer.from('text'), Buffer.alloc(4), Buffer.from(`${text}\0`, 'ascii')]);
+}
+
+/**
+ * Builds a curveType tag sampling the sRGB transfer function
+ */
+function srgbCurveTag(): Buffer {
+  const curve = Buffer.alloc(12 + CURVE_POINTS * 2);
+  curve.write('curv', 0, 'ascii');
+  curve.writeUInt32BE(CURVE_POINTS, 8);
+
+  for (let index = 0; index < CURVE_POINTS; index++) {
+    const encoded = index / (CURVE_POINTS - 1);
+    const linear = encoded <= 0.04045 ? encoded / 12.92 : Math.pow((encoded + 0.055) / 1.055, 2.4);
+    curve.writeUInt16BE(Math.round(linear * 65535), 12 + index * 2);
+  }
+
+  return curve;
+}
+
+/**
+ * Builds an ICC version 2 display profile for sRGB, used as the output intent
+ * of PDF/A documents. Chromium draws in sRGB, so its colours are described
+ * exactly by this profile.
+ * @returns ICC profile bytes
+ */
+export function buildSrgbIccProfile(): Buffer {
+  if (cachedProfile) {
+    return cachedProfile;
+  }
+
+  const curve = srgbCurveTag();
+  const tags: Array<[string, Buffer]> = [
+    ['desc', descriptionTag(SRGB_PROFILE_DESCRIPTION)],
+    ['cprt', textTag('No copyright, use freely')],
+    ['wtpt', xyzTag(D50_WHITE)],
+    ['rXYZ', xyzTag(RED)],
+    ['gXYZ', xyzTag(GREEN)],
+    ['bXYZ', xyzTag(BLUE)],
+    ['rTRC', curve],
+    ['gTRC', curve],
+    ['bTRC', curve],
+  ];
+
+  // Tag data follows the header and tag table, each entry aligned to four bytes; the curves share one entry
+  const tableSize = 4 + tags.length * 12;
+  const table = Buffer.alloc(tableSize);
+  const data: Buffer[] = [];
+  const offsets = new Map<Buffer, number>();
+  let offset = 128 + tableSize;
+
+  table.writeUInt32BE(tags.length, 0);
+  tags.forEach(([signature, tag], index) => {
+    if (!offsets.has(tag)) {
+      const padded = Buffer.concat([tag, Buffer.alloc((4 - (tag.length % 4)) % 4)]);
+      offsets.set(tag, offset);
+      data.push(padded);
+      offset += padded.length;
+    }
+
+    table.write(signature, 4 + index * 12, 'ascii');
+    table.writeUInt32BE(offsets.get(tag)!, 8 + index * 12);
+    table.writeUInt32BE(tag.length, 12 + index * 12);
+  });
+
+  const header = Buffer.alloc(128);
+  header.writeUInt32BE(offset, 0);
+  header.writeUInt32BE(0x02100000, 8);
+  header.write('mntr', 12, 'ascii');
+  header.write('RGB ', 16, 'ascii');
+  header.write('XYZ ', 20, 'ascii');
+  // Creation date: 2024-01-01 00:00:00
+  [2024, 1, 1, 0, 0, 0].forEach((value, index) => header.writeUInt16BE(value, 24 + index * 2));
+  header.write('acsp', 36, 'ascii');
+  s15Fixed16(D50_WHITE[0]).copy(header, 68);
+  s15Fixed16(D50_WHITE[1]).copy(header, 72);
+  s15Fixed16(D50_WHITE[2]).copy(header, 76);
+
+  cachedProfile = Buffer.concat([header, table, ...data]);
+  return cachedProfile;
+}
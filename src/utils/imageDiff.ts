@@ -0,0 +1,39 @@
+import pixelmatch from 'pixelmatch';
+import { PNG } from 'pngjs';
+
+export interface ImageComparison {
+  // Pixels whose colour differs by more than the threshold; anti-aliasing is not counted
+  differentPixels: number;
+  // Share of the image's pixels that differ, from 0 to 1
+  difference: number;
+  // PNG of the baseline with the differences in red; missing when the sizes differ
+  diff?: Buffer;
+  // Set when the images cannot be compared pixel by pixel
+  sizeMismatch?: string;
+}
+
+/**
+ * Compares a rendered page with its baseline
+ * @param actual PNG that was just rendered
+ * @param baseline PNG it should look like
+ * @param threshold Colour distance from 0 to 1 below which pixels count as equal
+ * @returns How many pixels differ, and an image showing where
+ */
+export function comparePngs(actual: Buffer, baseline: Buffer, threshold = 0.1): ImageComparison {
+  const actualImage = PNG.sync.read(actual);
+  const baselineImage = PNG.sync.read(baseline);
+  const { width, height } = baselineImage;
+
+  if (actualImage.width !== width || actualImage.height !== height) {
+    return {
+      differentPixels: width * height,
+      difference: 1,
+      sizeMismatch: `expected ${width}x${height} pixels, got ${actualImage.width}x${actualImage.height}`,
+    };
+  }
+
+  const diff = new PNG({ width, height });
+  const differentPixels = pixelmatch(actualImage.data, baselineImage.data, diff.data, width, height, { threshold });
+
+  return { differentPixels, difference: differentPixels / (width * height), diff: PNG.sync.write(diff) };
+}
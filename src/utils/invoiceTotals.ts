@@ -0,0 +1,208 @@
+export interface InvoiceLineInput {
+  quantity: number;
+  unitPrice: number;
+  // Percentage, e.g. 19 for 19%; defaults to the invoice tax rate
+  taxRate?: number;
+  taxExempt?: boolean;
+  // Percentage of the line amount taken off
+  discountPercent?: number;
+  // Fixed amount taken off the line, applied after the percentage
+  discountAmount?: number;
+}
+
+export interface InvoiceTotalsInput {
+  items: InvoiceLineInput[];
+  currency?: string;
+  locale?: string;
+  // Default tax rate (percentage) for items without their own rate
+  taxRate?: number;
+  // Whether unit prices and shipping already include tax
+  pricesIncludeTax?: boolean;
+  shipping?: number;
+  // Tax rate applied to shipping; shipping is untaxed when omitted
+  shippingTaxRate?: number;
+}
+
+export interface InvoiceLineTotals {
+  // Quantity times unit price, before discounts
+  gross: number;
+  discount: number;
+  // Line amount after discounts, as printed on the invoice (tax included when prices include tax)
+  amount: number;
+  taxRate: number;
+  taxExempt: boolean;
+}
+
+export interface TaxLine {
+  rate: number;
+  // Amount the rate applies to, excluding tax
+  taxable: number;
+  tax: number;
+}
+
+export interface InvoiceTotals {
+  currency: string;
+  pricesIncludeTax: boolean;
+  lines: InvoiceLineTotals[];
+  // Sum of line amounts after discounts, as printed (tax included when prices include tax)
+  subtotal: number;
+  discount: number;
+  shipping: number;
+  taxes: TaxLine[];
+  // Amount exempt from tax
+  exempt: number;
+  taxTotal: number;
+  total: number;
+}
+
+// Decimal places kept for quantities, prices and rates before rounding to the currency
+const SCALE = 6;
+// Largest quantity, price or amount accepted by invoice schemas. Larger numbers lose their
+// decimals, and from 1e21 on they are printed in exponent notation, which toScaled cannot read.
+export const MAX_INVOICE_AMOUNT = 1e12;
+const SCALE_FACTOR = BigInt(10 ** SCALE);
+
+/**
+ * Converts a number to a fixed-point integer with SCALE decimal places, going
+ * through its decimal representation so 0.1 stays exactly 0.1
+ * @param value Number to convert
+ * @returns Scaled integer
+ */
+function toScaled(value: number): bigint {
+  const [integer, fraction] = Math.abs(value).toFixed(SCALE).split('.');
+  const scaled = BigInt(integer + fraction);
+  return value < 0 ? -scaled : scaled;
+}
+
+/**
+ * Divides two integers, rounding half away from zero
+ * @param dividend Integer to divide
+ * @param divisor Integer to divide by
+ * @returns Rounded quotient
+ */
+function divideRounded(dividend: bigint, divisor: bigint): bigint {
+  const negative = dividend < 0n !== divisor < 0n;
+  const a = dividend < 0n ? -dividend : dividend;
+  const b = divisor < 0n ? -divisor : divisor;
+  const quotient = (a * 2n + b) / (b * 2n);
+  return negative ? -quotient : quotient;
+}
+
+/**
+ * Returns the number of minor units of a currency, e.g. 2 for EUR and 0 for JPY
+ * @param currency ISO 4217 currency code
+ * @returns Number of decimal places
+ */
+export function currencyDigits(currency: string): number {
+  return new Intl.NumberFormat('en', { style: 'currency', currency }).resolvedOptions().maximumFractionDigits ?? 2;
+}
+
+/**
+ * Formats an amount in a currency and locale
+ * @param amount Amount in major units
+ * @param currency ISO 4217 currency code
+ * @param locale BCP 47 locale
+ * @returns Formatted amount, e.g. "1.234,50 €"
+ */
+export function formatMoney(amount: number, currency = 'USD', locale = 'en-US'): string {
+  return new Intl.NumberFormat(locale, { style: 'currency', currency }).format(amount);
+}
+
+/**
+ * Computes line amounts, tax lines and totals of an invoice. Amounts are kept
+ * in integer minor units of the currency and rounded half away from zero once
+ * per line and once per tax rate.
+ * @param input Items, tax settings and shipping
+ * @returns Computed totals in major units of the currency
+ */
+export function calculateInvoiceTotals(input: InvoiceTotalsInput): InvoiceTotals {
+  const currency = input.currency || 'USD';
+  const digits = currencyDigits(currency);
+  const minorFactor = 10n ** BigInt(digits);
+  const pricesIncludeTax = Boolean(input.pricesIncludeTax);
+  const defaultRate = input.taxRate ?? 0;
+
+  const toMinor = (value: number) => divideRounded(toScaled(value) * minorFactor, SCALE_FACTOR);
+  const toMajor = (minor: bigint) => Number(minor) / Number(minorFactor);
+
+  // Taxable amounts (as printed) grouped by rate, in the order rates first appear
+  const amountsByRate = new Map<number, bigint>();
+  let exemptMinor = 0n;
+  let subtotalMinor = 0n;
+  let discountMinor = 0n;
+
+  const addTaxable = (rate: number, amount: bigint) => {
+    amountsByRate.set(rate, (amountsByRate.get(rate) || 0n) + amount);
+  };
+
+  const lines = input.items.map((item): InvoiceLineTotals => {
+    const grossMinor = divideRounded(
+      toScaled(item.quantity) * toScaled(item.unitPrice) * minorFactor,
+      SCALE_FACTOR * SCALE_FACTOR
+    );
+    const percentMinor = divideRounded(grossMinor * toScaled(item.discountPercent ?? 0), SCALE_FACTOR * 100n);
+    const lineDiscountMinor = percentMinor + toMinor(item.discountAmount ?? 0);
+    const amountMinor = grossMinor - lineDiscountMinor;
+    const taxExempt = Boolean(item.taxExempt);
+    const taxRate = taxExempt ? 0 : item.taxRate ?? defaultRate;
+
+    if (taxExempt) {
+      exemptMinor += amountMinor;
+    } else {
+      addTaxable(taxRate, amountMinor);
+    }
+
+    subtotalMinor += amountMinor;
+    discountMinor += lineDiscountMinor;
+
+    return {
+      gross: toMajor(grossMinor),
+      discount: toMajor(lineDiscountMinor),
+      amount: toMajor(amountMinor),
+      taxRate,
+      taxExempt,
+    };
+  });
+
+  const shippingMinor = toMinor(input.shipping ?? 0);
+  if (shippingMinor !== 0n) {
+    if (input.shippingTaxRate === undefined) {
+      exemptMinor += shippingMinor;
+    } else {
+      addTaxable(input.shippingTaxRate, shippingMinor);
+    }
+  }
+
+  let taxTotalMinor = 0n;
+  const taxes = Array.from(amountsByRate.entries())
+    .filter(([rate]) => rate !== 0)
+    .map(([rate, amountMinor]): TaxLine => {
+      const scaledRate = toScaled(rate);
+
+      // Inclusive prices contain the tax: tax = amount * rate / (100 + rate)
+      const taxMinor = pricesIncludeTax
+        ? divideRounded(amountMinor * scaledRate, 100n * SCALE_FACTOR + scaledRate)
+        : divideRounded(amountMinor * scaledRate, 100n * SCALE_FACTOR);
+
+      taxTotalMinor += taxMinor;
+      return { rate, taxable: toMajor(pricesIncludeTax ? amountMinor - taxMinor : amountMinor), tax: toMajor(taxMinor) };
+    });
+
+  // Zero-rated amounts are reported with the exempt amount
+  exemptMinor += amountsByRate.get(0) || 0n;
+
+  const totalMinor = subtotalMinor + shippingMinor + (pricesIncludeTax ? 0n : taxTotalMinor);
+
+  return {
+    currency,
+    pricesIncludeTax,
+    lines,
+    subtotal: toMajor(subtotalMinor),
+    discount: toMajor(discountMinor),
+    shipping: toMajor(shippingMinor),
+    taxes,
+    exempt: toMajor(exemptMinor),
+    taxTotal: toMajor(taxTotalMinor),
+    total: toMajor(totalMinor),
+  };
+}
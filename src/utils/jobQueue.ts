@@ -0,0 +1,334 @@
+import { randomUUID } from 'crypto';
+import { envInt } from './env';
+import type { ConformanceReport } from './pdfa';
+
+export type JobStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+export interface JobResult {
+  buffer: Buffer;
+  contentType: string;
+  filename: string;
+  warnings?: string[];
+  conformance?: ConformanceReport;
+}
+
+/**
+ * Storage backend for finished job results. The default keeps results in
+ * memory; implement this interface to keep them on disk or in object storage.
+ */
+export interface JobResultStore {
+  save(id: string, result: JobResult): Promise<void>;
+  load(id: string): Promise<JobResult | null>;
+  delete(id: string): Promise<void>;
+}
+
+/**
+ * Raised when a job is added to a queue that already holds its maximum number of waiting jobs
+ */
+export class JobQueueFullError extends Error {
+  constructor(maxQueued: number) {
+    super(`The job queue is full (${maxQueued} waiting jobs), try again later`);
+    this.name = 'JobQueueFullError';
+  }
+
+  /**
+   * Returns the payload sent to API clients with the error response
+   */
+  toJSON(): Record<string, unknown> {
+    return { error: this.message };
+  }
+}
+
+/**
+ * Keeps job results in process memory, up to a total size. When a new result
+ * does not fit, the oldest results are dropped and their jobs answer 410 Gone.
+ */
+export class MemoryResultStore implements JobResultStore {
+  private readonly maxBytes: number;
+  private results = new Map<string, JobResult>();
+  private totalBytes = 0;
+
+  /**
+   * @param maxBytes Total size of the kept documents
+   */
+  constructor(maxBytes = 256 * 1024 * 1024) {
+    this.maxBytes = maxBytes;
+  }
+
+  async save(id: string, result: JobResult): Promise<void> {
+    const size = result.buffer.length;
+    if (size > this.maxBytes) {
+      const limit = Math.round(this.maxBytes / (1024 * 1024));
+      throw new Error(`The result is larger than the ${limit} MB kept for job results`);
+    }
+
+    await this.delete(id);
+    for (const [oldestId] of this.results) {
+      if (this.totalBytes + size <= this.maxBytes) {
+        break;
+      }
+      await this.delete(oldestId);
+    }
+
+    this.results.set(id, result);
+    this.totalBytes += size;
+  }
+
+  async load(id: string): Promise<JobResult | null> {
+    return this.results.get(id) || null;
+  }
+
+  async delete(id: string): Promise<void> {
+    const result = this.results.get(id);
+    if (result) {
+      this.results.delete(id);
+      this.totalBytes -= result.buffer.length;
+    }
+  }
+}
+
+export interface Job {
+  id: string;
+  status: JobStatus;
+  progress: number;
+  stage?: string;
+  createdAt: Date;
+  startedAt?: Date;
+  finishedAt?: Date;
+  error?: string;
+  errorDetails?: unknown;
+}
+
+export interface JobContext {
+  signal: AbortSignal;
+  reportProgress: (progress: number, stage?: string) => void;
+}
+
+export type JobTask = (context: JobContext) => Promise<JobResult>;
+
+export interface JobQueueOptions {
+  concurrency?: number;
+  // Jobs that may wait for a free slot; further jobs are rejected with JobQueueFullError
+  maxQueued?: number;
+  resultTtlMs?: number;
+  store?: JobResultStore;
+}
+
+interface QueuedJob {
+  job: Job;
+  task: JobTask;
+  controller: AbortController;
+}
+
+/**
+ * In-process queue that runs document jobs in the background with bounded
+ * concurrency and keeps their results for a limited time.
+ */
+export class JobQueue {
+  private readonly concurrency: number;
+  private readonly maxQueued: number;
+  private readonly resultTtlMs: number;
+  private readonly store: JobResultStore;
+
+  private jobs = new Map<string, QueuedJob>();
+  private waiting: QueuedJob[] = [];
+  private running = 0;
+  private sweeper: NodeJS.Timeout;
+
+  constructor(options: JobQueueOptions = {}) {
+    this.concurrency = options.concurrency ?? 2;
+    this.maxQueued = options.maxQueued ?? 100;
+    this.resultTtlMs = options.resultTtlMs ?? 60 * 60 * 1000;
+    this.store = options.store ?? new MemoryResultStore();
+
+    // Periodically forget finished jobs whose results have expired
+    this.sweeper = setInterval(() => this.sweep(), Math.min(this.resultTtlMs, 60 * 1000));
+    this.sweeper.unref();
+  }
+
+  /**
+   * Adds a task to the queue
+   * @param task Function that produces the job result
+   * @returns The queued job
+   * @throws JobQueueFullError when the maximum number of jobs are already waiting
+   */
+  enqueue(task: JobTask): Job {
+    if (this.waiting.length >= this.maxQueued) {
+      throw new JobQueueFullError(this.maxQueued);
+    }
+
+    const job: Job = { id: randomUUID(), status: 'queued', progress: 0, createdAt: new Date() };
+    const entry: QueuedJob = { job, task, controller: new AbortController() };
+
+    this.jobs.set(job.id, entry);
+    this.waiting.push(entry);
+    this.drain();
+
+    return job;
+  }
+
+  /**
+   * Looks up a job by id
+   * @param id Job id
+   * @returns The job, or undefined when it does not exist or has expired
+   */
+  get(id: string): Job | undefined {
+    return this.jobs.get(id)?.job;
+  }
+
+  /**
+   * Returns the position of a queued job, starting at 1
+   * @param id Job id
+   * @returns Queue position, or undefined when the job is not waiting
+   */
+  positionOf(id: string): number | undefined {
+    const index = this.waiting.findIndex((entry) => entry.job.id === id);
+    return index === -1 ? undefined : index + 1;
+  }
+
+  /**
+   * Loads the result of a completed job
+   * @param id Job id
+   * @returns The stored result, or null when it is not available
+   */
+  async getResult(id: string): Promise<JobResult | null> {
+    const entry = this.jobs.get(id);
+    if (!entry || entry.job.status !== 'completed') {
+      return null;
+    }
+    return this.store.load(id);
+  }
+
+  /**
+   * Cancels a queued or running job. Running jobs are marked cancelled right away,
+   * but keep their slot until their task stops at its next checkpoint.
+   * @param id Job id
+   * @returns The updated job, or undefined when it does not exist
+   */
+  cancel(id: string): Job | undefined {
+    const entry = this.jobs.get(id);
+    if (!entry) {
+      return undefined;
+    }
+
+    const { job } = entry;
+    if (job.status === 'queued' || job.status === 'running') {
+      this.waiting = this.waiting.filter((waitingEntry) => waitingEntry !== entry);
+      entry.controller.abort();
+      job.status = 'cancelled';
+      job.finishedAt = new Date();
+    }
+
+    return job;
+  }
+
+  /**
+   * Stops the background sweeper; the queue can no longer expire results
+   */
+  close(): void {
+    clearInterval(this.sweeper);
+  }
+
+  private drain(): void {
+    while (this.running < this.concurrency && this.waiting.length > 0) {
+      const entry = this.waiting.shift()!;
+      this.running++;
+      this.run(entry).finally(() => {
+        this.running--;
+        this.drain();
+      });
+    }
+  }
+
+  private async run(entry: QueuedJob): Promise<void> {
+    const { job, task, controller } = entry;
+
+    job.status = 'running';
+    job.startedAt = new Date();
+
+    const context: JobContext = {
+      signal: controller.signal,
+      reportProgress: (progress, stage) => {
+        if (job.status === 'running') {
+          job.progress = Math.max(job.progress, Math.min(1, progress));
+          job.stage = stage ?? job.stage;
+        }
+      },
+    };
+
+    try {
+      const result = await task(context);
+
+      // A job cancelled while running keeps its cancelled status and drops the result
+      if (controller.signal.aborted) {
+        return;
+      }
+
+      await this.store.save(job.id, result);
+      job.status = 'completed';
+      job.progress = 1;
+      job.stage = 'done';
+    } catch (error) {
+      if (controller.signal.aborted) {
+        return;
+      }
+
+      job.status = 'failed';
+      job.error = error instanceof Error ? error.message : 'Unknown error';
+      job.errorDetails = error instanceof Error && 'toJSON' in error ? (error as { toJSON(): unknown }).toJSON() : undefined;
+    } finally {
+      job.finishedAt = job.finishedAt || new Date();
+    }
+  }
+
+  private sweep(): void {
+    const expiry = Date.now() - this.resultTtlMs;
+
+    this.jobs.forEach((entry, id) => {
+      const { finishedAt } = entry.job;
+      if (finishedAt && finishedAt.getTime() < expiry) {
+        this.jobs.delete(id);
+        this.store.delete(id).catch((error) => console.error(`Error deleting result of job ${id}:`, error));
+      }
+    });
+  }
+}
+
+/**
+ * Throws if a job was cancelled; call between the stages of a long task
+ * @param signal Abort signal of the running job
+ */
+export function throwIfCancelled(signal: AbortSignal): void {
+  if (signal.aborted) {
+    throw new Error('Job was cancelled');
+  }
+}
+
+let sharedQueue: JobQueue | null = null;
+
+/**
+ * Replaces the process-wide job queue, e.g. to plug in another result store
+ * @param options Queue options
+ * @returns The new shared queue
+ */
+export function configureJobQueue(options: JobQueueOptions): JobQueue {
+  sharedQueue?.close();
+  sharedQueue = new JobQueue(options);
+  return sharedQueue;
+}
+
+/**
+ * Returns the process-wide job queue, configured from environment variables
+ * @returns Shared JobQueue instance
+ */
+export function getJobQueue(): JobQueue {
+  if (!sharedQueue) {
+    sharedQueue = new JobQueue({
+      concurrency: envInt('PDF_JOB_CONCURRENCY', 2),
+      maxQueued: envInt('PDF_JOB_MAX_QUEUED', 100),
+      resultTtlMs: envInt('PDF_JOB_RESULT_TTL_MS', 60 * 60 * 1000),
+      store: new MemoryResultStore(envInt('PDF_JOB_RESULT_MAX_MB', 256) * 1024 * 1024),
+    });
+  }
+  return sharedQueue;
+}
@@ -1,16 +1,66 @@
-import puppeteer from 'puppeteer';
 import { renderToStaticMarkup } from 'react-dom/server';
 import { ReactElement } from 'react';
 import path from 'path';
 import fs from 'fs';
-import React from 'react';
+import os from 'os';
+import { createHash, randomUUID } from 'crypto';
+import { Readable, Writable } from 'stream';
+import { pipeline } from 'stream/promises';
+import type { ReadableStream as NodeReadableStream } from 'stream/web';
 import * as babel from '@babel/core';
+import JSZip from 'jszip';
+import { PDFDocument } from 'pdf-lib';
+import { Page } from 'puppeteer';
+import { originalPositionFor, SourceMapInput, TraceMap } from '@jridgewell/trace-mapping';
+import { buildFontFaceCss, isolatePage, resolveAssetReferences } from './assets';
+import { getBrowserPool } from './browserPool';
+import { envInt } from './env';
+import { withLocale } from './i18n';
+import { ConformanceReport, convertToPdfa, PdfaLevel, PdfAttachment } from './pdfa';
+import { DocumentHeading, DocumentMetadata, escapeXml, setDocumentMetadata, setHeadingOutline } from './pdfMetadata';
+import { encryptDocument, EncryptionOptions } from './pdfSecurity';
+import { addSignaturePlaceholder, getSigningCertificate, SignatureOptions, signPdf } from './pdfSignature';
+import { getRenderCache, MAX_CACHED_DOCUMENT_BYTES, renderCacheKey } from './renderCache';
+import { checkOutputSize, checkPageCount, PdfLimitStream, renderLimits, withRenderTimeout } from './renderLimits';
+import {
+  buildCodeFrame,
+  TEMPLATE_FILENAME,
+  TemplateCompileError,
+  TemplateErrorLocation,
+  TemplateRenderError,
+} from './templateErrors';
+import { renderInSandbox, TemplateSandboxError } from './templateSandbox';
+import { buildThemeCss, getTheme, listThemes, StyleOptions } from './themes';
+import { DEFAULT_LOCALE, textDirection } from './translator';
 
-// Read the CSS file once at startup
-const cssFilePath = path.join(__dirname, '..', 'public', 'styles.css');
-const cssContent = fs.readFileSync(cssFilePath, 'utf8');
+// Read the CSS file once at startup; the live preview reads it again when it changes
+export const cssFilePath = path.join(__dirname, '..', 'public', 'styles.css');
+let cssContent = fs.readFileSync(cssFilePath, 'utf8');
 
-interface PdfOptions {
+export type OutputFormat = 'pdf' | 'png' | 'jpeg' | 'webp' | 'html';
+
+export const OUTPUT_FORMATS: OutputFormat[] = ['pdf', 'png', 'jpeg', 'webp', 'html'];
+
+export type ImageFormat = Extract<OutputFormat, 'png' | 'jpeg' | 'webp'>;
+
+export type ThumbnailSize = 'small' | 'medium' | 'large';
+
+export interface ImageOptions {
+  // 'first' (default) or a page number returns one image; 'all' or a list of page numbers returns a ZIP
+  pages?: 'first' | 'all' | number | number[];
+  // Device scale factor, e.g. 2 for high-density screens
+  scale?: number;
+  // Resizes each page to a preset or to a width in pixels; takes precedence over scale
+  thumbnail?: ThumbnailSize | number;
+  // 0-100, for jpeg and webp only
+  quality?: number;
+}
+
+/**
+ * Document options. The `theme`, `variables` and `css` fields from StyleOptions
+ * are layered over the base stylesheet.
+ */
+export interface PdfOptions extends StyleOptions {
   format?: 'A4' | 'Letter' | 'Legal';
   landscape?: boolean;
   margin?: {
@@ -20,16 +70,260 @@ interface PdfOptions {
     left?: string;
   };
   filename?: string;
+  // Locale of translated labels and date formatting; also sets the document's lang and dir
+  locale?: string;
+  // Repeated on every page; see PageDecoration
+  header?: PageDecoration;
+  footer?: PageDecoration;
+  // Produce images or the HTML document instead of a PDF
+  outputFormat?: OutputFormat;
+  image?: ImageOptions;
+  // Title, author, keywords and custom properties written into the PDF; the title also names the HTML document
+  metadata?: DocumentMetadata;
+  // Bookmarks: by default Chromium's, of every heading from h1 to h6; true keeps only h1 to h3; false none.
+  // Every route applies the same rule, whether the PDF is streamed or finished in memory
+  outline?: boolean;
+  // Converts the PDF for long-term archiving
+  pdfa?: PdfaLevel;
+  // Files embedded in PDF/A-3 documents; templates add their own, such as the invoice XML
+  attachments?: PdfAttachment[];
+  // Protects the PDF with passwords and restricts what readers allow
+  encryption?: EncryptionOptions;
+  // Signs the PDF with the certificate configured on the server
+  signature?: SignatureOptions;
 }
 
 /**
- * Generates a PDF from a JSX template
+ * Header or footer content: a React element, or a JSX string that is either a
+ * full `Template` component or a bare JSX expression such as
+ * `<p>Page <PageNumber /> of <TotalPages /></p>`
+ */
+export type PageDecoration = ReactElement | string;
+
+export interface RenderedDocument {
+  buffer: Buffer;
+  contentType: string;
+  // Requested filename with the extension of the output format
+  filename: string;
+  // Missing assets and blocked or failed requests
+  warnings: string[];
+  // Outcome of the PDF/A conversion when `pdfa` is set
+  conformance?: ConformanceReport;
+}
+
+export interface StreamedDocument extends Omit<RenderedDocument, 'buffer'> {
+  stream: Readable;
+  // Size of the document in bytes
+  contentLength: number;
+}
+
+// Paper sizes in CSS pixels (96 per inch)
+const PAPER_SIZES: Record<NonNullable<PdfOptions['format']>, { width: number; height: number }> = {
+  Letter: { width: 816, height: 1056 },
+  Legal: { width: 816, height: 1344 },
+  A4: { width: 794, height: 1123 },
+};
+
+// Widths in pixels of the thumbnail presets
+const THUMBNAIL_WIDTHS: Record<ThumbnailSize, number> = {
+  small: 200,
+  medium: 400,
+  large: 800,
+};
+
+export interface CompiledTemplate {
+  source: string;
+  code: string;
+  map: object;
+}
+
+/**
+ * Generates a PDF from a JSX template. Documents are cached by their markup,
+ * options and stylesheet, unless the options hold React elements.
  * @param template JSX template as a React element
  * @param options PDF generation options
  * @returns Buffer containing the generated PDF
  */
 export async function generatePdfFromJsx(template: ReactElement, options: PdfOptions = {}): Promise<Buffer> {
-  // Default options
+  // Convert JSX to HTML
+  const htmlContent = renderToStaticMarkup(withLocale(template, options.locale));
+  const cache = getRenderCache();
+  if (!cache || !isCacheable(options)) {
+    return generatePdfFromHtml(htmlContent, options);
+  }
+
+  const key = renderCacheKey({ markup: htmlContent, options, stylesheet: stylesheetVersion() });
+  const cached = await cache.get(key);
+  if (cached) {
+    return cached.buffer;
+  }
+
+  const document = await renderDocument(htmlContent, options);
+  if (document.buffer.length <= MAX_CACHED_DOCUMENT_BYTES) {
+    await cache.set(key, 'markup', document).catch((error) => console.error('Error caching document:', error));
+  }
+  return document.buffer;
+}
+
+/**
+ * Whether documents rendered with these options can be served from the render cache.
+ * Signatures record when they were made, and React element headers and footers cannot be hashed.
+ * @param options PDF generation options
+ */
+export function isCacheable(options: PdfOptions): boolean {
+  const decorations = [options.header, options.footer].filter((decoration) => decoration !== undefined);
+  return !options.signature && decorations.every((decoration) => typeof decoration === 'string');
+}
+
+/**
+ * Identifies the base stylesheet and themes documents are rendered with, so
+ * cached documents are not reused once they change
+ * @returns Short hash of `styles.css`, the base theme and the registered themes
+ */
+export function stylesheetVersion(): string {
+  const hash = createHash('sha256').update(cssContent).update(buildThemeCss());
+  listThemes().forEach((name) => hash.update(`\0${name}\0${getTheme(name)?.css}`));
+  return hash.digest('hex').slice(0, 16);
+}
+
+/**
+ * Reads `styles.css` again, so documents rendered afterwards use the edited stylesheet
+ */
+export function reloadStylesheet(): void {
+  cssContent = fs.readFileSync(cssFilePath, 'utf8');
+}
+
+/**
+ * Returns the paper a document is printed on
+ * @param options PDF generation options
+ * @returns Width and height in CSS pixels, turned for landscape documents, and the margins
+ */
+export function getPageBox(options: PdfOptions): { width: number; height: number; margin: PdfOptions['margin'] } {
+  const mergedOptions = withDefaultOptions(options);
+  const paper = PAPER_SIZES[mergedOptions.format!] || PAPER_SIZES.Letter;
+  const size = mergedOptions.landscape ? { width: paper.height, height: paper.width } : paper;
+  return { ...size, margin: mergedOptions.margin };
+}
+
+/**
+ * Generates a PDF (or the output format set in the options) from already rendered template markup
+ * @param htmlContent HTML markup to place in the document body
+ * @param options PDF generation options
+ * @param data Data passed as props to JSX string headers and footers
+ * @returns Buffer containing the generated document
+ */
+export async function generatePdfFromHtml(
+  htmlContent: string,
+  options: PdfOptions = {},
+  data: Record<string, any> = {}
+): Promise<Buffer> {
+  const rendered = await renderDocument(htmlContent, options, data);
+  return rendered.buffer;
+}
+
+/**
+ * Renders template markup to a PDF, page images or a standalone HTML document
+ * @param htmlContent HTML markup to place in the document body
+ * @param options PDF generation options, including the output format
+ * @param data Data passed as props to JSX string headers and footers
+ * @returns The rendered document with its content type and filename
+ * @throws RenderLimitError when the document exceeds a render limit
+ */
+export async function renderDocument(
+  htmlContent: string,
+  options: PdfOptions = {},
+  data: Record<string, any> = {}
+): Promise<RenderedDocument> {
+  const mergedOptions = withDefaultOptions(options);
+  const outputFormat = mergedOptions.outputFormat || 'pdf';
+  const basename = mergedOptions.filename!.replace(/\.pdf$/i, '');
+  const warnings: string[] = [];
+
+  let document: RenderedDocument;
+  if (outputFormat === 'html') {
+    // Standalone documents carry their assets with them
+    const html = resolveAssetReferences(buildHtmlDocument(htmlContent, mergedOptions), 'inline', warnings);
+    document = {
+      buffer: Buffer.from(html),
+      contentType: 'text/html; charset=utf-8',
+      filename: `${basename}.html`,
+      warnings,
+    };
+  } else if (outputFormat !== 'pdf') {
+    document = await captureImages(htmlContent, mergedOptions, outputFormat, basename, warnings);
+  } else {
+    const { buffer, conformance } = await printPdf(htmlContent, mergedOptions, data, warnings);
+    document = { buffer, contentType: 'application/pdf', filename: `${basename}.pdf`, warnings, conformance };
+  }
+
+  if (warnings.length > 0) {
+    console.warn(`Rendered ${document.filename} with warnings:\n  ${warnings.join('\n  ')}`);
+  }
+  checkOutputSize(document.buffer.length);
+
+  return document;
+}
+
+/**
+ * Renders template markup like `renderDocument`, but returns a stream so
+ * large PDFs are not held in memory. The PDF is spooled to a temporary file
+ * while the limits are checked, which also returns the browser page before
+ * the client has downloaded it. PDFs that get metadata, PDF/A, security or an
+ * explicitly requested outline are finished in memory, as are images and HTML.
+ * @param htmlContent HTML markup to place in the document body
+ * @param options PDF generation options, including the output format
+ * @param data Data passed as props to JSX string headers and footers
+ * @returns The document as a stream, with its length, content type and filename
+ * @throws RenderLimitError when the document exceeds a render limit
+ */
+export async function streamDocument(
+  htmlContent: string,
+  options: PdfOptions = {},
+  data: Record<string, any> = {}
+): Promise<StreamedDocument> {
+  const mergedOptions = withDefaultOptions(options);
+  const { metadata, pdfa, encryption, signature } = mergedOptions;
+
+  if ((mergedOptions.outputFormat || 'pdf') !== 'pdf' || metadata || pdfa || encryption || signature) {
+    const { buffer, ...document } = await renderDocument(htmlContent, options, data);
+    return { ...document, stream: Readable.from([buffer]), contentLength: buffer.length };
+  }
+
+  const warnings: string[] = [];
+  const filename = `${mergedOptions.filename!.replace(/\.pdf$/i, '')}.pdf`;
+  const spoolFile = path.join(os.tmpdir(), `pdf-${randomUUID()}.pdf`);
+  const removeSpoolFile = () => fs.promises.rm(spoolFile, { force: true });
+
+  try {
+    const headings = await printPdfTo(htmlContent, mergedOptions, data, warnings, fs.createWriteStream(spoolFile));
+    if (warnings.length > 0) {
+      console.warn(`Rendered ${filename} with warnings:\n  ${warnings.join('\n  ')}`);
+    }
+
+    // Only an explicitly requested outline is rewritten to the h1 to h3 headings, which needs the whole document
+    if (headings.length > 0) {
+      const { buffer } = await finishPdf(await fs.promises.readFile(spoolFile), mergedOptions, headings);
+      await removeSpoolFile();
+      const stream = Readable.from([buffer]);
+      return { stream, contentLength: buffer.length, contentType: 'application/pdf', filename, warnings };
+    }
+
+    const { size } = await fs.promises.stat(spoolFile);
+    const stream = fs.createReadStream(spoolFile);
+    stream.once('close', removeSpoolFile);
+    return { stream, contentLength: size, contentType: 'application/pdf', filename, warnings };
+  } catch (error) {
+    await removeSpoolFile();
+    throw error;
+  }
+}
+
+/**
+ * Fills in the paper size, margins, filename and output format a request leaves out
+ * @param options Options of the request
+ * @returns Options with defaults, keeping default margins for sides that are not overridden
+ */
+function withDefaultOptions(options: PdfOptions): PdfOptions {
   const defaultOptions: PdfOptions = {
     format: 'Letter',
     landscape: false,
@@ -40,98 +334,514 @@ export async function generatePdfFromJsx(template: ReactElement, options: PdfOpt
       left: '0.5in',
     },
     filename: 'document.pdf',
+    outputFormat: 'pdf',
   };
 
-  // Merge options
-  const mergedOptions = { ...defaultOptions, ...options };
+  return { ...defaultOptions, ...options, margin: { ...defaultOptions.margin, ...options.margin } };
+}
 
-  // Convert JSX to HTML
-  const htmlContent = renderToStaticMarkup(template);
+/**
+ * Wraps template markup in a complete HTML document with the stylesheet and theme
+ * @param htmlContent HTML markup to place in the document body
+ * @param options Merged PDF options
+ * @param extraCss Additional CSS appended after the stylesheet and theme
+ * @returns Complete HTML document
+ */
+function buildHtmlDocument(htmlContent: string, options: PdfOptions, extraCss = ''): string {
+  const locale = options.locale || DEFAULT_LOCALE;
+  const themeCss = buildThemeCss(options);
+  const fontCss = buildFontFaceCss(`${htmlContent}\n${themeCss}\n${extraCss}`);
+  const { title, author, subject, keywords, language } = options.metadata || {};
 
-  // Create a complete HTML document with the CSS
-  const fullHtml = `
+  const metaTags = [
+    author && `<meta name="author" content="${escapeXml(author)}">`,
+    subject && `<meta name="description" content="${escapeXml(subject)}">`,
+    keywords?.length && `<meta name="keywords" content="${escapeXml(keywords.join(', '))}">`,
+  ]
+    .filter(Boolean)
+    .join('\n        ');
+
+  return `
     <!DOCTYPE html>
-    <html>
+    <html lang="${escapeXml(language || locale)}" dir="${textDirection(locale)}">
       <head>
         <meta charset="UTF-8">
-        <title>${mergedOptions.filename}</title>
-        <style>${cssContent}</style>
+        <title>${escapeXml(title || options.filename || '')}</title>
+        ${metaTags}
+        <style>${fontCss}
+${cssContent}
+${themeCss}
+${extraCss}</style>
       </head>
       <body>
         ${htmlContent}
       </body>
     </html>
   `;
+}
+
+/**
+ * Runs a task on a page from the shared browser pool, cut off from the network
+ * except for local assets and allowlisted hosts
+ * @param warnings Receives missing assets and blocked or failed requests
+ * @param task Callback that receives the page
+ * @returns Result of the callback
+ * @throws RenderLimitError when the task takes longer than `PDF_RENDER_TIMEOUT_MS`; the page is then discarded
+ */
+function withIsolatedPage<T>(warnings: string[], task: (page: Page) => Promise<T>): Promise<T> {
+  return getBrowserPool().withPage(async (page) => {
+    const restore = await isolatePage(page, warnings);
 
-  // Launch a headless browser
-  const browser = await puppeteer.launch({
-    headless: true,
-    args: ['--no-sandbox', '--disable-setuid-sandbox'],
+    // A failed or timed-out task may still be running, and the pool discards its page;
+    // restoring would lift the network block while it runs
+    const result = await withRenderTimeout(task(page));
+    await restore();
+    return result;
   });
+}
 
-  try {
-    // Create a new page
-    const page = await browser.newPage();
+/**
+ * Prints template markup to a PDF
+ * @param htmlContent HTML markup to place in the document body
+ * @param options Merged PDF options
+ * @param data Data passed as props to JSX string headers and footers
+ * @param warnings Receives missing assets and blocked or failed requests
+ * @returns Buffer containing the generated PDF, and the PDF/A conformance report when PDF/A was requested
+ * @throws RenderLimitError when the PDF exceeds a render limit
+ */
+async function printPdf(
+  htmlContent: string,
+  options: PdfOptions,
+  data: Record<string, any>,
+  warnings: string[]
+): Promise<{ buffer: Buffer; conformance?: ConformanceReport }> {
+  const chunks: Buffer[] = [];
+  const collect = new Writable({
+    write(chunk: Buffer, encoding, callback) {
+      chunks.push(chunk);
+      callback();
+    },
+  });
+
+  const headings = await printPdfTo(htmlContent, options, data, warnings, collect);
+  return finishPdf(Buffer.concat(chunks), options, headings);
+}
+
+/**
+ * Prints template markup to a PDF and writes it to a stream as Chromium
+ * produces it, failing as soon as it exceeds the page or size limit
+ * @param htmlContent HTML markup to place in the document body
+ * @param options Merged PDF options
+ * @param data Data passed as props to JSX string headers and footers
+ * @param warnings Receives missing assets and blocked or failed requests
+ * @param output Receives the PDF as printed, before metadata or the outline are added
+ * @returns h1 to h3 headings the outline is rebuilt from; empty unless `outline` is true
+ * @throws RenderLimitError when the PDF exceeds a render limit
+ */
+async function printPdfTo(
+  htmlContent: string,
+  options: PdfOptions,
+  data: Record<string, any>,
+  warnings: string[],
+  output: Writable
+): Promise<DocumentHeading[]> {
+  // Create a complete HTML document with the CSS
+  const fullHtml = resolveAssetReferences(buildHtmlDocument(htmlContent, options), 'serve', warnings);
+
+  // Render the header and footer before borrowing a page; Chromium loads nothing
+  // for them, so their assets are inlined
+  const [headerTemplate, footerTemplate] = (
+    await Promise.all([
+      renderPageDecoration(options.header, data, options),
+      renderPageDecoration(options.footer, data, options),
+    ])
+  ).map((decoration) => decoration && resolveAssetReferences(decoration, 'inline', warnings));
+  const displayHeaderFooter = Boolean(headerTemplate || footerTemplate);
 
+  // Render on a warm page borrowed from the shared browser pool
+  return withIsolatedPage(warnings, async (page) => {
     // Set the content of the page
-    await page.setContent(fullHtml, { waitUntil: 'networkidle0' });
+    await page.setContent(fullHtml, { waitUntil: 'networkidle0', timeout: renderLimits.renderTimeoutMs });
 
-    // Generate PDF
-    const pdfBuffer = await page.pdf({
-      format: mergedOptions.format,
-      landscape: mergedOptions.landscape,
-      margin: mergedOptions.margin,
+    // Chromium's outline is kept as printed unless only h1 to h3 are asked for
+    const headings: DocumentHeading[] =
+      options.outline !== true
+        ? []
+        : await page.evaluate(() =>
+            Array.from(document.querySelectorAll('h1, h2, h3'))
+              .map((heading) => ({
+                title: (heading.textContent || '').replace(/\s+/g, ' ').trim(),
+                level: Number(heading.tagName.charAt(1)),
+              }))
+              .filter((heading) => heading.title)
+          );
+
+    // Generate PDF; Chromium's outline also tells which page each heading is on
+    const pdfStream = await page.createPDFStream({
+      format: options.format,
+      landscape: options.landscape,
+      margin: options.margin,
       printBackground: true,
+      displayHeaderFooter,
+      // An empty element hides the default header or footer when only one of them is set
+      headerTemplate: headerTemplate || '<span></span>',
+      footerTemplate: footerTemplate || '<span></span>',
+      outline: options.outline !== false,
+      // Chromium stops one page past the limit, which is enough to tell the document is too long
+      pageRanges: `1-${renderLimits.maxPages + 1}`,
+      timeout: renderLimits.renderTimeoutMs,
+    });
+    // Puppeteer types the stream with the DOM's ReadableStream, which Node's matches apart from typings
+    await pipeline(Readable.fromWeb(pdfStream as NodeReadableStream<Uint8Array>), new PdfLimitStream(), output);
+
+    return headings;
+  });
+}
+
+/**
+ * Writes the document metadata and the heading outline into a PDF, converts
+ * it to PDF/A, and signs and encrypts it when requested. Also used for PDFs
+ * that were merged, split or stamped after printing.
+ * @param pdfBuffer PDF printed by Chromium or assembled from other PDFs
+ * @param options Merged PDF options
+ * @param headings h1 to h3 headings to rebuild the outline from; empty to keep the outline the PDF has
+ * @returns The updated PDF, or the given one when there is nothing to add, and the PDF/A conformance report
+ */
+export async function finishPdf(
+  pdfBuffer: Buffer,
+  options: PdfOptions,
+  headings: DocumentHeading[] = []
+): Promise<{ buffer: Buffer; conformance?: ConformanceReport }> {
+  const { encryption, signature } = options;
+  if (!options.metadata && !options.pdfa && !encryption && !signature && headings.length === 0) {
+    return { buffer: pdfBuffer };
+  }
+
+  // Chromium's producer and creation date are kept
+  const doc = await PDFDocument.load(pdfBuffer, { updateMetadata: false });
+  const metadata = { language: options.locale, ...options.metadata };
+  let conformance: ConformanceReport | undefined;
+
+  if (headings.length > 0) {
+    setHeadingOutline(doc, headings);
+  }
+  if (options.pdfa) {
+    conformance = convertToPdfa(doc, options.pdfa, metadata, options.attachments);
+  } else if (options.metadata) {
+    setDocumentMetadata(doc, metadata);
+  }
+
+  // The signature placeholder is added before encrypting, so only the signature value itself stays readable
+  const certificate = signature ? getSigningCertificate() : undefined;
+  if (signature && certificate) {
+    await addSignaturePlaceholder(doc, signature, certificate);
+  }
+  if (encryption) {
+    await encryptDocument(doc, encryption);
+  }
+
+  const buffer = Buffer.from(await doc.save({ useObjectStreams: !encryption && !signature }));
+  return { buffer: certificate ? signPdf(buffer, certificate) : buffer, conformance };
+}
+
+/**
+ * Picks the 1-based page numbers to capture. Page numbers past the end of the
+ * document are ignored; when none remain the first page is captured.
+ * @param pages Requested pages
+ * @param pageCount Number of pages in the document
+ * @returns Page numbers to capture, in order
+ */
+function selectPages(pages: ImageOptions['pages'], pageCount: number): number[] {
+  if (pages === 'all') {
+    return Array.from({ length: pageCount }, (_, index) => index + 1);
+  }
+
+  const requested = pages === undefined || pages === 'first' ? [1] : ([] as number[]).concat(pages);
+  const selected = requested.filter((page, index) => page <= pageCount && requested.indexOf(page) === index);
+
+  return selected.length > 0 ? selected : [1];
+}
+
+/**
+ * Screenshots the selected pages of a document
+ * @param page Page with the document loaded
+ * @param pageNumbers 1-based page numbers to capture
+ * @param size Page size in CSS pixels
+ * @param format Image format
+ * @param image Image options
+ * @returns One image per page
+ */
+async function screenshotPages(
+  page: Page,
+  pageNumbers: number[],
+  size: { width: number; height: number },
+  format: ImageFormat,
+  image: ImageOptions
+): Promise<Buffer[]> {
+  const { thumbnail } = image;
+  const thumbnailWidth = typeof thumbnail === 'string' ? THUMBNAIL_WIDTHS[thumbnail] : thumbnail;
+  const scale = thumbnailWidth ? thumbnailWidth / size.width : image.scale || 1;
+  const images: Buffer[] = [];
+
+  for (const pageNumber of pageNumbers) {
+    const screenshot = await page.screenshot({
+      type: format,
+      quality: format === 'png' ? undefined : image.quality,
+      captureBeyondViewport: true,
+      clip: { x: 0, y: (pageNumber - 1) * size.height, width: size.width, height: size.height, scale },
     });
+    images.push(Buffer.from(screenshot));
+  }
+
+  return images;
+}
+
+/**
+ * Renders template markup to page images. Pages are cut from the on-screen
+ * layout at the paper height, so they can break differently from the PDF.
+ * @param htmlContent HTML markup to place in the document body
+ * @param options Merged PDF options
+ * @param format Image format
+ * @param basename Filename without extension
+ * @param warnings Receives missing assets and blocked or failed requests
+ * @returns One image, or a ZIP of images when several pages were requested
+ */
+async function captureImages(
+  htmlContent: string,
+  options: PdfOptions,
+  format: ImageFormat,
+  basename: string,
+  warnings: string[]
+): Promise<RenderedDocument> {
+  const { margin, ...size } = getPageBox(options);
+  const image = options.image || {};
+  const { top, right, bottom, left } = margin || {};
+
+  // The print margins become padding around the document body
+  const fullHtml = resolveAssetReferences(
+    buildHtmlDocument(htmlContent, options, `body { padding: ${top || 0} ${right || 0} ${bottom || 0} ${left || 0}; }`),
+    'serve',
+    warnings
+  );
 
-    return Buffer.from(pdfBuffer);
-  } finally {
-    // Always close the browser
-    await browser.close();
+  const { pageNumbers, images } = await withIsolatedPage(warnings, async (page) => {
+    await page.setViewport(size);
+    await page.setContent(fullHtml, { waitUntil: 'networkidle0', timeout: renderLimits.renderTimeoutMs });
+
+    const contentHeight = await page.evaluate(() => document.documentElement.scrollHeight);
+    const pageNumbers = selectPages(image.pages, Math.max(1, Math.ceil(contentHeight / size.height)));
+    checkPageCount(pageNumbers.length);
+
+    return { pageNumbers, images: await screenshotPages(page, pageNumbers, size, format, image) };
+  });
+
+  if (image.pages !== 'all' && !Array.isArray(image.pages)) {
+    return { buffer: images[0], contentType: `image/${format}`, filename: `${basename}.${format}`, warnings };
   }
+
+  // Several pages are returned as an archive with one image per page
+  const zip = new JSZip();
+  images.forEach((buffer, index) => zip.file(`${basename}-page-${pageNumbers[index]}.${format}`, buffer));
+
+  return {
+    buffer: await zip.generateAsync({ type: 'nodebuffer' }),
+    contentType: 'application/zip',
+    filename: `${basename}.zip`,
+    warnings,
+  };
 }
 
 /**
- * Compiles JSX string to a React component
+ * Renders a header or footer into a template Chromium repeats on every page
+ * @param decoration Header or footer content
+ * @param data Data passed as props to JSX strings
+ * @param options Merged PDF options, used for the title and horizontal margins
+ * @returns Header or footer template, or undefined when there is none
+ */
+async function renderPageDecoration(
+  decoration: PageDecoration | undefined,
+  data: Record<string, any>,
+  options: PdfOptions
+): Promise<string | undefined> {
+  if (!decoration) {
+    return undefined;
+  }
+
+  let markup: string;
+  if (typeof decoration === 'string') {
+    // Bare JSX expressions are wrapped in a Template component
+    const source = /\bfunction\s+Template\b|\b(?:const|let|var)\s+Template\s*=/.test(decoration)
+      ? decoration
+      : `function Template(props) { return (<>${decoration}</>); }`;
+    markup = await renderJsxString(source, data, options.locale);
+  } else {
+    markup = renderToStaticMarkup(withLocale(decoration, options.locale));
+  }
+
+  // Text tokens such as {{pageNumber}} become the elements Chromium fills in
+  const withTokens = markup.replace(
+    /\{\{\s*(pageNumber|totalPages|date|title)\s*\}\}/g,
+    (_match, token: string) => `<span class="${token}"></span>`
+  );
+
+  const dir = textDirection(options.locale || DEFAULT_LOCALE);
+
+  // Headers and footers are rendered in their own document, so the stylesheet and theme are repeated here
+  return `
+    <style>
+      ${cssContent}
+      ${buildThemeCss(options)}
+      .page-decoration { width: 100%; font-size: 10px; -webkit-print-color-adjust: exact; }
+    </style>
+    <div class="page-decoration" dir="${dir}" style="padding: 0 ${options.margin?.right || '0'} 0 ${options.margin?.left || '0'}">
+      ${withTokens}
+    </div>
+  `;
+}
+
+// Recently compiled JSX strings by the hash of their source, oldest first
+const compiledTemplates = new Map<string, CompiledTemplate>();
+const COMPILE_CACHE_SIZE = envInt('PDF_COMPILE_CACHE_SIZE', 100);
+
+/**
+ * Compiles a JSX string to plain JavaScript. The most recently used templates
+ * are kept compiled, so callers sending the same JSX again skip Babel.
  * @param jsxString JSX code as a string
- * @param data Data to be passed as props to the component
- * @returns React element
+ * @returns Compiled template with a source map back to the JSX
+ * @throws TemplateCompileError when the JSX cannot be parsed or transformed
  */
-export function compileJsxString(jsxString: string, data: Record<string, any> = {}): ReactElement {
+export function compileJsxString(jsxString: string): CompiledTemplate {
+  const key = createHash('sha256').update(jsxString).digest('hex');
+  const cached = compiledTemplates.get(key);
+  if (cached) {
+    compiledTemplates.delete(key);
+    compiledTemplates.set(key, cached);
+    return cached;
+  }
+
+  const template = transformJsxString(jsxString);
+  compiledTemplates.set(key, template);
+  if (compiledTemplates.size > COMPILE_CACHE_SIZE) {
+    compiledTemplates.delete(compiledTemplates.keys().next().value as string);
+  }
+  return template;
+}
+
+/**
+ * Runs Babel on a JSX string
+ * @param jsxString JSX code as a string
+ * @returns Compiled template with a source map back to the JSX
+ * @throws TemplateCompileError when the JSX cannot be parsed or transformed
+ */
+function transformJsxString(jsxString: string): CompiledTemplate {
+  let transformedCode: babel.BabelFileResult | null;
+
   try {
     // Transform JSX string to JavaScript
-    const transformedCode = babel.transformSync(jsxString, {
-      presets: ['@babel/preset-react'],
-      filename: 'dynamic-template.jsx',
+    // The preset comes from this package and Babel config files are ignored, whatever the working directory
+    transformedCode = babel.transformSync(jsxString, {
+      presets: [require.resolve('@babel/preset-react')],
+      babelrc: false,
+      configFile: false,
+      filename: TEMPLATE_FILENAME,
+      sourceMaps: true,
+      highlightCode: false,
     });
+  } catch (error) {
+    const { message, loc } = error as Error & { loc?: { line: number; column: number } };
+
+    // Babel prefixes the filename (resolved against the working directory) and appends the position and its code frame
+    const reason = message
+      .split('\n')[0]
+      .replace(new RegExp(`^.*?${TEMPLATE_FILENAME.replace('.', '\\.')}: `), '')
+      .replace(/ \(\d+:\d+\)$/, '');
+
+    throw new TemplateCompileError(
+      reason,
+      loc
+        ? { line: loc.line, column: loc.column + 1, codeFrame: buildCodeFrame(jsxString, loc.line, loc.column + 1) }
+        : {}
+    );
+  }
+
+  if (!transformedCode || !transformedCode.code || !transformedCode.map) {
+    throw new TemplateCompileError('Failed to transform JSX code');
+  }
+
+  return { source: jsxString, code: transformedCode.code, map: transformedCode.map };
+}
 
-    if (!transformedCode || !transformedCode.code) {
-      throw new Error('Failed to transform JSX code');
+/**
+ * Converts an error thrown inside the sandbox into a TemplateRenderError
+ * pointing at the original JSX source
+ * @param error Error raised by the sandbox
+ * @param template Compiled template that was rendered
+ * @returns TemplateRenderError (or TemplateSandboxError) with location details
+ */
+function toRenderError(error: unknown, template: CompiledTemplate): TemplateRenderError {
+  const message = error instanceof Error ? error.message : String(error);
+  const stack = error instanceof Error ? error.stack || '' : '';
+
+  // The first template frame in the stack is where the template failed
+  const frame = new RegExp(`${TEMPLATE_FILENAME.replace('.', '\\.')}:(\\d+):(\\d+)`).exec(stack);
+  let location: TemplateErrorLocation = {};
+
+  if (frame) {
+    const original = originalPositionFor(new TraceMap(template.map as SourceMapInput), {
+      line: Number(frame[1]),
+      column: Number(frame[2]) - 1,
+    });
+
+    if (original.line !== null && original.column !== null) {
+      location = {
+        line: original.line,
+        column: original.column + 1,
+        codeFrame: buildCodeFrame(template.source, original.line, original.column + 1),
+      };
     }
+  }
 
-    // Create a function that returns a React element
-    const functionBody = `
-      const React = arguments[0];
-      const data = arguments[1];
-      ${transformedCode.code}
-      return React.createElement(Template, data);
-    `;
-
-    // Create a new function from the transformed code
-    // eslint-disable-next-line no-new-func
-    const templateFunction = new Function(functionBody);
-
-    // Define a Template component that will be used in the function
-    const Template = (props: any) => {
-      return React.createElement('div', null, props.children || 'Empty Template');
-    };
+  if (error instanceof TemplateSandboxError) {
+    return new TemplateSandboxError(error.reason, message, location);
+  }
+
+  return new TemplateRenderError(message, location);
+}
+
+/**
+ * Renders a JSX string to HTML inside the template sandbox
+ * @param jsxString JSX code as a string
+ * @param data Data to be passed as props to the component
+ * @param locale Locale of the `t` and `formatDate` helpers available to the template
+ * @returns Rendered HTML markup
+ * @throws TemplateCompileError when the JSX cannot be compiled
+ * @throws TemplateRenderError when the template fails while rendering
+ */
+export async function renderJsxString(
+  jsxString: string,
+  data: Record<string, any> = {},
+  locale?: string
+): Promise<string> {
+  return renderCompiledTemplate(compileJsxString(jsxString), data, locale);
+}
 
-    // Execute the function with React and data
-    return templateFunction(React, data);
+/**
+ * Renders an already compiled JSX template to HTML inside the template sandbox
+ * @param template Template compiled with `compileJsxString`
+ * @param data Data to be passed as props to the component
+ * @param locale Locale of the `t` and `formatDate` helpers available to the template
+ * @returns Rendered HTML markup
+ * @throws TemplateRenderError when the template fails while rendering
+ */
+export async function renderCompiledTemplate(
+  template: CompiledTemplate,
+  data: Record<string, any> = {},
+  locale?: string
+): Promise<string> {
+  try {
+    return await renderInSandbox(template.code, data, locale);
   } catch (error) {
-    console.error('Error compiling JSX string:', error);
-    // Return a fallback element
-    return React.createElement('div', null, 'Error rendering template');
+    throw toRenderError(error, template);
   }
 }
 
@@ -147,6 +857,6 @@ export async function generatePdfFromJsxString(
   data: Record<string, any> = {},
   options: PdfOptions = {}
 ): Promise<Buffer> {
-  const reactElement = compileJsxString(jsxString, data);
-  return generatePdfFromJsx(reactElement, options);
+  const htmlContent = await renderJsxString(jsxString, data, options.locale);
+  return generatePdfFromHtml(htmlContent, options, data);
 }
@@ -0,0 +1,122 @@
+import { PDFArray, PDFDict, PDFDocument, PDFHexString, PDFName, PDFNull, PDFNumber, PDFRef } from 'pdf-lib';
+
+export interface PdfPart {
+  // PDF bytes, or a document that is already loaded
+  buffer: Buffer | Uint8Array | PDFDocument;
+  // Bookmark title; parts without a title get no bookmark
+  title?: string;
+  // 0-based indices of the pages to copy, in order; every page when not set
+  pageIndices?: number[];
+}
+
+export interface MergedDocument {
+  document: PDFDocument;
+  // First page (1-based) and page count of each part in the merged document
+  ranges: Array<{ startPage: number; pageCount: number }>;
+}
+
+export interface OutlineEntry {
+  title: string;
+  // 0-based index of the page the bookmark points to
+  pageIndex: number;
+  // Vertical position on the page in PDF units; the top of the page when not set
+  top?: number;
+  // Nested bookmarks, shown expanded
+  children?: OutlineEntry[];
+}
+
+/**
+ * Adds bookmarks to a document, replacing any existing outline
+ * @param doc Document to add the outline to
+ * @param entries Bookmarks in display order
+ */
+export function setOutline(doc: PDFDocument, entries: OutlineEntry[]): void {
+  if (entries.length === 0) {
+    return;
+  }
+
+  const { context } = doc;
+  const pages = doc.getPages();
+  const outlineRef = context.nextRef();
+
+  // Adds the items of one level and returns their number including expanded descendants
+  const addItems = (items: OutlineEntry[], parentRef: PDFRef, parent: PDFDict): number => {
+    const itemRefs = items.map(() => context.nextRef());
+    let count = items.length;
+
+    items.forEach((entry, index) => {
+      const destination = PDFArray.withContext(context);
+      destination.push(pages[entry.pageIndex].ref);
+      destination.push(PDFName.of('XYZ'));
+      destination.push(PDFNull);
+      destination.push(entry.top === undefined ? PDFNull : PDFNumber.of(entry.top));
+      destination.push(PDFNull);
+
+      const item = context.obj({});
+      item.set(PDFName.of('Title'), PDFHexString.fromText(entry.title));
+      item.set(PDFName.of('Parent'), parentRef);
+      item.set(PDFName.of('Dest'), destination);
+      if (index > 0) {
+        item.set(PDFName.of('Prev'), itemRefs[index - 1]);
+      }
+      if (index < items.length - 1) {
+        item.set(PDFName.of('Next'), itemRefs[index + 1]);
+      }
+      if (entry.children?.length) {
+        count += addItems(entry.children, itemRefs[index], item);
+      }
+
+      context.assign(itemRefs[index], item);
+    });
+
+    parent.set(PDFName.of('First'), itemRefs[0]);
+    parent.set(PDFName.of('Last'), itemRefs[itemRefs.length - 1]);
+    parent.set(PDFName.of('Count'), PDFNumber.of(count));
+    return count;
+  };
+
+  const outline = context.obj({});
+  outline.set(PDFName.of('Type'), PDFName.of('Outlines'));
+  addItems(entries, outlineRef, outline);
+  context.assign(outlineRef, outline);
+
+  doc.catalog.set(PDFName.of('Outlines'), outlineRef);
+}
+
+/**
+ * Concatenates PDFs into one unsaved document with a bookmark at the start of each part
+ * @param parts PDFs to merge, in order
+ * @returns The merged document and where each part starts
+ */
+export async function mergePdfDocuments(parts: PdfPart[]): Promise<MergedDocument> {
+  const merged = await PDFDocument.create();
+  const ranges: MergedDocument['ranges'] = [];
+  const outline: OutlineEntry[] = [];
+
+  for (const part of parts) {
+    const source = part.buffer instanceof PDFDocument ? part.buffer : await PDFDocument.load(part.buffer);
+    const pages = await merged.copyPages(source, part.pageIndices || source.getPageIndices());
+    const startIndex = merged.getPageCount();
+
+    pages.forEach((page) => merged.addPage(page));
+    ranges.push({ startPage: startIndex + 1, pageCount: pages.length });
+
+    if (part.title && pages.length > 0) {
+      outline.push({ title: part.title, pageIndex: startIndex });
+    }
+  }
+
+  setOutline(merged, outline);
+
+  return { document: merged, ranges };
+}
+
+/**
+ * Concatenates PDFs into one PDF with a bookmark at the start of each part
+ * @param parts PDFs to merge, in order
+ * @returns The merged PDF
+ */
+export async function mergePdfs(parts: PdfPart[]): Promise<Buffer> {
+  const { document } = await mergePdfDocuments(parts);
+  return Buffer.from(await document.save());
+}
@@ -0,0 +1,353 @@
+import { PDFArray, PDFDict, PDFDocument, PDFHexString, PDFName, PDFNumber, PDFRef, PDFString } from 'pdf-lib';
+import { OutlineEntry, setOutline } from './pdfMerge';
+
+/**
+ * Document properties written to the PDF information dictionary and XMP metadata
+ */
+export interface DocumentMetadata {
+  title?: string;
+  author?: string;
+  subject?: string;
+  keywords?: string[];
+  // Application that created the content, e.g. "Billing Service"
+  creator?: string;
+  // BCP 47 language tag; defaults to the document locale
+  language?: string;
+  // Custom properties, e.g. { "Department": "Finance" }; names must be valid XML names
+  custom?: Record<string, string>;
+}
+
+/**
+ * Heading collected from the rendered document, in document order
+ */
+export interface DocumentHeading {
+  title: string;
+  // 1 for h1, 2 for h2, 3 for h3
+  level: number;
+}
+
+// Information dictionary keys with a meaning of their own, which custom properties may not replace
+const RESERVED_PROPERTIES = [
+  'Title',
+  'Author',
+  'Subject',
+  'Keywords',
+  'Creator',
+  'Producer',
+  'CreationDate',
+  'ModDate',
+  'Trapped',
+];
+
+// Custom properties are XMP elements, so their names must be XML names without a namespace prefix
+const PROPERTY_NAME = /^[A-Za-z_][A-Za-z0-9_.-]*$/;
+
+/**
+ * Checks whether a name can be used for a custom metadata property
+ * @param name Property name
+ * @returns Whether the name is a valid XML name that does not replace a standard property
+ */
+export function isValidPropertyName(name: string): boolean {
+  return PROPERTY_NAME.test(name) && !RESERVED_PROPERTIES.includes(name) && !/^xml/i.test(name);
+}
+
+/**
+ * Escapes text for XML and HTML content and attribute values
+ * @param text Text to escape
+ * @returns Escaped text
+ */
+export function escapeXml(text: string): string {
+  return text.replace(/[&<>"']/g, (char) => `&#${char.charCodeAt(0)};`);
+}
+
+/**
+ * Formats a date as an XMP date, e.g. "2024-03-01T12:00:00Z"
+ */
+function xmpDate(date: Date): string {
+  return date.toISOString().replace(/\.\d{3}Z$/, 'Z');
+}
+
+/**
+ * Properties of an XMP namespace that is not part of the standard schemas
+ */
+export interface XmpSchema {
+  namespace: string;
+  prefix: string;
+  // Human-readable name of the schema, used in PDF/A extension schema descriptions
+  name: string;
+  properties: Array<{ name: string; value: string; description: string }>;
+}
+
+export interface XmpOptions {
+  // PDF/A identification, e.g. { part: 3, conformance: 'B' }
+  pdfa?: { part: number; conformance: string };
+  // Additional namespaces, e.g. the Factur-X invoice properties
+  schemas?: XmpSchema[];
+}
+
+const PDFX_NAMESPACE = 'http://ns.adobe.com/pdfx/1.3/';
+
+/**
+ * Builds the XMP description of extension schemas, which PDF/A requires for
+ * every property outside the standard schemas
+ * @param schemas Schemas to describe
+ * @returns rdf:Description element
+ */
+function buildExtensionSchemas(schemas: XmpSchema[]): string {
+  const describe = (schema: XmpSchema) =>
+    [
+      '<rdf:li rdf:parseType="Resource">',
+      `<pdfaSchema:schema>${escapeXml(schema.name)}</pdfaSchema:schema>`,
+      `<pdfaSchema:namespaceURI>${escapeXml(schema.namespace)}</pdfaSchema:namespaceURI>`,
+      `<pdfaSchema:prefix>${schema.prefix}</pdfaSchema:prefix>`,
+      '<pdfaSchema:property><rdf:Seq>',
+      ...schema.properties.map(
+        (property) =>
+          '<rdf:li rdf:parseType="Resource">' +
+          `<pdfaProperty:name>${property.name}</pdfaProperty:name>` +
+          '<pdfaProperty:valueType>Text</pdfaProperty:valueType>' +
+          '<pdfaProperty:category>external</pdfaProperty:category>' +
+          `<pdfaProperty:description>${escapeXml(property.description)}</pdfaProperty:description>` +
+          '</rdf:li>'
+      ),
+      '</rdf:Seq></pdfaSchema:property>',
+      '</rdf:li>',
+    ].join('\n');
+
+  return [
+    '<rdf:Description rdf:about=""',
+    ' xmlns:pdfaExtension="http://www.aiim.org/pdfa/ns/extension/"',
+    ' xmlns:pdfaSchema="http://www.aiim.org/pdfa/ns/schema#"',
+    ' xmlns:pdfaProperty="http://www.aiim.org/pdfa/ns/property#">',
+    '<pdfaExtension:schemas><rdf:Bag>',
+    ...schemas.map(describe),
+    '</rdf:Bag></pdfaExtension:schemas>',
+    '</rdf:Description>',
+  ].join('\n');
+}
+
+/**
+ * Builds an XMP packet mirroring the document information dictionary
+ * @param metadata Document metadata
+ * @param producer Producer of the PDF
+ * @param created Creation date of the PDF
+ * @param modified Modification date of the PDF
+ * @param options PDF/A identification and additional namespaces
+ * @returns XMP packet as XML
+ */
+export function buildXmp(
+  metadata: DocumentMetadata,
+  producer: string,
+  created: Date,
+  modified: Date,
+  options: XmpOptions = {}
+): string {
+  const alt = (value: string) => `<rdf:Alt><rdf:li xml:lang="x-default">${escapeXml(value)}</rdf:li></rdf:Alt>`;
+  const list = (type: 'Seq' | 'Bag', values: string[]) =>
+    `<rdf:${type}>${values.map((value) => `<rdf:li>${escapeXml(value)}</rdf:li>`).join('')}</rdf:${type}>`;
+
+  const properties = [
+    '<dc:format>application/pdf</dc:format>',
+    metadata.title && `<dc:title>${alt(metadata.title)}</dc:title>`,
+    metadata.author && `<dc:creator>${list('Seq', [metadata.author])}</dc:creator>`,
+    metadata.subject && `<dc:description>${alt(metadata.subject)}</dc:description>`,
+    metadata.keywords?.length && `<dc:subject>${list('Bag', metadata.keywords)}</dc:subject>`,
+    metadata.language && `<dc:language>${list('Bag', [metadata.language])}</dc:language>`,
+    metadata.keywords?.length && `<pdf:Keywords>${escapeXml(metadata.keywords.join(', '))}</pdf:Keywords>`,
+    `<pdf:Producer>${escapeXml(producer)}</pdf:Producer>`,
+    metadata.creator && `<xmp:CreatorTool>${escapeXml(metadata.creator)}</xmp:CreatorTool>`,
+    `<xmp:CreateDate>${xmpDate(created)}</xmp:CreateDate>`,
+    `<xmp:ModifyDate>${xmpDate(modified)}</xmp:ModifyDate>`,
+    `<xmp:MetadataDate>${xmpDate(modified)}</xmp:MetadataDate>`,
+    options.pdfa && `<pdfaid:part>${options.pdfa.part}</pdfaid:part>`,
+    options.pdfa && `<pdfaid:conformance>${options.pdfa.conformance}</pdfaid:conformance>`,
+  ].filter(Boolean);
+
+  // Custom document information entries are mirrored in the pdfx namespace
+  const custom = Object.entries(metadata.custom || {});
+  const schemas: XmpSchema[] = [
+    ...(custom.length > 0
+      ? [
+          {
+            namespace: PDFX_NAMESPACE,
+            prefix: 'pdfx',
+            name: 'Custom document information',
+            properties: custom.map(([name, value]) => ({ name, value, description: 'Custom document property' })),
+          },
+        ]
+      : []),
+    ...(options.schemas || []),
+  ];
+
+  const schemaValues = schemas.map((schema) =>
+    [
+      `<rdf:Description rdf:about="" xmlns:${schema.prefix}="${escapeXml(schema.namespace)}">`,
+      ...schema.properties.map(
+        ({ name, value }) => `<${schema.prefix}:${name}>${escapeXml(value)}</${schema.prefix}:${name}>`
+      ),
+      '</rdf:Description>',
+    ].join('\n')
+  );
+
+  return [
+    '<?xpacket begin="\uFEFF" id="W5M0MpCehiHzreSzNTczkc9d"?>',
+    '<x:xmpmeta xmlns:x="adobe:ns:meta/">',
+    '<rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">',
+    '<rdf:Description rdf:about=""',
+    ' xmlns:dc="http://purl.org/dc/elements/1.1/"',
+    ' xmlns:pdf="http://ns.adobe.com/pdf/1.3/"',
+    ' xmlns:xmp="http://ns.adobe.com/xap/1.0/"',
+    ' xmlns:pdfaid="http://www.aiim.org/pdfa/ns/id/">',
+    ...properties,
+    '</rdf:Description>',
+    ...schemaValues,
+    // PDF/A readers must be told about every property outside the standard schemas
+    ...(options.pdfa && schemas.length > 0 ? [buildExtensionSchemas(schemas)] : []),
+    '</rdf:RDF>',
+    '</x:xmpmeta>',
+    '<?xpacket end="w"?>',
+  ].join('\n');
+}
+
+/**
+ * Writes metadata to the information dictionary, the XMP metadata stream and
+ * the document language. Fields that are not set keep the values Chromium
+ * wrote, and the XMP packet mirrors the information dictionary.
+ * @param doc Document to update
+ * @param metadata Document metadata
+ * @param options PDF/A identification and additional XMP namespaces
+ */
+export function setDocumentMetadata(doc: PDFDocument, metadata: DocumentMetadata, options: XmpOptions = {}): void {
+  if (metadata.title) {
+    doc.setTitle(metadata.title, { showInWindowTitleBar: true });
+  }
+  if (metadata.author) {
+    doc.setAuthor(metadata.author);
+  }
+  if (metadata.subject) {
+    doc.setSubject(metadata.subject);
+  }
+  if (metadata.creator) {
+    doc.setCreator(metadata.creator);
+  }
+  if (metadata.language) {
+    doc.setLanguage(metadata.language);
+  }
+
+  const created = doc.getCreationDate() || new Date();
+  const modified = new Date();
+  doc.setCreationDate(created);
+  doc.setModificationDate(modified);
+
+  // Keywords are joined the same way in both places, so the XMP packet matches the dictionary exactly
+  const info = doc.context.lookup(doc.context.trailerInfo.Info, PDFDict);
+  if (metadata.keywords?.length) {
+    info.set(PDFName.of('Keywords'), PDFHexString.fromText(metadata.keywords.join(', ')));
+  }
+  Object.entries(metadata.custom || {}).forEach(([name, value]) => {
+    info.set(PDFName.of(name), PDFHexString.fromText(value));
+  });
+
+  // The XMP packet must stay uncompressed and UTF-8 encoded for metadata readers
+  const xmp = buildXmp(
+    {
+      ...metadata,
+      title: metadata.title || doc.getTitle(),
+      author: metadata.author || doc.getAuthor(),
+      subject: metadata.subject || doc.getSubject(),
+      creator: metadata.creator || doc.getCreator(),
+    },
+    doc.getProducer() || 'pdf-lib',
+    created,
+    modified,
+    options
+  );
+  const stream = doc.context.stream(Buffer.from(xmp, 'utf8'), { Type: 'Metadata', Subtype: 'XML' });
+  doc.catalog.set(PDFName.of('Metadata'), doc.context.register(stream));
+}
+
+/**
+ * Reads the title and destination of every item of a document outline, depth first
+ * @param doc Document with an outline
+ * @returns Outline items in document order
+ */
+function readOutline(doc: PDFDocument): Array<{ title: string; pageIndex: number; top?: number }> {
+  const outlines = doc.catalog.lookupMaybe(PDFName.of('Outlines'), PDFDict);
+  const pageRefs = doc.getPages().map((page) => page.ref.toString());
+  const items: Array<{ title: string; pageIndex: number; top?: number }> = [];
+  // Every item is visited once, so a malformed outline with a cycle cannot loop forever
+  const seen = new Set<string>();
+
+  const visit = (ref: unknown) => {
+    let current = ref;
+
+    while (current instanceof PDFRef && !seen.has(current.toString())) {
+      seen.add(current.toString());
+      const item = doc.context.lookup(current, PDFDict);
+      const title = item.lookup(PDFName.of('Title'));
+      const action = item.lookupMaybe(PDFName.of('A'), PDFDict);
+      const destination =
+        item.lookupMaybe(PDFName.of('Dest'), PDFArray) || action?.lookupMaybe(PDFName.of('D'), PDFArray);
+      const pageIndex = destination ? pageRefs.indexOf(String(destination.get(0))) : -1;
+
+      if ((title instanceof PDFHexString || title instanceof PDFString) && pageIndex !== -1) {
+        const top = destination!.lookup(3);
+        items.push({
+          title: title.decodeText(),
+          pageIndex,
+          top: top instanceof PDFNumber ? top.asNumber() : undefined,
+        });
+      }
+
+      visit(item.get(PDFName.of('First')));
+      current = item.get(PDFName.of('Next'));
+    }
+  };
+
+  visit(outlines?.get(PDFName.of('First')));
+  return items;
+}
+
+/**
+ * Replaces the outline Chromium generated from every heading with one built
+ * from the given headings. Chromium knows which page each heading landed on;
+ * the headings decide which of its items are kept and how they are nested.
+ * @param doc Document printed with Chromium's outline enabled
+ * @param headings Headings to include, in document order
+ */
+export function setHeadingOutline(doc: PDFDocument, headings: DocumentHeading[]): void {
+  const normalize = (text: string) => text.replace(/\s+/g, ' ').trim();
+  const items = readOutline(doc);
+  const roots: OutlineEntry[] = [];
+  const parents: Array<{ level: number; entry: OutlineEntry }> = [];
+  let next = 0;
+
+  headings.forEach((heading) => {
+    // Items are in document order, so each heading is looked for after the previous match
+    const title = normalize(heading.title);
+    const index = items.findIndex((item, position) => position >= next && normalize(item.title) === title);
+    if (index === -1) {
+      return;
+    }
+    next = index + 1;
+
+    const entry: OutlineEntry = { title, pageIndex: items[index].pageIndex, top: items[index].top };
+    while (parents.length > 0 && parents[parents.length - 1].level >= heading.level) {
+      parents.pop();
+    }
+
+    if (parents.length > 0) {
+      const parent = parents[parents.length - 1].entry;
+      parent.children = [...(parent.children || []), entry];
+    } else {
+      roots.push(entry);
+    }
+    parents.push({ level: heading.level, entry });
+  });
+
+  if (roots.length > 0) {
+    setOutline(doc, roots);
+  } else {
+    doc.catalog.delete(PDFName.of('Outlines'));
+  }
+}
@@ -0,0 +1,493 @@
+import JSZip from 'jszip';
+import {
+  concatTransformationMatrix,
+  drawObject,
+  EncryptedPDFError,
+  PDFDocument,
+  PDFEmbeddedPage,
+  PDFPage,
+  popGraphicsState,
+  pushGraphicsState,
+  setGraphicsState,
+} from 'pdf-lib';
+import { envInt } from './env';
+import { finishPdf, PdfOptions, RenderedDocument, renderDocument } from './pdfGenerator';
+import { mergePdfDocuments } from './pdfMerge';
+import {
+  PdfRequestBody,
+  PdfRequestError,
+  PreparedPdfRequest,
+  preparePdfRequest,
+  validatePdfOptions,
+  validateStyle,
+} from './pdfRequest';
+import { ValidationOptions } from './propsSchema';
+
+const MAX_SOURCES = envInt('PDF_MERGE_MAX_SOURCES', 50);
+
+// Stamps and page numbers are laid over existing pages, which must show through
+const TRANSPARENT_PAGE_CSS = 'html, body { background: transparent !important; }';
+
+/**
+ * A PDF to process: either uploaded as base64 in `pdf`, or rendered from a
+ * template request like the ones `/generate` and `/render` accept
+ */
+export interface PdfSource extends PdfRequestBody {
+  // Base64-encoded PDF; the template fields are ignored when it is set
+  pdf?: string;
+  // Page ranges to use, e.g. "1-3,5,8-"; every page when not set
+  pages?: string;
+  // Bookmark title in merged output
+  title?: string;
+}
+
+export type StampLayer = 'foreground' | 'background';
+
+export interface MergeRequest {
+  sources: PdfSource[];
+  options?: PdfOptions;
+}
+
+export interface SplitRequest {
+  source: PdfSource;
+  // One PDF is returned per range; several ranges are returned as a ZIP archive
+  ranges: string[];
+  options?: PdfOptions;
+}
+
+export interface StampRequest {
+  source: PdfSource;
+  // Template whose first page is drawn onto the source pages; its background should be transparent
+  stamp: PdfRequestBody;
+  // Pages to stamp; every page when not set
+  pages?: string;
+  // Draw over the page content (default) or behind it
+  layer?: StampLayer;
+  // 0-1 (default 1)
+  opacity?: number;
+  options?: PdfOptions;
+}
+
+export interface PageNumberRequest {
+  source: PdfSource;
+  // Pages to number; every page when not set
+  pages?: string;
+  // Props of JSX string headers and footers
+  data?: Record<string, any>;
+  // `header` and `footer` draw the numbers with `PageNumber` and `TotalPages`; format and margins place them
+  options?: PdfOptions;
+}
+
+/**
+ * A source that was checked and can be loaded
+ */
+type PreparedSource = (
+  | { kind: 'upload'; bytes: Buffer }
+  | { kind: 'render'; request: PreparedPdfRequest }
+) & { pages?: string; title?: string; label: string };
+
+interface LoadedSource {
+  document: PDFDocument;
+  // 0-based indices of the selected pages
+  pageIndices: number[];
+  title?: string;
+  warnings: string[];
+}
+
+// A list of page numbers and ranges such as "1-3,5,8-"
+const PAGE_RANGES = /^\s*\d+\s*(-\s*\d*\s*)?(,\s*\d+\s*(-\s*\d*\s*)?)*$/;
+
+/**
+ * Resolves page ranges to page indices. Open ranges such as "3-" run to the last page.
+ * @param ranges Page numbers and ranges, e.g. "1-3,5,8-"
+ * @param pageCount Number of pages in the document
+ * @param label Name of the source used in error messages
+ * @returns 0-based page indices in the order of the ranges
+ * @throws PdfRequestError when a range is reversed or outside the document
+ */
+export function resolvePageRanges(ranges: string, pageCount: number, label = 'source'): number[] {
+  if (!PAGE_RANGES.test(ranges)) {
+    throw new PdfRequestError(`Invalid page ranges "${ranges}" in ${label}`);
+  }
+
+  return ranges.split(',').flatMap((range) => {
+    const [first, last] = range.split('-').map((part) => part.trim());
+    const start = Number(first);
+    const end = last === undefined ? start : last === '' ? pageCount : Number(last);
+
+    if (start < 1 || end < start || end > pageCount) {
+      throw new PdfRequestError(`Page range "${range.trim()}" is outside the ${pageCount} pages of ${label}`);
+    }
+    return Array.from({ length: end - start + 1 }, (_, index) => start - 1 + index);
+  });
+}
+
+/**
+ * Checks that a rendered source can be read back: it must be a plain PDF
+ */
+function checkRenderOptions(options: PdfOptions, label: string): void {
+  if ((options.outputFormat || 'pdf') !== 'pdf') {
+    throw new PdfRequestError(`${label} must be rendered as a PDF`);
+  }
+  if (options.pdfa || options.encryption || options.signature) {
+    throw new PdfRequestError(`${label} cannot be PDF/A, encrypted or signed; set these options on the result`);
+  }
+}
+
+/**
+ * Validates a source and prepares its template for rendering
+ * @param source Uploaded PDF or template request
+ * @param label Name of the source in error messages, e.g. "sources[1]"
+ * @param validation Options for validating template data
+ * @returns The decoded PDF or the prepared request
+ * @throws PdfRequestError when the source is missing or invalid
+ */
+function prepareSource(source: PdfSource | undefined, label: string, validation: ValidationOptions): PreparedSource {
+  if (typeof source !== 'object' || source === null) {
+    throw new PdfRequestError(`Missing ${label}`);
+  }
+
+  const { pdf, pages, title } = source;
+  if (pages !== undefined && (typeof pages !== 'string' || !PAGE_RANGES.test(pages))) {
+    throw new PdfRequestError(`Invalid ${label}.pages, expected page ranges such as "1-3,5"`);
+  }
+  if (title !== undefined && typeof title !== 'string') {
+    throw new PdfRequestError(`Invalid ${label}.title, expected a string`);
+  }
+
+  if (pdf !== undefined) {
+    const bytes = typeof pdf === 'string' ? Buffer.from(pdf, 'base64') : Buffer.alloc(0);
+    // The header may follow some junk bytes, but must be near the start
+    if (!bytes.subarray(0, 1024).includes('%PDF-')) {
+      throw new PdfRequestError(`Invalid ${label}.pdf, expected a base64-encoded PDF`);
+    }
+    return { kind: 'upload', bytes, pages, title, label };
+  }
+
+  const request = preparePdfRequest(source, undefined, validation);
+  checkRenderOptions(request.options, label);
+  return { kind: 'render', request, pages, title, label };
+}
+
+/**
+ * Loads an uploaded PDF or renders a template, and selects its pages
+ * @param source Prepared source
+ * @returns The document, the selected page indices and render warnings
+ * @throws PdfRequestError when an uploaded PDF cannot be read or a page range is outside it
+ */
+async function loadSource(source: PreparedSource): Promise<LoadedSource> {
+  let bytes: Buffer;
+  let warnings: string[] = [];
+
+  if (source.kind === 'upload') {
+    bytes = source.bytes;
+  } else {
+    const { request } = source;
+    const rendered = await renderDocument(await request.renderMarkup(), request.options, request.data);
+    bytes = rendered.buffer;
+    warnings = rendered.warnings;
+  }
+
+  let document: PDFDocument;
+  try {
+    document = await PDFDocument.load(bytes, { updateMetadata: false });
+  } catch (error) {
+    if (error instanceof EncryptedPDFError) {
+      throw new PdfRequestError(`${source.label} is encrypted and cannot be processed`);
+    }
+    throw new PdfRequestError(`${source.label} could not be read as a PDF`);
+  }
+
+  const pageIndices = source.pages
+    ? resolvePageRanges(source.pages, document.getPageCount(), source.label)
+    : document.getPageIndices();
+
+  return { document, pageIndices, title: source.title, warnings };
+}
+
+/**
+ * Returns a document with only the selected pages of a source, in the selected order
+ * @param source Loaded source
+ * @returns The source document when every page is selected in order, otherwise a copy
+ */
+async function selectSourcePages({ document, pageIndices }: LoadedSource): Promise<PDFDocument> {
+  if (pageIndices.length === document.getPageCount() && pageIndices.every((pageIndex, index) => pageIndex === index)) {
+    return document;
+  }
+
+  const { document: selection } = await mergePdfDocuments([{ buffer: document, pageIndices }]);
+  return selection;
+}
+
+/**
+ * Validates the options of the result of an operation
+ * @param options Options received in the request
+ * @returns The options, defaulting to an empty object
+ * @throws PdfRequestError when an option is invalid or asks for another output than PDF
+ */
+function readResultOptions(options: PdfOptions | undefined): PdfOptions {
+  validatePdfOptions(options);
+  validateStyle(options || {});
+
+  if ((options?.outputFormat || 'pdf') !== 'pdf') {
+    throw new PdfRequestError('PDF operations only produce the pdf output format');
+  }
+
+  return options || {};
+}
+
+/**
+ * Applies the metadata, PDF/A, signature and encryption options to an assembled document
+ * @param document Result of the operation
+ * @param options Options of the result
+ * @param warnings Render warnings of the sources
+ * @returns The finished PDF
+ */
+async function finishDocument(
+  document: PDFDocument,
+  options: PdfOptions,
+  warnings: string[]
+): Promise<RenderedDocument> {
+  const { buffer, conformance } = await finishPdf(Buffer.from(await document.save()), options);
+
+  return {
+    buffer,
+    contentType: 'application/pdf',
+    filename: `${(options.filename || 'document.pdf').replace(/\.pdf$/i, '')}.pdf`,
+    warnings,
+    conformance,
+  };
+}
+
+/**
+ * Draws a page of another document onto a page, scaled to fit and centered
+ * @param page Page to draw on
+ * @param overlay Embedded page to draw
+ * @param layer Whether to draw over or behind the existing content
+ * @param opacity Opacity of the overlay, 0-1
+ */
+export function drawOverlay(page: PDFPage, overlay: PDFEmbeddedPage, layer: StampLayer, opacity: number): void {
+  const { context } = page.doc;
+  const box = page.getMediaBox();
+  const scale = Math.min(box.width / overlay.width, box.height / overlay.height);
+  const x = box.x + (box.width - overlay.width * scale) / 2;
+  const y = box.y + (box.height - overlay.height * scale) / 2;
+
+  const name = page.node.newXObject('Overlay', overlay.ref);
+  const graphicsState = page.node.newExtGState('Overlay', context.obj({ Type: 'ExtGState', ca: opacity, CA: opacity }));
+  const stream = context.register(
+    context.contentStream([
+      pushGraphicsState(),
+      setGraphicsState(graphicsState),
+      concatTransformationMatrix(scale, 0, 0, scale, x, y),
+      drawObject(name),
+      popGraphicsState(),
+    ])
+  );
+
+  if (layer === 'foreground') {
+    // The existing content is wrapped so graphics state it leaves behind does not affect the overlay
+    page.node.wrapContentStreams(
+      context.register(context.contentStream([pushGraphicsState()])),
+      context.register(context.contentStream([popGraphicsState()]))
+    );
+  }
+
+  const { Contents } = page.node.normalizedEntries();
+  if (layer === 'background' && Contents) {
+    Contents.insert(0, stream);
+  } else {
+    page.node.addContentStream(stream);
+  }
+}
+
+/**
+ * Validates the body of a `/merge` request
+ * @param body Request body with `sources` and optional result `options`
+ * @param validation Options for validating template data
+ * @returns A function that merges the sources
+ * @throws PdfRequestError when the body is not a valid merge request
+ */
+export function readMergeRequest(body: any, validation: ValidationOptions = {}): () => Promise<RenderedDocument> {
+  const { sources, options }: MergeRequest = body || {};
+
+  if (!Array.isArray(sources) || sources.length === 0) {
+    throw new PdfRequestError('Missing sources');
+  }
+  if (sources.length > MAX_SOURCES) {
+    throw new PdfRequestError(`A merge may contain at most ${MAX_SOURCES} sources`);
+  }
+
+  const prepared = sources.map((source, index) => prepareSource(source, `sources[${index}]`, validation));
+  const resultOptions = readResultOptions(options);
+
+  return async () => {
+    const loaded: LoadedSource[] = [];
+    for (const source of prepared) {
+      loaded.push(await loadSource(source));
+    }
+
+    const { document } = await mergePdfDocuments(
+      loaded.map(({ document: buffer, pageIndices, title }) => ({ buffer, pageIndices, title }))
+    );
+    const warnings = loaded.flatMap((source) => source.warnings);
+    return finishDocument(document, { filename: 'merged.pdf', ...resultOptions }, warnings);
+  };
+}
+
+/**
+ * Validates the body of a `/split` request
+ * @param body Request body with `source`, `ranges` and optional result `options`
+ * @param validation Options for validating template data
+ * @returns A function that extracts the ranges, as one PDF or a ZIP archive of PDFs
+ * @throws PdfRequestError when the body is not a valid split request
+ */
+export function readSplitRequest(body: any, validation: ValidationOptions = {}): () => Promise<RenderedDocument> {
+  const { source, ranges, options }: SplitRequest = body || {};
+  const rangeList = typeof ranges === 'string' ? [ranges] : ranges;
+
+  if (
+    !Array.isArray(rangeList) ||
+    rangeList.length === 0 ||
+    rangeList.some((range) => typeof range !== 'string' || !PAGE_RANGES.test(range))
+  ) {
+    throw new PdfRequestError('Invalid ranges, expected page ranges such as ["1-3", "4-"]');
+  }
+  if (rangeList.length > MAX_SOURCES) {
+    throw new PdfRequestError(`A split may produce at most ${MAX_SOURCES} documents`);
+  }
+
+  const prepared = prepareSource(source, 'source', validation);
+  const resultOptions = readResultOptions(options);
+
+  return async () => {
+    const { document, warnings } = await loadSource(prepared);
+    const parts: RenderedDocument[] = [];
+
+    for (const range of rangeList) {
+      const pageIndices = resolvePageRanges(range, document.getPageCount(), 'source');
+      const { document: part } = await mergePdfDocuments([{ buffer: document, pageIndices }]);
+      parts.push(await finishDocument(part, { filename: 'pages.pdf', ...resultOptions }, warnings));
+    }
+
+    if (parts.length === 1) {
+      return parts[0];
+    }
+
+    // Name each part after its range, e.g. "contract-1-3.pdf"
+    const basename = parts[0].filename.replace(/\.pdf$/i, '');
+    const zip = new JSZip();
+    parts.forEach((part, index) => {
+      zip.file(`${basename}-${rangeList[index].replace(/\s+/g, '').replace(/,/g, '_')}.pdf`, part.buffer);
+    });
+
+    return {
+      buffer: await zip.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' }),
+      contentType: 'application/zip',
+      filename: `${basename}.zip`,
+      warnings,
+    };
+  };
+}
+
+/**
+ * Validates the body of a `/stamp` request
+ * @param body Request body with `source`, `stamp` and the placement of the stamp
+ * @param validation Options for validating template data
+ * @returns A function that draws the first page of the stamp onto the selected pages
+ * @throws PdfRequestError when the body is not a valid stamp request
+ */
+export function readStampRequest(body: any, validation: ValidationOptions = {}): () => Promise<RenderedDocument> {
+  const { source, stamp, pages, layer = 'foreground', opacity = 1, options }: StampRequest = body || {};
+
+  if (pages !== undefined && (typeof pages !== 'string' || !PAGE_RANGES.test(pages))) {
+    throw new PdfRequestError('Invalid pages, expected page ranges such as "1-3,5"');
+  }
+  if (layer !== 'foreground' && layer !== 'background') {
+    throw new PdfRequestError('Invalid layer, expected "foreground" or "background"');
+  }
+  if (typeof opacity !== 'number' || !(opacity >= 0 && opacity <= 1)) {
+    throw new PdfRequestError('Invalid opacity, expected a number from 0 to 1');
+  }
+  if (typeof stamp !== 'object' || stamp === null) {
+    throw new PdfRequestError('Missing stamp');
+  }
+
+  const preparedSource = prepareSource(source, 'source', validation);
+  // Only the first page of the stamp is drawn
+  const stampOptions = { ...stamp.options, css: `${stamp.options?.css || ''}\n${TRANSPARENT_PAGE_CSS}` };
+  const preparedStamp = prepareSource(
+    { ...stamp, options: stampOptions, pdf: undefined, pages: '1' },
+    'stamp',
+    validation
+  );
+  const resultOptions = readResultOptions(options);
+
+  return async () => {
+    const source = await loadSource(preparedSource);
+    const stampSource = await loadSource(preparedStamp);
+    const target = await selectSourcePages(source);
+    const [overlay] = await target.embedPdf(stampSource.document, [0]);
+    const selected = pages ? resolvePageRanges(pages, target.getPageCount()) : target.getPageIndices();
+
+    new Set(selected).forEach((index) => drawOverlay(target.getPage(index), overlay, layer, opacity));
+
+    return finishDocument(target, { filename: 'stamped.pdf', ...resultOptions }, [
+      ...source.warnings,
+      ...stampSource.warnings,
+    ]);
+  };
+}
+
+/**
+ * Validates the body of a `/page-numbers` request
+ * @param body Request body with `source` and the header or footer that draws the numbers
+ * @param validation Options for validating template data
+ * @returns A function that draws the header and footer onto the selected pages
+ * @throws PdfRequestError when the body is not a valid page number request
+ */
+export function readPageNumberRequest(body: any, validation: ValidationOptions = {}): () => Promise<RenderedDocument> {
+  const { source, pages, data = {}, options }: PageNumberRequest = body || {};
+
+  if (pages !== undefined && (typeof pages !== 'string' || !PAGE_RANGES.test(pages))) {
+    throw new PdfRequestError('Invalid pages, expected page ranges such as "1-3,5"');
+  }
+  if (typeof data !== 'object' || data === null) {
+    throw new PdfRequestError('Invalid data, expected an object');
+  }
+
+  const preparedSource = prepareSource(source, 'source', validation);
+  const resultOptions = readResultOptions(options);
+  if (!resultOptions.header && !resultOptions.footer) {
+    throw new PdfRequestError('Page numbers need options.header or options.footer');
+  }
+
+  return async () => {
+    const source = await loadSource(preparedSource);
+    const target = await selectSourcePages(source);
+    const pageCount = target.getPageCount();
+
+    // Chromium numbers the pages of an empty document with one sheet per page, which is then laid over the source
+    const sheets = Array.from({ length: pageCount }, (_, index) =>
+      index < pageCount - 1 ? '<div style="break-after: page"></div>' : '<div></div>'
+    ).join('');
+    const { pdfa, encryption, signature, metadata, attachments, ...decorationOptions } = resultOptions;
+    const css = `${decorationOptions.css || ''}\n${TRANSPARENT_PAGE_CSS}`;
+    const sheetOptions: PdfOptions = { ...decorationOptions, css, outputFormat: 'pdf', outline: false };
+    const numbered = await renderDocument(sheets, sheetOptions, data);
+    const overlay = await PDFDocument.load(numbered.buffer);
+    const embedded = await target.embedPages(overlay.getPages());
+    const selected = pages ? resolvePageRanges(pages, pageCount) : target.getPageIndices();
+
+    new Set(selected).forEach((index) => {
+      if (embedded[index]) {
+        drawOverlay(target.getPage(index), embedded[index], 'foreground', 1);
+      }
+    });
+
+    return finishDocument(target, { filename: 'numbered.pdf', ...resultOptions }, [
+      ...source.warnings,
+      ...numbered.warnings,
+    ]);
+  };
+}
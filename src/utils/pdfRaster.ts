@@ -0,0 +1,36 @@
+import { createCanvas } from '@napi-rs/canvas';
+import path from 'path';
+import * as pdfjs from 'pdfjs-dist/legacy/build/pdf.mjs';
+
+// Fonts the PDF uses without embedding them, like the standard 14 fonts of pdf-lib documents
+const STANDARD_FONTS_DIR = path.join(path.dirname(require.resolve('pdfjs-dist/package.json')), 'standard_fonts/');
+
+/**
+ * Draws each page of a PDF, so what was printed can be compared with a baseline image
+ * @param pdf PDF file
+ * @param scale Pixels per PDF point; 1 draws a Letter page at 612x792 pixels
+ * @returns PNG of each page, in page order
+ */
+export async function rasterizePdf(pdf: Uint8Array, scale = 1): Promise<Buffer[]> {
+  // pdf.js takes ownership of the data it is given, so the caller's buffer is copied
+  const doc = await pdfjs.getDocument({
+    data: new Uint8Array(pdf),
+    standardFontDataUrl: STANDARD_FONTS_DIR,
+    isEvalSupported: false,
+  }).promise;
+
+  try {
+    const images: Buffer[] = [];
+    for (let number = 1; number <= doc.numPages; number++) {
+      const page = await doc.getPage(number);
+      const viewport = page.getViewport({ scale });
+      const canvas = createCanvas(Math.ceil(viewport.width), Math.ceil(viewport.height));
+      await page.render({ canvas: canvas as unknown as HTMLCanvasElement, viewport }).promise;
+      images.push(canvas.toBuffer('image/png'));
+      page.cleanup();
+    }
+    return images;
+  } finally {
+    await doc.destroy();
+  }
+}
@@ -0,0 +1,583 @@
+import React from 'react';
+import { renderToStaticMarkup } from 'react-dom/server';
+import { isValidLocale, withLocale } from './i18n';
+import {
+  compileJsxString,
+  ImageOptions,
+  isCacheable,
+  OUTPUT_FORMATS,
+  PdfOptions,
+  renderCompiledTemplate,
+  renderJsxString,
+  stylesheetVersion,
+} from './pdfGenerator';
+import { PDFA_LEVELS } from './pdfa';
+import { DocumentMetadata, isValidPropertyName } from './pdfMetadata';
+import { MAX_PASSWORD_BYTES, PERMISSION_NAMES, PRINT_PERMISSIONS } from './pdfSecurity';
+import { isSigningConfigured } from './pdfSignature';
+import { JsonSchema, validateProps, ValidationIssue, ValidationOptions } from './propsSchema';
+import { renderCacheKey } from './renderCache';
+import { getTemplate } from './templateRegistry';
+import { getTemplateStore, TemplateDraft } from './templateStore';
+import { mergeStyleOptions, ThemeError, validateStyleOptions } from './themes';
+
+export interface PdfRequestBody {
+  templateType?: string;
+  jsxTemplate?: string;
+  // Template stored through `/templates`, at its latest version unless `templateVersion` is set
+  templateId?: string;
+  templateVersion?: number;
+  data?: Record<string, any>;
+  options?: PdfOptions;
+}
+
+/**
+ * Raised when a request body does not describe a document that can be rendered
+ */
+export class PdfRequestError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PdfRequestError';
+  }
+
+  /**
+   * Returns the payload sent to API clients with the 400 response
+   */
+  toJSON(): Record<string, unknown> {
+    return { error: this.message };
+  }
+}
+
+/**
+ * Raised when template data does not match the template's props schema
+ */
+export class PropsValidationError extends PdfRequestError {
+  readonly issues: ValidationIssue[];
+
+  constructor(issues: ValidationIssue[]) {
+    super('Invalid template data');
+    this.name = 'PropsValidationError';
+    this.issues = issues;
+  }
+
+  toJSON(): Record<string, unknown> {
+    return {
+      ...super.toJSON(),
+      details: this.issues.map((issue) => `${issue.path}: ${issue.message}`),
+      issues: this.issues,
+    };
+  }
+}
+
+/**
+ * Raised when a request names a stored template or version that does not exist
+ */
+export class TemplateNotFoundError extends PdfRequestError {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TemplateNotFoundError';
+  }
+}
+
+export interface PreparedPdfRequest {
+  filename: string;
+  options: PdfOptions;
+  // Props of the document, also passed to JSX string headers and footers
+  data: Record<string, any>;
+  // Values the template computed from the data, e.g. invoice totals
+  summary?: object;
+  renderMarkup: () => Promise<string>;
+  // Hash of the template, data, options and stylesheet; unset when the document cannot be cached
+  cacheKey?: string;
+  // Groups the cached documents of a template: its type, or "jsx" for JSX strings
+  cacheTag: string;
+}
+
+/**
+ * Checks the output format, image options and PDF/A level of a request
+ * @param options Options received in the request
+ * @throws PdfRequestError when the output format, image options or PDF/A level are invalid
+ */
+function validateOutputOptions(options: PdfOptions | undefined): void {
+  if (options?.outputFormat !== undefined && !OUTPUT_FORMATS.includes(options.outputFormat)) {
+    throw new PdfRequestError(`Invalid output format, expected one of: ${OUTPUT_FORMATS.join(', ')}`);
+  }
+
+  const { pages, scale, thumbnail, quality }: ImageOptions = options?.image || {};
+  const isPageNumber = (page: unknown) => Number.isInteger(page) && (page as number) >= 1;
+  const isPositive = (value: unknown) => typeof value === 'number' && Number.isFinite(value) && value > 0;
+
+  const validPages =
+    pages === undefined ||
+    pages === 'first' ||
+    pages === 'all' ||
+    isPageNumber(pages) ||
+    (Array.isArray(pages) && pages.length > 0 && pages.every(isPageNumber));
+  const validThumbnail =
+    thumbnail === undefined || ['small', 'medium', 'large'].includes(thumbnail as string) || isPositive(thumbnail);
+  const validQuality = quality === undefined || (Number.isInteger(quality) && quality >= 0 && quality <= 100);
+
+  if (!validPages || (scale !== undefined && !isPositive(scale)) || !validThumbnail || !validQuality) {
+    throw new PdfRequestError('Invalid image options');
+  }
+
+  if (options?.pdfa !== undefined && !PDFA_LEVELS.includes(options.pdfa)) {
+    throw new PdfRequestError(`Invalid PDF/A level, expected one of: ${PDFA_LEVELS.join(', ')}`);
+  }
+  if (options?.pdfa !== undefined && (options.outputFormat || 'pdf') !== 'pdf') {
+    throw new PdfRequestError('PDF/A requires the pdf output format');
+  }
+
+  // Attached files come from the template, so a request cannot smuggle arbitrary files into an archive
+  if (options?.attachments !== undefined) {
+    throw new PdfRequestError('Attachments cannot be set in requests');
+  }
+}
+
+/**
+ * Checks the document metadata and outline option of a request
+ * @param options Options received in the request
+ * @throws PdfRequestError when a metadata field has the wrong type or a custom property name is invalid
+ */
+function validateMetadata(options: PdfOptions | undefined): void {
+  if (options?.outline !== undefined && typeof options.outline !== 'boolean') {
+    throw new PdfRequestError('Invalid outline option, expected a boolean');
+  }
+
+  if (options?.metadata === undefined) {
+    return;
+  }
+
+  const metadata = options.metadata as Record<string, unknown>;
+  if (typeof metadata !== 'object' || metadata === null || Array.isArray(metadata)) {
+    throw new PdfRequestError('Invalid metadata, expected an object');
+  }
+
+  const textFields: Array<keyof DocumentMetadata> = ['title', 'author', 'subject', 'creator', 'language'];
+  const invalidField = textFields.find((field) => metadata[field] !== undefined && typeof metadata[field] !== 'string');
+  if (invalidField) {
+    throw new PdfRequestError(`Invalid metadata.${invalidField}, expected a string`);
+  }
+
+  const { keywords, custom } = metadata;
+  const isStringList = (value: unknown) => Array.isArray(value) && value.every((item) => typeof item === 'string');
+  if (keywords !== undefined && !isStringList(keywords)) {
+    throw new PdfRequestError('Invalid metadata.keywords, expected an array of strings');
+  }
+
+  if (custom !== undefined) {
+    if (typeof custom !== 'object' || custom === null || Array.isArray(custom)) {
+      throw new PdfRequestError('Invalid metadata.custom, expected an object');
+    }
+
+    Object.entries(custom).forEach(([name, value]) => {
+      if (!isValidPropertyName(name)) {
+        throw new PdfRequestError(`Invalid metadata.custom property name "${name}"`);
+      }
+      if (typeof value !== 'string') {
+        throw new PdfRequestError(`Invalid metadata.custom.${name}, expected a string`);
+      }
+    });
+  }
+}
+
+/**
+ * Checks the encryption and signature options of a request
+ * @param options Options received in the request
+ * @throws PdfRequestError when a password or permission is invalid, signing is not configured, or the
+ * options cannot be combined with the output format or PDF/A
+ */
+function validateSecurity(options: PdfOptions | undefined): void {
+  const { encryption, signature } = options || {};
+  const isObject = (value: unknown) => typeof value === 'object' && value !== null && !Array.isArray(value);
+  const isText = (value: unknown) => value === undefined || typeof value === 'string';
+
+  if (encryption !== undefined) {
+    if (!isObject(encryption)) {
+      throw new PdfRequestError('Invalid encryption, expected an object');
+    }
+
+    const { userPassword, ownerPassword, permissions } = encryption;
+    (['userPassword', 'ownerPassword'] as const).forEach((field) => {
+      const password = encryption[field];
+      if (!isText(password) || Buffer.byteLength(password || '', 'utf8') > MAX_PASSWORD_BYTES) {
+        throw new PdfRequestError(
+          `Invalid encryption.${field}, expected a string of up to ${MAX_PASSWORD_BYTES} bytes`
+        );
+      }
+    });
+    if (!userPassword && !ownerPassword) {
+      throw new PdfRequestError('Invalid encryption, expected a userPassword or an ownerPassword');
+    }
+
+    if (permissions !== undefined) {
+      if (!isObject(permissions)) {
+        throw new PdfRequestError('Invalid encryption.permissions, expected an object');
+      }
+      Object.entries(permissions).forEach(([name, value]) => {
+        const valid =
+          name === 'printing'
+            ? PRINT_PERMISSIONS.includes(value)
+            : PERMISSION_NAMES.includes(name as (typeof PERMISSION_NAMES)[number]) && typeof value === 'boolean';
+        if (!valid) {
+          throw new PdfRequestError(`Invalid encryption.permissions.${name}`);
+        }
+      });
+    }
+  }
+
+  if (signature !== undefined) {
+    if (!isObject(signature)) {
+      throw new PdfRequestError('Invalid signature, expected an object');
+    }
+
+    const invalidField = (['reason', 'location', 'contactInfo'] as const).find((field) => !isText(signature[field]));
+    if (invalidField) {
+      throw new PdfRequestError(`Invalid signature.${invalidField}, expected a string`);
+    }
+
+    const { visible } = signature;
+    if (visible !== undefined) {
+      const isSize = (value: unknown) => typeof value === 'number' && Number.isFinite(value) && value > 0;
+      const isPosition = (value: unknown) => typeof value === 'number' && Number.isFinite(value) && value >= 0;
+      const validPage = visible?.page === undefined || (Number.isInteger(visible.page) && visible.page >= 1);
+      if (
+        !isObject(visible) ||
+        !validPage ||
+        !isPosition(visible.x) ||
+        !isPosition(visible.y) ||
+        !isSize(visible.width) ||
+        !isSize(visible.height)
+      ) {
+        throw new PdfRequestError('Invalid signature.visible, expected a page, x, y, width and height in points');
+      }
+    }
+
+    if (!isSigningConfigured()) {
+      throw new PdfRequestError('Signing is not configured on this server');
+    }
+  }
+
+  if ((encryption || signature) && (options?.outputFormat || 'pdf') !== 'pdf') {
+    throw new PdfRequestError('Encryption and signatures require the pdf output format');
+  }
+  // PDF/A forbids encryption, and the appearance of a visible signature uses a font that is not embedded
+  if (options?.pdfa && encryption) {
+    throw new PdfRequestError('PDF/A documents cannot be encrypted');
+  }
+  if (options?.pdfa && signature?.visible) {
+    throw new PdfRequestError('PDF/A documents can only have invisible signatures');
+  }
+}
+
+/**
+ * Checks the output, metadata, security and locale options of a request
+ * @param options Options received in the request
+ * @throws PdfRequestError when an option is invalid or options cannot be combined
+ */
+export function validatePdfOptions(options: PdfOptions | undefined): void {
+  validateOutputOptions(options);
+  validateMetadata(options);
+  validateSecurity(options);
+
+  if (options?.locale !== undefined && !isValidLocale(options.locale)) {
+    throw new PdfRequestError('Invalid locale');
+  }
+}
+
+/**
+ * Checks the theme, variables and extra CSS of a request
+ * @param options Options received in the request
+ * @throws PdfRequestError when the theme is unknown or a variable is invalid
+ */
+export function validateStyle(options: PdfOptions): void {
+  try {
+    validateStyleOptions(options);
+  } catch (error) {
+    if (error instanceof ThemeError) {
+      throw new PdfRequestError(error.message);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Computes the render cache key of a request
+ * @param template Template type, or the source of a JSX string template
+ * @param data Validated props of the document
+ * @param options Final options of the document
+ * @returns The key, or undefined when the document cannot be cached
+ */
+function cacheKeyOf(template: string, data: Record<string, any>, options: PdfOptions): string | undefined {
+  if (!isCacheable(options)) {
+    return undefined;
+  }
+
+  // Attachments are built from the data, which is already part of the key
+  const { attachments, ...keyedOptions } = options;
+  return renderCacheKey({ template, data, options: keyedOptions, stylesheet: stylesheetVersion() });
+}
+
+/**
+ * Prepares a request for a template stored through `/templates`. The stored
+ * default options sit under the request's options, like a built-in template's.
+ * @param body Request body with `templateId`
+ * @param validation Options for validating template data against the stored props schema
+ * @returns Filename, options and a function that renders the precompiled template
+ * @throws PdfRequestError when the body also holds a JSX string or the version is invalid
+ * @throws TemplateNotFoundError when the template or version does not exist
+ * @throws PropsValidationError when template data does not match the stored props schema
+ */
+function prepareStoredTemplate(body: PdfRequestBody, validation: ValidationOptions): PreparedPdfRequest {
+  const { jsxTemplate, templateId, templateVersion, data, options } = body;
+
+  if (jsxTemplate !== undefined) {
+    throw new PdfRequestError('Send either jsxTemplate or templateId, not both');
+  }
+  if (typeof templateId !== 'string') {
+    throw new PdfRequestError('Invalid templateId');
+  }
+  if (templateVersion !== undefined && !(Number.isInteger(templateVersion) && templateVersion >= 1)) {
+    throw new PdfRequestError('Invalid templateVersion, expected a positive integer');
+  }
+
+  const stored = getTemplateStore().getVersion(templateId, templateVersion);
+  if (!stored) {
+    throw new TemplateNotFoundError(
+      templateVersion === undefined
+        ? `Template ${templateId} not found`
+        : `Version ${templateVersion} of template ${templateId} not found`
+    );
+  }
+
+  let props = data || {};
+  if (stored.propsSchema) {
+    const result = validateProps(stored.propsSchema, props, validation);
+    if (!result.valid) {
+      throw new PropsValidationError(result.issues);
+    }
+    props = result.value;
+  }
+
+  const defaultOptions = stored.defaultOptions || {};
+  const style = mergeStyleOptions(defaultOptions, options);
+  validateStyle(style);
+
+  const filename = options?.filename || defaultOptions.filename || 'document.pdf';
+  const finalOptions: PdfOptions = { ...defaultOptions, ...options, ...style, filename };
+
+  return {
+    filename,
+    options: finalOptions,
+    data: props,
+    renderMarkup: () => renderCompiledTemplate(stored.template, props, finalOptions.locale),
+    // Keyed on the source, so the same JSX sent inline shares the cached documents
+    cacheKey: cacheKeyOf(`jsx:${stored.template.source}`, props, finalOptions),
+    cacheTag: 'jsx',
+  };
+}
+
+/**
+ * Validates a `POST /templates` body: compiles the JSX, checks the props schema
+ * and default options, and renders the sample data if there is any
+ * @param body Request body with `jsxTemplate` and optional `name`, `description`, `propsSchema`,
+ *   `options` and `sampleData`
+ * @returns Template ready to be stored
+ * @throws PdfRequestError when a field is missing or invalid
+ * @throws PropsValidationError when the sample data does not match the props schema
+ * @throws TemplateCompileError when the JSX cannot be compiled
+ * @throws TemplateRenderError when the template fails to render the sample data
+ */
+export async function readTemplateDraft(body: Record<string, any>): Promise<TemplateDraft> {
+  const { name, description, jsxTemplate, propsSchema, options, sampleData } = body || {};
+
+  if (typeof jsxTemplate !== 'string' || !jsxTemplate.trim()) {
+    throw new PdfRequestError('Missing JSX template');
+  }
+  const isOptionalString = (value: unknown) => value === undefined || typeof value === 'string';
+  if (!isOptionalString(name) || !isOptionalString(description)) {
+    throw new PdfRequestError('Invalid name or description, expected strings');
+  }
+  if (propsSchema !== undefined) {
+    const schemaError = findSchemaError(propsSchema);
+    if (schemaError) {
+      throw new PdfRequestError(`Invalid propsSchema, ${schemaError}`);
+    }
+    if ((propsSchema as JsonSchema).type !== undefined && (propsSchema as JsonSchema).type !== 'object') {
+      throw new PdfRequestError('Invalid propsSchema, expected an object schema');
+    }
+  }
+
+  // Stored options are written to disk, so they cannot hold passwords or signing details
+  validatePdfOptions(options);
+  if (options?.encryption !== undefined || options?.signature !== undefined) {
+    throw new PdfRequestError('Stored templates cannot have encryption or signature options');
+  }
+  validateStyle(options || {});
+
+  const template = compileJsxString(jsxTemplate);
+
+  if (sampleData !== undefined) {
+    let props = sampleData;
+    if (propsSchema) {
+      const result = validateProps(propsSchema, sampleData);
+      if (!result.valid) {
+        throw new PropsValidationError(result.issues);
+      }
+      props = result.value;
+    }
+    await renderCompiledTemplate(template, props, options?.locale);
+  }
+
+  return { name, description, template, propsSchema, defaultOptions: options };
+}
+
+const SCHEMA_TYPES = ['string', 'number', 'integer', 'boolean', 'object', 'array'];
+
+/**
+ * Finds the first part of a props schema that props could not be validated against
+ * @param schema Schema received in the request, or one of its nested schemas
+ * @param at Path of the schema within `propsSchema`, used in the message
+ * @returns Description of the problem, or undefined when the schema is usable
+ */
+function findSchemaError(schema: unknown, at = 'propsSchema'): string | undefined {
+  if (typeof schema !== 'object' || schema === null || Array.isArray(schema)) {
+    return `${at} must be a schema object`;
+  }
+
+  const candidate = schema as Record<string, unknown>;
+  if (candidate.type !== undefined && !SCHEMA_TYPES.includes(candidate.type as string)) {
+    return `${at}.type must be one of ${SCHEMA_TYPES.join(', ')}`;
+  }
+  if (
+    candidate.required !== undefined &&
+    !(Array.isArray(candidate.required) && candidate.required.every((name) => typeof name === 'string'))
+  ) {
+    return `${at}.required must be an array of property names`;
+  }
+  if (candidate.enum !== undefined && !Array.isArray(candidate.enum)) {
+    return `${at}.enum must be an array`;
+  }
+
+  if (candidate.properties !== undefined) {
+    const { properties } = candidate;
+    if (typeof properties !== 'object' || properties === null || Array.isArray(properties)) {
+      return `${at}.properties must be an object`;
+    }
+    for (const [name, property] of Object.entries(properties)) {
+      const error = findSchemaError(property, `${at}.properties.${name}`);
+      if (error) {
+        return error;
+      }
+    }
+  }
+
+  return candidate.items === undefined ? undefined : findSchemaError(candidate.items, `${at}.items`);
+}
+
+/**
+ * Validates a `/generate` or `/render` style body and prepares it for rendering
+ * @param body Request body with `templateType`, `jsxTemplate` or `templateId`
+ * @param kind Forces the body to be read as a built-in template or a JSX string
+ * @param validation Options for validating template data against its props schema
+ * @returns Filename, options and a function that renders the document markup
+ * @throws PdfRequestError when required fields or output options are missing or invalid
+ * @throws PropsValidationError when template data does not match the props schema
+ * @throws TemplateNotFoundError when a stored template does not exist
+ */
+export function preparePdfRequest(
+  body: PdfRequestBody,
+  kind?: 'template' | 'jsx',
+  validation: ValidationOptions = {}
+): PreparedPdfRequest {
+  const { templateType, jsxTemplate, templateId, data, options } = body || {};
+  const requestKind = kind || (jsxTemplate !== undefined || templateId !== undefined ? 'jsx' : 'template');
+
+  validatePdfOptions(options);
+
+  if (requestKind === 'jsx' && templateId !== undefined) {
+    return prepareStoredTemplate(body, validation);
+  }
+
+  if (requestKind === 'jsx') {
+    // Validate required fields
+    if (!jsxTemplate) {
+      throw new PdfRequestError('Missing JSX template');
+    }
+
+    // Set default filename
+    const filename = options?.filename || 'document.pdf';
+    validateStyle(options || {});
+    const finalOptions: PdfOptions = { ...options, filename };
+
+    return {
+      filename,
+      options: finalOptions,
+      data: data || {},
+      renderMarkup: () => renderJsxString(jsxTemplate, data || {}, options?.locale),
+      cacheKey: cacheKeyOf(`jsx:${jsxTemplate}`, data || {}, finalOptions),
+      cacheTag: 'jsx',
+    };
+  }
+
+  // Validate required fields
+  if (!templateType || !data) {
+    throw new PdfRequestError('Missing required fields');
+  }
+
+  // Select template based on templateType
+  const entry = getTemplate(templateType);
+  if (!entry) {
+    throw new PdfRequestError('Invalid template type');
+  }
+
+  // Validate data against the template's props schema before rendering
+  const result = validateProps(entry.propsSchema, data, validation);
+  if (!result.valid) {
+    throw new PropsValidationError(result.issues);
+  }
+
+  const template = withLocale(React.createElement(entry.component, result.value), options?.locale);
+  const filename = entry.metadata.filename?.(result.value) || `${entry.metadata.type}.pdf`;
+
+  // The request's styling is layered over the template's
+  const style = mergeStyleOptions(mergeStyleOptions(entry.metadata.style, entry.defaultOptions), options);
+  validateStyle(style);
+
+  // Only PDF/A-3 documents can carry attachments, so they are not built for anything else
+  const attachments = options?.pdfa === 'PDF/A-3b' ? entry.metadata.attachments?.(result.value) : undefined;
+
+  const finalOptions: PdfOptions = { ...entry.defaultOptions, ...options, ...style, filename, attachments };
+
+  return {
+    filename,
+    options: finalOptions,
+    data: result.value,
+    summary: entry.metadata.summary?.(result.value),
+    renderMarkup: async () => renderToStaticMarkup(template),
+    cacheKey: cacheKeyOf(`template:${templateType}`, result.value, finalOptions),
+    cacheTag: templateType,
+  };
+}
+
+/**
+ * Encodes a value for a JSON header such as `X-Document-Summary`. Non-ASCII
+ * characters are escaped so the header stays valid while the value stays JSON.
+ * @param value Summary computed by the template, or render warnings
+ * @returns JSON string safe to use as a header value
+ */
+export function encodeJsonHeader(value: object): string {
+  return JSON.stringify(value).replace(
+    /[\u007f-\uffff]/g,
+    (char) => `\\u${char.charCodeAt(0).toString(16).padStart(4, '0')}`
+  );
+}
+
+/**
+ * Reads validation options from the query string, e.g. `?coerce=true`
+ * @param query Parsed query string
+ * @returns Validation options
+ */
+export function readValidationOptions(query: Record<string, unknown>): ValidationOptions {
+  return { coerce: query.coerce === 'true' || query.coerce === '1' };
+}
@@ -0,0 +1,252 @@
+import { createCipheriv, createHash, randomBytes } from 'crypto';
+import {
+  PDFArray,
+  PDFDict,
+  PDFDocument,
+  PDFHexString,
+  PDFName,
+  PDFNumber,
+  PDFObject,
+  PDFRawStream,
+  PDFStream,
+  PDFString,
+} from 'pdf-lib';
+
+export type PrintPermission = 'none' | 'lowResolution' | 'highResolution';
+
+export const PRINT_PERMISSIONS: PrintPermission[] = ['none', 'lowResolution', 'highResolution'];
+
+/**
+ * What readers allow without the owner password. Omitted permissions are denied.
+ */
+export interface PdfPermissions {
+  printing?: PrintPermission;
+  // Changing the document other than by annotating or filling in forms
+  modifying?: boolean;
+  // Copying text and images
+  copying?: boolean;
+  annotating?: boolean;
+  fillingForms?: boolean;
+  // Extracting text for screen readers
+  contentAccessibility?: boolean;
+  // Inserting, rotating and deleting pages and creating bookmarks
+  documentAssembly?: boolean;
+}
+
+export interface EncryptionOptions {
+  // Password needed to open the document; without one it opens freely but keeps its permissions
+  userPassword?: string;
+  // Password that lifts the permissions; a random one is used when omitted
+  ownerPassword?: string;
+  // Everything is allowed when omitted
+  permissions?: PdfPermissions;
+}
+
+// Passwords are UTF-8 encoded and limited to 127 bytes
+export const MAX_PASSWORD_BYTES = 127;
+
+// Bits of the P entry (ISO 32000-2, table 22), counted from 1
+const PERMISSION_BITS: Record<Exclude<keyof PdfPermissions, 'printing'>, number> = {
+  modifying: 4,
+  copying: 5,
+  annotating: 6,
+  fillingForms: 9,
+  contentAccessibility: 10,
+  documentAssembly: 11,
+};
+const PRINT_BIT = 3;
+const HIGH_RESOLUTION_PRINT_BIT = 12;
+
+// Permissions that are granted or denied, as opposed to the print quality
+export const PERMISSION_NAMES = Object.keys(PERMISSION_BITS) as Array<keyof typeof PERMISSION_BITS>;
+
+// Bits 7, 8 and 13-32 are reserved and must be set
+const RESERVED_PERMISSION_BITS = 0xfffff0c0;
+
+/**
+ * Computes the P entry of the encryption dictionary
+ * @param permissions Granted permissions, or undefined to grant everything
+ * @returns Permission flags as a signed 32-bit integer
+ */
+export function permissionFlags(permissions: PdfPermissions | undefined): number {
+  const granted: PdfPermissions = permissions || {
+    printing: 'highResolution',
+    modifying: true,
+    copying: true,
+    annotating: true,
+    fillingForms: true,
+    contentAccessibility: true,
+    documentAssembly: true,
+  };
+  const bit = (position: number) => 1 << (position - 1);
+
+  let flags = RESERVED_PERMISSION_BITS;
+  if (granted.printing === 'lowResolution' || granted.printing === 'highResolution') {
+    flags |= bit(PRINT_BIT);
+  }
+  if (granted.printing === 'highResolution') {
+    flags |= bit(HIGH_RESOLUTION_PRINT_BIT);
+  }
+  PERMISSION_NAMES.forEach((name) => {
+    if (granted[name]) {
+      flags |= bit(PERMISSION_BITS[name]);
+    }
+  });
+
+  return flags | 0;
+}
+
+/**
+ * Prepares a password as revision 6 expects: normalized, UTF-8 encoded and truncated
+ */
+function passwordBytes(password: string): Buffer {
+  return Buffer.from(password.normalize('NFKC'), 'utf8').subarray(0, MAX_PASSWORD_BYTES);
+}
+
+/**
+ * Encrypts data with AES-256 without padding and with a zero IV, as used for the file key and permissions
+ */
+function aesWithoutPadding(key: Buffer, data: Buffer, mode: 'aes-256-cbc' | 'aes-256-ecb'): Buffer {
+  const cipher = createCipheriv(mode, key, mode === 'aes-256-cbc' ? Buffer.alloc(16) : null);
+  cipher.setAutoPadding(false);
+  return Buffer.concat([cipher.update(data), cipher.final()]);
+}
+
+/**
+ * Hashes a password with a salt (ISO 32000-2, algorithm 2.B)
+ * @param password Prepared password
+ * @param salt Validation or key salt
+ * @param userKey The U entry when hashing the owner password, otherwise empty
+ * @returns 32-byte hash
+ */
+function hashPassword(password: Buffer, salt: Buffer, userKey: Buffer): Buffer {
+  let hash = createHash('sha256').update(Buffer.concat([password, salt, userKey])).digest();
+
+  for (let round = 0; ; round++) {
+    const block = Buffer.concat([password, hash, userKey]);
+    const cipher = createCipheriv('aes-128-cbc', hash.subarray(0, 16), hash.subarray(16, 32));
+    cipher.setAutoPadding(false);
+    const encrypted = Buffer.concat([cipher.update(Buffer.concat(Array(64).fill(block))), cipher.final()]);
+
+    const remainder = encrypted.subarray(0, 16).reduce((sum, byte) => sum + byte, 0) % 3;
+    hash = createHash(['sha256', 'sha384', 'sha512'][remainder]).update(encrypted).digest();
+
+    // At least 64 rounds, then until the last byte is small enough
+    if (round >= 63 && encrypted[encrypted.length - 1] <= round - 31) {
+      return hash.subarray(0, 32);
+    }
+  }
+}
+
+/**
+ * Encrypts a string or stream with the file key; the random IV is prepended
+ */
+function encryptData(fileKey: Buffer, data: Uint8Array): Buffer {
+  const iv = randomBytes(16);
+  const cipher = createCipheriv('aes-256-cbc', fileKey, iv);
+  return Buffer.concat([iv, cipher.update(data), cipher.final()]);
+}
+
+/**
+ * Encrypts the strings inside an object, replacing them with hex strings.
+ * The signature value of a signature dictionary stays readable, as the
+ * standard requires.
+ */
+function encryptStrings(object: PDFObject, fileKey: Buffer): PDFObject {
+  if (object instanceof PDFString || object instanceof PDFHexString) {
+    return PDFHexString.of(encryptData(fileKey, object.asBytes()).toString('hex'));
+  }
+
+  if (object instanceof PDFArray) {
+    for (let index = 0; index < object.size(); index++) {
+      object.set(index, encryptStrings(object.get(index), fileKey));
+    }
+  }
+
+  if (object instanceof PDFDict) {
+    const isSignature = object.get(PDFName.of('Type')) === PDFName.of('Sig');
+    object.entries().forEach(([key, value]) => {
+      if (!(isSignature && key === PDFName.of('Contents'))) {
+        object.set(key, encryptStrings(value, fileKey));
+      }
+    });
+  }
+
+  return object;
+}
+
+/**
+ * Builds the encryption dictionary of the standard security handler, revision 6
+ * @param fileKey Key the strings and streams are encrypted with
+ * @param options Passwords and permissions
+ * @returns Encryption dictionary entries
+ */
+function buildEncryptionEntries(fileKey: Buffer, options: EncryptionOptions) {
+  const userPassword = passwordBytes(options.userPassword || '');
+  const ownerPassword = passwordBytes(options.ownerPassword || randomBytes(32).toString('hex'));
+  const [userValidationSalt, userKeySalt, ownerValidationSalt, ownerKeySalt] = [8, 8, 8, 8].map((size) => randomBytes(size));
+
+  const noKey = Buffer.alloc(0);
+  const userHash = hashPassword(userPassword, userValidationSalt, noKey);
+  const userKey = Buffer.concat([userHash, userValidationSalt, userKeySalt]);
+  const ownerHash = hashPassword(ownerPassword, ownerValidationSalt, userKey);
+  const ownerKey = Buffer.concat([ownerHash, ownerValidationSalt, ownerKeySalt]);
+  const flags = permissionFlags(options.permissions);
+
+  // Permissions are repeated in an encrypted block so they cannot be changed without the key
+  const perms = Buffer.alloc(16, 0xff);
+  perms.writeInt32LE(flags, 0);
+  perms.write('Tadb', 8, 'latin1');
+  randomBytes(4).copy(perms, 12);
+
+  const hex = (bytes: Buffer) => PDFHexString.of(bytes.toString('hex'));
+  return {
+    Filter: 'Standard',
+    V: 5,
+    R: 6,
+    Length: 256,
+    CF: { StdCF: { AuthEvent: 'DocOpen', CFM: 'AESV3', Length: 32 } },
+    StmF: 'StdCF',
+    StrF: 'StdCF',
+    O: hex(ownerKey),
+    U: hex(userKey),
+    OE: hex(aesWithoutPadding(hashPassword(ownerPassword, ownerKeySalt, userKey), fileKey, 'aes-256-cbc')),
+    UE: hex(aesWithoutPadding(hashPassword(userPassword, userKeySalt, noKey), fileKey, 'aes-256-cbc')),
+    P: PDFNumber.of(flags),
+    Perms: hex(aesWithoutPadding(fileKey, perms, 'aes-256-ecb')),
+  };
+}
+
+/**
+ * Encrypts a document with AES-256 (standard security handler, revision 6).
+ * This must be the last change to the document: objects added afterwards are
+ * written unencrypted. Save the document with `useObjectStreams: false`,
+ * since strings in object streams would be encrypted twice.
+ * @param doc Document to encrypt; changed in place
+ * @param options Passwords and permissions
+ */
+export async function encryptDocument(doc: PDFDocument, options: EncryptionOptions): Promise<void> {
+  // Fonts and images drawn with pdf-lib are only written when the document is flushed
+  await doc.flush();
+
+  const { context } = doc;
+  const fileKey = randomBytes(32);
+
+  // Revision 6 is an extension of PDF 1.7 that readers recognise by this entry
+  doc.catalog.set(PDFName.of('Extensions'), context.obj({ ADBE: { BaseVersion: '1.7', ExtensionLevel: 8 } }));
+
+  context.enumerateIndirectObjects().forEach(([ref, object]) => {
+    if (object instanceof PDFStream) {
+      encryptStrings(object.dict, fileKey);
+      context.assign(ref, PDFRawStream.of(object.dict, encryptData(fileKey, object.getContents())));
+    } else {
+      context.assign(ref, encryptStrings(object, fileKey));
+    }
+  });
+
+  if (!context.trailerInfo.ID) {
+    const id = PDFHexString.of(randomBytes(16).toString('hex'));
+    context.trailerInfo.ID = context.obj([id, id]);
+  }
+  context.trailerInfo.Encrypt = context.register(context.obj(buildEncryptionEntries(fileKey, options)));
+}
@@ -0,0 +1,296 @@
+import fs from 'fs';
+import forge from 'node-forge';
+import {
+  PDFArray,
+  PDFDict,
+  PDFDocument,
+  PDFHexString,
+  PDFName,
+  PDFNumber,
+  PDFRef,
+  PDFString,
+  StandardFonts,
+} from 'pdf-lib';
+
+/**
+ * Position of a visible signature, in PDF points from the bottom left corner of the page
+ */
+export interface SignatureAppearance {
+  // 1-based page number (defaults to 1); pages past the end place the signature on the last page
+  page?: number;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface SignatureOptions {
+  reason?: string;
+  location?: string;
+  contactInfo?: string;
+  // Draws the signer, date and reason in a box; the signature is invisible when omitted
+  visible?: SignatureAppearance;
+}
+
+/**
+ * Private key and certificate chain read from a PKCS#12 file
+ */
+export interface SigningCertificate {
+  key: forge.pki.rsa.PrivateKey;
+  certificate: forge.pki.Certificate;
+  // Intermediate certificates included in the signature so readers can build the chain
+  chain: forge.pki.Certificate[];
+  // Common name of the certificate's subject
+  signer: string;
+}
+
+/**
+ * Raised when the signing certificate cannot be loaded or the signature does not fit
+ */
+export class SigningError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SigningError';
+  }
+}
+
+// Bytes reserved for the PKCS#7 signature, which holds the certificate chain
+const SIGNATURE_LENGTH = 16384;
+
+// Written in place of the byte range until the position of the signature is known
+const BYTE_RANGE_PLACEHOLDER = 9999999999;
+
+const certificateFile = process.env.PDF_SIGNING_CERTIFICATE;
+const certificatePassword = process.env.PDF_SIGNING_PASSWORD || '';
+
+let signingCertificate: SigningCertificate | null = null;
+
+/**
+ * Reads the private key and certificates of a PKCS#12 (.p12 or .pfx) file
+ * @param file Contents of the file
+ * @param password Password the file is protected with
+ * @returns The key, the certificate that matches it and the other certificates
+ * @throws SigningError when the password is wrong or the file has no RSA key with a matching certificate
+ */
+export function loadSigningCertificate(file: Buffer, password: string): SigningCertificate {
+  let pkcs12: forge.pkcs12.Pkcs12Pfx;
+  try {
+    pkcs12 = forge.pkcs12.pkcs12FromAsn1(forge.asn1.fromDer(file.toString('binary')), password);
+  } catch (error) {
+    throw new SigningError(`Could not read the signing certificate: ${(error as Error).message}`);
+  }
+
+  const { oids } = forge.pki;
+  const bagsOf = (bagType: string) => pkcs12.getBags({ bagType })[bagType] || [];
+  const key = [...bagsOf(oids.pkcs8ShroudedKeyBag), ...bagsOf(oids.keyBag)]
+    .map((bag) => bag.key as forge.pki.rsa.PrivateKey | undefined)
+    .find((candidate) => candidate?.n !== undefined);
+  const certificates = bagsOf(oids.certBag).flatMap((bag) => (bag.cert ? [bag.cert] : []));
+
+  // Only RSA keys can sign; the certificate is the one with the key's public modulus
+  const certificate = certificates.find((candidate) => {
+    const publicKey = candidate.publicKey as forge.pki.rsa.PublicKey;
+    return key !== undefined && publicKey.n?.equals(key.n);
+  });
+  if (!key || !certificate) {
+    throw new SigningError('The signing certificate has no RSA private key with a matching certificate');
+  }
+
+  return {
+    key,
+    certificate,
+    chain: certificates.filter((candidate) => candidate !== certificate),
+    signer: String(certificate.subject.getField('CN')?.value || 'Unknown signer'),
+  };
+}
+
+/**
+ * Whether a signing certificate is configured with `PDF_SIGNING_CERTIFICATE`
+ */
+export function isSigningConfigured(): boolean {
+  return Boolean(certificateFile);
+}
+
+/**
+ * Returns the configured signing certificate, reading it on first use
+ * @returns Key and certificates from `PDF_SIGNING_CERTIFICATE`, unlocked with `PDF_SIGNING_PASSWORD`
+ * @throws SigningError when no certificate is configured or it cannot be read
+ */
+export function getSigningCertificate(): SigningCertificate {
+  if (!signingCertificate) {
+    if (!certificateFile) {
+      throw new SigningError('No signing certificate is configured');
+    }
+    signingCertificate = loadSigningCertificate(fs.readFileSync(certificateFile), certificatePassword);
+  }
+
+  return signingCertificate;
+}
+
+/**
+ * Builds the appearance of a signature: a box with the signer, date, reason and
+ * location, or an empty form for invisible signatures
+ */
+async function buildAppearance(
+  doc: PDFDocument,
+  appearance: SignatureAppearance | undefined,
+  lines: string[]
+): Promise<PDFRef> {
+  const { context } = doc;
+  if (!appearance) {
+    return context.register(context.stream('', { Type: 'XObject', Subtype: 'Form', BBox: [0, 0, 0, 0] }));
+  }
+
+  const { width, height } = appearance;
+  const font = await doc.embedFont(StandardFonts.Helvetica);
+  const characters = new Set(font.getCharacterSet());
+  const printable = lines.map((line) =>
+    Array.from(line)
+      .map((char) => (characters.has(char.codePointAt(0)!) ? char : '?'))
+      .join('')
+  );
+
+  // Text shrinks to fit the box, up to 10 points
+  const padding = 4;
+  const widest = Math.max(...printable.map((line) => font.widthOfTextAtSize(line, 1)));
+  const size = Math.min(10, (height - 2 * padding) / (printable.length * 1.2), (width - 2 * padding) / widest);
+  const content = [
+    'q 0.4 0.4 0.4 RG 0.5 w',
+    `0.25 0.25 ${width - 0.5} ${height - 0.5} re S Q`,
+    `BT /F1 ${size.toFixed(2)} Tf 0 g ${(size * 1.2).toFixed(2)} TL`,
+    `${padding} ${(height - padding - size).toFixed(2)} Td`,
+    ...printable.map((line, index) => `${index > 0 ? 'T* ' : ''}${font.encodeText(line)} Tj`),
+    'ET',
+  ].join('\n');
+
+  return context.register(
+    context.flateStream(content, {
+      Type: 'XObject',
+      Subtype: 'Form',
+      BBox: [0, 0, width, height],
+      Resources: { Font: { F1: font.ref } },
+    })
+  );
+}
+
+/**
+ * Adds a signature field whose value is a placeholder for a PKCS#7 detached
+ * signature. The document must be saved without object streams, whose
+ * compression would hide the placeholder, and then passed to `signPdf`.
+ * @param doc Document to sign; changed in place
+ * @param options Reason, location and the position of a visible signature
+ * @param certificate Certificate whose subject is named as the signer
+ */
+export async function addSignaturePlaceholder(
+  doc: PDFDocument,
+  options: SignatureOptions,
+  certificate: SigningCertificate
+): Promise<void> {
+  const { context } = doc;
+  const signedAt = new Date();
+  const text = (value: string | undefined) => (value ? PDFHexString.fromText(value) : undefined);
+
+  const signature = context.register(
+    context.obj({
+      Type: 'Sig',
+      Filter: 'Adobe.PPKLite',
+      SubFilter: 'adbe.pkcs7.detached',
+      ByteRange: [0, BYTE_RANGE_PLACEHOLDER, BYTE_RANGE_PLACEHOLDER, BYTE_RANGE_PLACEHOLDER],
+      Contents: PDFHexString.of('0'.repeat(SIGNATURE_LENGTH * 2)),
+      Name: text(certificate.signer),
+      M: PDFString.fromDate(signedAt),
+      Reason: text(options.reason),
+      Location: text(options.location),
+      ContactInfo: text(options.contactInfo),
+    })
+  );
+
+  let form = doc.catalog.lookupMaybe(PDFName.of('AcroForm'), PDFDict);
+  if (!form) {
+    form = context.obj({});
+    doc.catalog.set(PDFName.of('AcroForm'), context.register(form));
+  }
+  let fields = form.lookupMaybe(PDFName.of('Fields'), PDFArray);
+  if (!fields) {
+    fields = context.obj([]);
+    form.set(PDFName.of('Fields'), fields);
+  }
+  // The document has signatures and may only be changed by appending to it
+  form.set(PDFName.of('SigFlags'), PDFNumber.of(3));
+
+  const { visible } = options;
+  const pages = doc.getPages();
+  const page = pages[Math.min(visible?.page || 1, pages.length) - 1];
+  const lines = [
+    `Digitally signed by ${certificate.signer}`,
+    `Date: ${signedAt.toISOString().replace('T', ' ').slice(0, 19)} UTC`,
+    ...(options.reason ? [`Reason: ${options.reason}`] : []),
+    ...(options.location ? [`Location: ${options.location}`] : []),
+  ];
+
+  const widget = context.register(
+    context.obj({
+      Type: 'Annot',
+      Subtype: 'Widget',
+      FT: 'Sig',
+      T: PDFHexString.fromText(`Signature${fields.size() + 1}`),
+      V: signature,
+      Rect: visible ? [visible.x, visible.y, visible.x + visible.width, visible.y + visible.height] : [0, 0, 0, 0],
+      // Printed and locked
+      F: 132,
+      P: page.ref,
+      AP: { N: await buildAppearance(doc, visible, lines) },
+    })
+  );
+  fields.push(widget);
+  page.node.addAnnot(widget);
+}
+
+/**
+ * Signs a document saved after `addSignaturePlaceholder`: the byte range is
+ * written and the placeholder is replaced by a PKCS#7 detached signature of
+ * every byte outside it.
+ * @param pdf Saved document with a signature placeholder
+ * @param certificate Key and certificates to sign with
+ * @returns Signed document
+ * @throws SigningError when the document has no placeholder or the signature does not fit
+ */
+export function signPdf(pdf: Buffer, certificate: SigningCertificate): Buffer {
+  const placeholder = `/ByteRange [ 0 ${BYTE_RANGE_PLACEHOLDER} ${BYTE_RANGE_PLACEHOLDER} ${BYTE_RANGE_PLACEHOLDER} ]`;
+  const byteRangeStart = pdf.lastIndexOf(placeholder);
+  const contentsStart = pdf.lastIndexOf(`<${'0'.repeat(SIGNATURE_LENGTH * 2)}>`);
+  if (byteRangeStart === -1 || contentsStart === -1) {
+    throw new SigningError('The document has no signature placeholder');
+  }
+
+  // The signature covers everything except its own hex string, including the brackets
+  const contentsEnd = contentsStart + SIGNATURE_LENGTH * 2 + 2;
+  const byteRange = `/ByteRange [ 0 ${contentsStart} ${contentsEnd} ${pdf.length - contentsEnd} ]`;
+  const signed = Buffer.from(pdf);
+  signed.write(byteRange.padEnd(placeholder.length, ' '), byteRangeStart, 'latin1');
+
+  const p7 = forge.pkcs7.createSignedData();
+  p7.content = forge.util.createBuffer(
+    Buffer.concat([signed.subarray(0, contentsStart), signed.subarray(contentsEnd)]).toString('binary')
+  );
+  [certificate.certificate, ...certificate.chain].forEach((cert) => p7.addCertificate(cert));
+  p7.addSigner({
+    key: certificate.key,
+    certificate: certificate.certificate,
+    digestAlgorithm: forge.pki.oids.sha256,
+    authenticatedAttributes: [
+      { type: forge.pki.oids.contentType, value: forge.pki.oids.data },
+      { type: forge.pki.oids.messageDigest },
+      { type: forge.pki.oids.signingTime },
+    ],
+  });
+  p7.sign({ detached: true });
+
+  const signature = Buffer.from(forge.asn1.toDer(p7.toAsn1()).getBytes(), 'binary').toString('hex');
+  if (signature.length > SIGNATURE_LENGTH * 2) {
+    throw new SigningError('The signature is larger than the space reserved for it');
+  }
+  signed.write(signature.padEnd(SIGNATURE_LENGTH * 2, '0'), contentsStart + 1, 'latin1');
+
+  return signed;
+}
@@ -0,0 +1,414 @@
+import { decodePDFRawStream, PDFArray, PDFDict, PDFDocument, PDFName, PDFObject, PDFRawStream } from 'pdf-lib';
+
+/**
+ * Turns the character codes of a font back into text
+ */
+interface FontDecoder {
+  // Composite (Type0) fonts, which Chromium prints with, use two-byte codes
+  bytesPerCode: number;
+  // Codes mapped by the font's ToUnicode CMap
+  unicode: Map<number, string>;
+}
+
+type Operand = number | string | { bytes: string } | Operand[];
+
+// Transformation matrix [a b c d e f]; e and f are the translation
+type Matrix = [number, number, number, number, number, number];
+
+const IDENTITY: Matrix = [1, 0, 0, 1, 0, 0];
+
+// Adjustments in a TJ array larger than this, in thousandths of an em, separate words
+const WORD_GAP = 250;
+
+/**
+ * Decodes a stream of a loaded PDF
+ * @param stream Raw stream, possibly compressed
+ * @returns Contents as a binary string, one character per byte
+ */
+function readStream(stream: PDFRawStream): string {
+  return Buffer.from(decodePDFRawStream(stream).decode()).toString('latin1');
+}
+
+/**
+ * Decodes UTF-16BE hex digits of a CMap, e.g. `00480069` to "Hi"
+ */
+function hexToText(hex: string): string {
+  const padded = hex.padStart(Math.ceil(hex.length / 4) * 4, '0');
+  let text = '';
+  for (let index = 0; index < padded.length; index += 4) {
+    text += String.fromCharCode(parseInt(padded.slice(index, index + 4), 16));
+  }
+  return text;
+}
+
+/**
+ * Reads the `bfchar` and `bfrange` mappings of a ToUnicode CMap
+ * @param cmap CMap program
+ * @returns Text of each character code
+ */
+function parseToUnicode(cmap: string): Map<number, string> {
+  const unicode = new Map<number, string>();
+
+  for (const [, block] of cmap.matchAll(/beginbfchar([\s\S]*?)endbfchar/g)) {
+    for (const [, code, text] of block.matchAll(/<([0-9a-f]+)>\s*<([0-9a-f]*)>/gi)) {
+      unicode.set(parseInt(code, 16), hexToText(text));
+    }
+  }
+
+  for (const [, block] of cmap.matchAll(/beginbfrange([\s\S]*?)endbfrange/g)) {
+    for (const [, low, high, target] of block.matchAll(/<([0-9a-f]+)>\s*<([0-9a-f]+)>\s*(<[0-9a-f]*>|\[[^\]]*\])/gi)) {
+      const first = parseInt(low, 16);
+      const last = parseInt(high, 16);
+
+      if (target.startsWith('[')) {
+        // One destination per code
+        Array.from(target.matchAll(/<([0-9a-f]*)>/gi)).forEach(([, text], offset) =>
+          unicode.set(first + offset, hexToText(text))
+        );
+      } else {
+        // Consecutive codes map to consecutive characters, counting up from the destination
+        const start = hexToText(target.slice(1, -1));
+        for (let code = first; code <= last; code++) {
+          const lastChar = start.charCodeAt(start.length - 1) + code - first;
+          unicode.set(code, start.slice(0, -1) + String.fromCharCode(lastChar));
+        }
+      }
+    }
+  }
+
+  return unicode;
+}
+
+/**
+ * Builds the decoder of a font resource
+ * @param font Font dictionary
+ * @returns Code length and Unicode mapping; simple fonts without a ToUnicode CMap are read as Latin-1
+ */
+function readFontDecoder(font: PDFDict): FontDecoder {
+  const composite = font.lookup(PDFName.of('Subtype'))?.toString() === '/Type0';
+  const toUnicode = font.lookup(PDFName.of('ToUnicode'));
+  const unicode = toUnicode instanceof PDFRawStream ? parseToUnicode(readStream(toUnicode)) : new Map();
+  return { bytesPerCode: composite ? 2 : 1, unicode };
+}
+
+/**
+ * Decodes a string shown with a font
+ * @param bytes String operand as a binary string
+ * @param font Decoder of the current font, if any
+ */
+function decodeText(bytes: string, font: FontDecoder | undefined): string {
+  const bytesPerCode = font?.bytesPerCode || 1;
+  let text = '';
+  for (let index = 0; index + bytesPerCode <= bytes.length; index += bytesPerCode) {
+    let code = 0;
+    for (let offset = 0; offset < bytesPerCode; offset++) {
+      code = code * 256 + bytes.charCodeAt(index + offset);
+    }
+    text += font?.unicode.get(code) ?? (bytesPerCode === 1 ? String.fromCharCode(code) : '');
+  }
+  return text;
+}
+
+/**
+ * Multiplies two transformation matrices, applying `first` before `second`
+ */
+function multiply(first: Matrix, second: Matrix): Matrix {
+  const [a, b, c, d, e, f] = first;
+  const [a2, b2, c2, d2, e2, f2] = second;
+  return [
+    a * a2 + b * c2,
+    a * b2 + b * d2,
+    c * a2 + d * c2,
+    c * b2 + d * d2,
+    e * a2 + f * c2 + e2,
+    e * b2 + f * d2 + f2,
+  ];
+}
+
+/**
+ * Reads the six numbers of a matrix operand, e.g. of `cm` or `Tm`
+ */
+function toMatrix(values: Operand[] | undefined): Matrix | undefined {
+  return values?.length === 6 && values.every((value) => Number.isFinite(value)) ? (values as Matrix) : undefined;
+}
+
+/**
+ * Reads a literal string such as `(Hello \(world\))`
+ * @param content Content stream
+ * @param start Index of the opening parenthesis
+ * @returns The string as a binary string and the index after the closing parenthesis
+ */
+function readLiteralString(content: string, start: number): { bytes: string; end: number } {
+  const escapes: Record<string, string> = { n: '\n', r: '\r', t: '\t', b: '\b', f: '\f' };
+  let bytes = '';
+  let depth = 1;
+  let index = start + 1;
+
+  while (index < content.length) {
+    const char = content[index];
+    if (char === '\\') {
+      const next = content[index + 1];
+      const octal = /^[0-7]{1,3}/.exec(content.slice(index + 1, index + 4));
+      if (octal) {
+        bytes += String.fromCharCode(parseInt(octal[0], 8) & 0xff);
+        index += 1 + octal[0].length;
+        continue;
+      }
+      // A backslash at the end of a line continues the string on the next one
+      if (next !== '\n' && next !== '\r') {
+        bytes += escapes[next] ?? next;
+      }
+      index += 2;
+      continue;
+    }
+
+    if (char === '(') {
+      depth++;
+    } else if (char === ')' && --depth === 0) {
+      return { bytes, end: index + 1 };
+    }
+    bytes += char;
+    index++;
+  }
+
+  return { bytes, end: index };
+}
+
+/**
+ * Collects the text of a content stream, following form XObjects
+ */
+class TextCollector {
+  private readonly doc: PDFDocument;
+  private readonly fonts = new Map<PDFDict, FontDecoder>();
+  private lines: string[] = [];
+  private line = '';
+  // Baseline of the last text shown, on the page
+  private lineY: number | undefined;
+
+  constructor(doc: PDFDocument) {
+    this.doc = doc;
+  }
+
+  /**
+   * Returns the collected text, one line per line of text on the page.
+   * Ligatures and other compatibility characters are normalized, e.g. "ﬁ" to "fi".
+   */
+  text(): string {
+    return [...this.lines, this.line]
+      .map((line) => line.normalize('NFKC').replace(/\s+/g, ' ').trim())
+      .filter(Boolean)
+      .join('\n');
+  }
+
+  private lookupDict(object: PDFObject | undefined): PDFDict | undefined {
+    const resolved = object && this.doc.context.lookup(object);
+    return resolved instanceof PDFDict ? resolved : undefined;
+  }
+
+  private fontDecoder(resources: PDFDict | undefined, name: string): FontDecoder | undefined {
+    const fonts = this.lookupDict(resources?.get(PDFName.of('Font')));
+    const font = this.lookupDict(fonts?.get(PDFName.of(name)));
+    if (!font) {
+      return undefined;
+    }
+
+    if (!this.fonts.has(font)) {
+      this.fonts.set(font, readFontDecoder(font));
+    }
+    return this.fonts.get(font);
+  }
+
+  /**
+   * Adds shown text, starting a new line when its baseline is not that of the previous text
+   * @param text Decoded text
+   * @param y Baseline on the page
+   */
+  private show(text: string, y: number): void {
+    if (this.lineY !== undefined && Math.abs(y - this.lineY) > 0.5) {
+      this.lines.push(this.line);
+      this.line = '';
+    }
+    this.line += text;
+    this.lineY = y;
+  }
+
+  /**
+   * Reads the text operators of a content stream
+   * @param content Decoded content stream
+   * @param resources Resources the stream refers to by name
+   * @param matrix Transformation of the stream to the page, for form XObjects
+   */
+  read(content: string, resources: PDFDict | undefined, matrix: Matrix = IDENTITY): void {
+    const stack: Operand[][] = [[]];
+    const savedStates: Matrix[] = [];
+    let ctm = matrix;
+    let font: FontDecoder | undefined;
+    // Start of the current line of text, and the distance between lines
+    let lineMatrix = IDENTITY;
+    let leading = 0;
+    let index = 0;
+
+    const operands = () => stack[stack.length - 1];
+    const baseline = () => lineMatrix[4] * ctm[1] + lineMatrix[5] * ctm[3] + ctm[5];
+    const moveLine = (x: number, y: number) => {
+      lineMatrix = multiply([1, 0, 0, 1, x, y], lineMatrix);
+    };
+    const showText = (operand: Operand | undefined) => {
+      const bytes = typeof operand === 'object' && 'bytes' in operand ? operand.bytes : '';
+      this.show(decodeText(bytes, font), baseline());
+    };
+
+    while (index < content.length) {
+      const char = content[index];
+
+      if (/\s/.test(char)) {
+        index++;
+      } else if (char === '%') {
+        // Comments run to the end of the line
+        while (index < content.length && content[index] !== '\n' && content[index] !== '\r') {
+          index++;
+        }
+      } else if (char === '(') {
+        const { bytes, end } = readLiteralString(content, index);
+        operands().push({ bytes });
+        index = end;
+      } else if (content.startsWith('<<', index) || content.startsWith('>>', index)) {
+        // Dictionaries only appear as marked-content properties, which carry no text
+        index += 2;
+      } else if (char === '<') {
+        const end = content.indexOf('>', index);
+        const hex = content.slice(index + 1, end).replace(/\s/g, '');
+        operands().push({ bytes: Buffer.from(hex.length % 2 ? `${hex}0` : hex, 'hex').toString('latin1') });
+        index = end + 1;
+      } else if (char === '[') {
+        stack.push([]);
+        index++;
+      } else if (char === ']') {
+        const array = stack.length > 1 ? stack.pop()! : [];
+        operands().push(array);
+        index++;
+      } else if (char === '/') {
+        const [name] = /^\/[^\s/<>()[\]{}%]*/.exec(content.slice(index, index + 128))!;
+        operands().push(name.slice(1));
+        index += name.length;
+      } else if (/[-+.\d]/.test(char)) {
+        const [number] = /^[-+]?\d*\.?\d*/.exec(content.slice(index, index + 32))!;
+        operands().push(Number(number) || 0);
+        index += Math.max(number.length, 1);
+      } else {
+        const [operator] = /^[^\s/<>()[\]{}%]+/.exec(content.slice(index, index + 16)) || [char];
+        index += operator.length;
+
+        const args = operands();
+        stack.length = 1;
+        stack[0] = [];
+
+        switch (operator) {
+          case 'q':
+            savedStates.push(ctm);
+            break;
+          case 'Q':
+            ctm = savedStates.pop() || ctm;
+            break;
+          case 'cm':
+            ctm = multiply(toMatrix(args) || IDENTITY, ctm);
+            break;
+          case 'Tf':
+            font = this.fontDecoder(resources, String(args[0]));
+            break;
+          case 'TL':
+            leading = Number(args[0]) || 0;
+            break;
+          case 'Tj':
+            showText(args[0]);
+            break;
+          case "'":
+          case '"':
+            moveLine(0, -leading);
+            showText(args[args.length - 1]);
+            break;
+          case 'TJ': {
+            const text = ((args[0] as Operand[]) || [])
+              .map((item) => {
+                if (typeof item === 'number') {
+                  return item < -WORD_GAP ? ' ' : '';
+                }
+                return typeof item === 'object' && 'bytes' in item ? decodeText(item.bytes, font) : '';
+              })
+              .join('');
+            this.show(text, baseline());
+            break;
+          }
+          case 'TD':
+            leading = -Number(args[1]) || 0;
+            moveLine(Number(args[0]) || 0, Number(args[1]) || 0);
+            break;
+          case 'Td':
+            // Moves along the line only position glyphs, e.g. for kerning; Chromium draws spaces as glyphs
+            moveLine(Number(args[0]) || 0, Number(args[1]) || 0);
+            break;
+          case 'Tm':
+            lineMatrix = toMatrix(args) || IDENTITY;
+            break;
+          case 'T*':
+            moveLine(0, -leading);
+            break;
+          case 'BT':
+            // Separate text objects on one line are separate runs of text
+            lineMatrix = IDENTITY;
+            this.line += ' ';
+            break;
+          case 'Do':
+            this.readXObject(resources, String(args[0]), ctm);
+            break;
+          case 'BI': {
+            // Inline image data is binary and ends at the EI operator
+            const end = content.slice(index).search(/\sEI(\s|$)/);
+            index = end < 0 ? content.length : index + end + 3;
+            break;
+          }
+        }
+      }
+    }
+  }
+
+  private readXObject(resources: PDFDict | undefined, name: string, ctm: Matrix): void {
+    const xObjects = this.lookupDict(resources?.get(PDFName.of('XObject')));
+    const xObject = xObjects && this.doc.context.lookup(xObjects.get(PDFName.of(name)));
+    if (!(xObject instanceof PDFRawStream) || xObject.dict.lookup(PDFName.of('Subtype'))?.toString() !== '/Form') {
+      return;
+    }
+
+    // Forms without resources of their own use those of the page
+    const formResources = this.lookupDict(xObject.dict.get(PDFName.of('Resources'))) || resources;
+    const matrix = xObject.dict.lookup(PDFName.of('Matrix'));
+    const values = matrix instanceof PDFArray ? matrix.asArray().map((value) => Number(`${value}`)) : undefined;
+    this.read(readStream(xObject), formResources, multiply(toMatrix(values) || IDENTITY, ctm));
+  }
+}
+
+/**
+ * Extracts the text of each page of a PDF, e.g. to check that a rendered
+ * document says what it should. Text is read in the order it is drawn, which
+ * for Chromium's PDFs is reading order; lines are split where text moves down.
+ * @param pdf PDF file
+ * @returns Text of each page
+ */
+export async function extractPdfText(pdf: Buffer | Uint8Array): Promise<string[]> {
+  const doc = await PDFDocument.load(pdf, { updateMetadata: false });
+
+  return doc.getPages().map((page) => {
+    const contents = page.node.Contents();
+    const refs = contents instanceof PDFArray ? contents.asArray() : [contents];
+    const streams = refs.map((ref) => ref && doc.context.lookup(ref));
+    const content = streams
+      .filter((stream): stream is PDFRawStream => stream instanceof PDFRawStream)
+      .map(readStream)
+      .join('\n');
+
+    const resources = doc.context.lookup(page.node.getInheritableAttribute(PDFName.of('Resources')));
+    const collector = new TextCollector(doc);
+    collector.read(content, resources instanceof PDFDict ? resources : undefined);
+    return collector.text();
+  });
+}
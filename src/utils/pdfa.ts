@@ -0,0 +1,287 @@
+import { createHash } from 'crypto';
+import {
+  AFRelationship,
+  PDFArray,
+  PDFBool,
+  PDFDict,
+  PDFDocument,
+  PDFHexString,
+  PDFName,
+  PDFNumber,
+  PDFStream,
+  PDFString,
+} from 'pdf-lib';
+import { buildSrgbIccProfile, SRGB_PROFILE_DESCRIPTION } from './iccProfile';
+import { DocumentMetadata, setDocumentMetadata, XmpSchema } from './pdfMetadata';
+
+export type PdfaLevel = 'PDF/A-2b' | 'PDF/A-3b';
+
+export const PDFA_LEVELS: PdfaLevel[] = ['PDF/A-2b', 'PDF/A-3b'];
+
+/**
+ * File embedded in a PDF/A-3 document, e.g. the XML of an invoice
+ */
+export interface PdfAttachment {
+  filename: string;
+  content: Buffer | string;
+  mimeType: string;
+  description?: string;
+  // How the file relates to the document; "Alternative" for the same content in another format
+  relationship?: 'Data' | 'Source' | 'Alternative' | 'Supplement' | 'Unspecified';
+  // XMP properties added to the document when the file is embedded
+  xmp?: XmpSchema;
+}
+
+/**
+ * Outcome of a PDF/A conversion
+ */
+export interface ConformanceReport {
+  level: PdfaLevel;
+  // Whether no problems were left that could not be fixed
+  conformant: boolean;
+  // Features that were removed or changed to conform
+  fixed: string[];
+  // Problems that could not be fixed; the document does not conform while any remain
+  problems: string[];
+}
+
+// Annotation types PDF/A-2 and PDF/A-3 do not allow
+const FORBIDDEN_ANNOTATIONS = ['Sound', 'Movie', 'Screen', '3D', 'RichMedia', 'TrapNet'];
+
+// Actions PDF/A-2 and PDF/A-3 do not allow
+const FORBIDDEN_ACTIONS = [
+  'Launch',
+  'Sound',
+  'Movie',
+  'ResetForm',
+  'ImportData',
+  'JavaScript',
+  'Hide',
+  'SetOCGState',
+  'Rendition',
+  'Trans',
+  'GoTo3DView',
+];
+
+// Annotation flags: Invisible, Hidden, Print, NoView and ToggleNoView
+const ANNOTATION_INVISIBLE = 1;
+const ANNOTATION_HIDDEN = 2;
+const ANNOTATION_PRINT = 4;
+const ANNOTATION_NO_VIEW = 32;
+const ANNOTATION_TOGGLE_NO_VIEW = 256;
+
+/**
+ * Adds a message to a list unless the same message is already in it
+ */
+function note(list: string[], message: string): void {
+  if (!list.includes(message)) {
+    list.push(message);
+  }
+}
+
+/**
+ * Returns the name of an action's type, or undefined for anything that is not an action
+ */
+function actionType(action: unknown): string | undefined {
+  return action instanceof PDFDict ? action.lookupMaybe(PDFName.of('S'), PDFName)?.decodeText() : undefined;
+}
+
+/**
+ * Removes document-level scripts, additional actions and embedded files the level does not allow
+ */
+function cleanCatalog(doc: PDFDocument, level: PdfaLevel, fixed: string[]): void {
+  const { catalog } = doc;
+
+  const openAction = catalog.lookup(PDFName.of('OpenAction'));
+  if (FORBIDDEN_ACTIONS.includes(actionType(openAction) || '')) {
+    catalog.delete(PDFName.of('OpenAction'));
+    note(fixed, `Removed ${actionType(openAction)} open action`);
+  }
+
+  if (catalog.has(PDFName.of('AA'))) {
+    catalog.delete(PDFName.of('AA'));
+    note(fixed, 'Removed document additional actions');
+  }
+
+  const names = catalog.lookupMaybe(PDFName.of('Names'), PDFDict);
+  if (names?.has(PDFName.of('JavaScript'))) {
+    names.delete(PDFName.of('JavaScript'));
+    note(fixed, 'Removed document JavaScript');
+  }
+
+  // PDF/A-2 only allows embedded PDF/A files, which Chromium never produces
+  if (level === 'PDF/A-2b' && names?.has(PDFName.of('EmbeddedFiles'))) {
+    names.delete(PDFName.of('EmbeddedFiles'));
+    catalog.delete(PDFName.of('AF'));
+    note(fixed, 'Removed embedded files');
+  }
+
+  const form = catalog.lookupMaybe(PDFName.of('AcroForm'), PDFDict);
+  if (form?.has(PDFName.of('XFA')) || form?.get(PDFName.of('NeedAppearances')) === PDFBool.True) {
+    form.delete(PDFName.of('XFA'));
+    form.delete(PDFName.of('NeedAppearances'));
+    note(fixed, 'Removed XFA forms and generated form appearances');
+  }
+}
+
+/**
+ * Makes the annotations of every page printable and removes the ones the level does not allow
+ */
+function cleanAnnotations(doc: PDFDocument, fixed: string[], problems: string[]): void {
+  doc.getPages().forEach((page, pageIndex) => {
+    const annotations = page.node.lookupMaybe(PDFName.of('Annots'), PDFArray);
+    if (!annotations) {
+      return;
+    }
+
+    for (let index = annotations.size() - 1; index >= 0; index--) {
+      const annotation = annotations.lookup(index);
+      if (!(annotation instanceof PDFDict)) {
+        continue;
+      }
+
+      const subtype = annotation.lookupMaybe(PDFName.of('Subtype'), PDFName)?.decodeText() || 'Unknown';
+      if (FORBIDDEN_ANNOTATIONS.includes(subtype)) {
+        annotations.remove(index);
+        note(fixed, `Removed ${subtype} annotations`);
+        continue;
+      }
+
+      const action = annotation.lookup(PDFName.of('A'));
+      if (FORBIDDEN_ACTIONS.includes(actionType(action) || '')) {
+        annotation.delete(PDFName.of('A'));
+        note(fixed, `Removed ${actionType(action)} actions from annotations`);
+      }
+      if (annotation.has(PDFName.of('AA'))) {
+        annotation.delete(PDFName.of('AA'));
+        note(fixed, 'Removed additional actions from annotations');
+      }
+
+      // Annotations must be printed and may not be hidden
+      const flags = annotation.lookupMaybe(PDFName.of('F'), PDFNumber)?.asNumber() || 0;
+      const hidden = ANNOTATION_INVISIBLE | ANNOTATION_HIDDEN | ANNOTATION_NO_VIEW | ANNOTATION_TOGGLE_NO_VIEW;
+      const printable = (flags | ANNOTATION_PRINT) & ~hidden;
+      if (printable !== flags) {
+        annotation.set(PDFName.of('F'), PDFNumber.of(printable));
+        note(fixed, 'Set the print flag of annotations');
+      }
+
+      if (subtype !== 'Link' && subtype !== 'Popup' && !annotation.has(PDFName.of('AP'))) {
+        note(problems, `${subtype} annotation on page ${pageIndex + 1} has no appearance stream`);
+      }
+    }
+  });
+}
+
+/**
+ * Fixes image interpolation and transfer functions, and reports fonts that are not embedded
+ */
+function cleanResources(doc: PDFDocument, fixed: string[], problems: string[]): void {
+  doc.context.enumerateIndirectObjects().forEach(([, object]) => {
+    const dict = object instanceof PDFStream ? object.dict : object instanceof PDFDict ? object : undefined;
+    if (!dict) {
+      return;
+    }
+
+    const type = dict.lookupMaybe(PDFName.of('Type'), PDFName)?.decodeText();
+    const subtype = dict.lookupMaybe(PDFName.of('Subtype'), PDFName)?.decodeText();
+
+    if (subtype === 'Image' && dict.get(PDFName.of('Interpolate')) === PDFBool.True) {
+      dict.set(PDFName.of('Interpolate'), PDFBool.False);
+      note(fixed, 'Turned off image interpolation');
+    }
+
+    if (subtype === 'PS') {
+      note(problems, 'PostScript XObjects are not allowed');
+    }
+
+    if (type === 'ExtGState' && (dict.has(PDFName.of('TR')) || dict.has(PDFName.of('TR2')))) {
+      dict.delete(PDFName.of('TR'));
+      dict.delete(PDFName.of('TR2'));
+      note(fixed, 'Removed transfer functions');
+    }
+
+    // Type 3 fonts are drawn from content streams, and composite fonts are checked through their descendants
+    if (type === 'Font' && subtype && subtype !== 'Type3' && subtype !== 'Type0') {
+      const descriptor = dict.lookupMaybe(PDFName.of('FontDescriptor'), PDFDict);
+      const embedded = ['FontFile', 'FontFile2', 'FontFile3'].some((key) => descriptor?.has(PDFName.of(key)));
+
+      if (!embedded) {
+        const name = dict.lookupMaybe(PDFName.of('BaseFont'), PDFName)?.decodeText() || 'unnamed';
+        note(problems, `Font "${name.replace(/^[A-Z]{6}\+/, '')}" is not embedded`);
+      }
+    }
+  });
+}
+
+/**
+ * Adds the sRGB output intent that describes the device colours Chromium uses
+ */
+function addOutputIntent(doc: PDFDocument): void {
+  const profile = doc.context.flateStream(buildSrgbIccProfile(), { N: 3 });
+  const intent = doc.context.obj({
+    Type: 'OutputIntent',
+    S: 'GTS_PDFA1',
+    OutputConditionIdentifier: PDFString.of(SRGB_PROFILE_DESCRIPTION),
+    Info: PDFString.of(SRGB_PROFILE_DESCRIPTION),
+    RegistryName: PDFString.of('http://www.color.org'),
+    DestOutputProfile: doc.context.register(profile),
+  });
+
+  doc.catalog.set(PDFName.of('OutputIntents'), doc.context.obj([doc.context.register(intent)]));
+}
+
+/**
+ * Converts a document printed by Chromium to PDF/A-2b or PDF/A-3b: adds an
+ * sRGB output intent, PDF/A identification in the XMP metadata and a file
+ * identifier, removes features the standard does not allow and, for
+ * PDF/A-3b, embeds the attachments. Chromium embeds the fonts it uses; fonts
+ * that are not embedded cannot be fixed afterwards and are reported.
+ * @param doc Document to convert; changed in place
+ * @param level Conformance level
+ * @param metadata Document metadata written to the information dictionary and XMP
+ * @param attachments Files to embed; only PDF/A-3 allows them
+ * @returns What was fixed and the problems left
+ */
+export function convertToPdfa(
+  doc: PDFDocument,
+  level: PdfaLevel,
+  metadata: DocumentMetadata,
+  attachments: PdfAttachment[] = []
+): ConformanceReport {
+  const fixed: string[] = [];
+  const problems: string[] = [];
+  const part = level === 'PDF/A-3b' ? 3 : 2;
+
+  if (doc.isEncrypted) {
+    problems.push('Encrypted documents cannot be converted to PDF/A');
+  }
+
+  cleanCatalog(doc, level, fixed);
+  cleanAnnotations(doc, fixed, problems);
+  cleanResources(doc, fixed, problems);
+  addOutputIntent(doc);
+
+  const embedded = part === 3 ? attachments : [];
+  embedded.forEach((attachment) => {
+    const { content } = attachment;
+    doc.attach(typeof content === 'string' ? Buffer.from(content, 'utf8') : content, attachment.filename, {
+      mimeType: attachment.mimeType,
+      description: attachment.description,
+      creationDate: new Date(),
+      modificationDate: new Date(),
+      afRelationship: AFRelationship[attachment.relationship || 'Unspecified'],
+    });
+  });
+
+  setDocumentMetadata(doc, metadata, {
+    pdfa: { part, conformance: 'B' },
+    schemas: embedded.flatMap((attachment) => (attachment.xmp ? [attachment.xmp] : [])),
+  });
+
+  // PDF/A requires a file identifier; it is derived from the metadata so it is stable for the same document
+  const id = PDFHexString.of(createHash('md5').update(JSON.stringify([metadata, doc.getPageCount()])).digest('hex'));
+  doc.context.trailerInfo.ID = doc.context.obj([id, id]);
+
+  return { level, conformant: problems.length === 0, fixed, problems };
+}
@@ -0,0 +1,299 @@
+import React from 'react';
+import { renderToStaticMarkup } from 'react-dom/server';
+import type { PdfOptions } from './pdfGenerator';
+import type { RegisteredTemplate } from './templateRegistry';
+
+/**
+ * What went wrong while rendering a preview, shown in place of the document
+ */
+export interface PreviewFailure {
+  status: number;
+  title: string;
+  message: string;
+  // Invalid props, or the location of a template error
+  details: string[];
+  codeFrame?: string;
+}
+
+export interface PreviewPageProps {
+  title: string;
+  // URL of the preview index, also the base of the event stream
+  baseUrl: string;
+  // URLs the panes load the document from
+  documentUrls: { html: string; pdf: string };
+  // Paper in CSS pixels with the print margins, from `getPageBox`
+  pageBox: { width: number; height: number; margin: PdfOptions['margin'] };
+  // Options picked in the toolbar
+  selected: { format?: string; landscape?: boolean; locale?: string; theme?: string };
+  locales: string[];
+  themes: string[];
+}
+
+const PAGE_CSS = `
+  * { box-sizing: border-box; }
+  body { margin: 0; font: 14px/1.4 system-ui, sans-serif; color: #111827; background: #f3f4f6; }
+  header { display: flex; flex-wrap: wrap; gap: 12px 24px; align-items: center; padding: 12px 20px;
+    background: #fff; border-bottom: 1px solid #d1d5db; }
+  header h1 { margin: 0; font-size: 18px; }
+  header form { display: flex; gap: 12px; align-items: center; }
+  #status { margin-left: auto; color: #6b7280; }
+  #status.error { color: #b91c1c; }
+  .panes { display: grid; grid-template-columns: 1fr 1fr; height: calc(100vh - 58px); }
+  .pane { display: flex; flex-direction: column; min-width: 0; border-right: 1px solid #d1d5db; }
+  .pane h2 { margin: 0; padding: 6px 20px; font-size: 12px; text-transform: uppercase; color: #6b7280; }
+  .desk { flex: 1; overflow: auto; padding: 20px; }
+  .sheet { margin: 0 auto; background: #fff; box-shadow: 0 1px 4px rgba(0, 0, 0, 0.2); }
+  .content { position: relative; outline: 1px dashed #93c5fd; }
+  .content iframe { display: block; width: 100%; border: 0; }
+  .guides { position: absolute; inset: 0; pointer-events: none; background: repeating-linear-gradient(to bottom,
+    transparent 0 calc(var(--page-height) - 1px), #f87171 calc(var(--page-height) - 1px) var(--page-height)); }
+  .pdf { flex: 1; width: 100%; border: 0; }
+  main.index { max-width: 960px; margin: 0 auto; padding: 20px; }
+  main.index li { margin-bottom: 8px; }
+  textarea { width: 100%; font: 13px/1.4 ui-monospace, monospace; }
+  pre { padding: 12px; overflow: auto; background: #111827; color: #f9fafb; }
+  .failure { padding: 20px; color: #7f1d1d; background: #fef2f2; min-height: 100vh; }
+  .failure h1 { font-size: 18px; }
+`;
+
+// Loads both panes, sizes the HTML pane to its document and reloads on every change
+const PREVIEW_SCRIPT = `
+  const frames = Array.from(document.querySelectorAll('iframe[data-src]'));
+  const htmlFrame = document.getElementById('html-frame');
+  const status = document.getElementById('status');
+  const setStatus = (text, failed) => {
+    status.textContent = text;
+    status.className = failed ? 'error' : '';
+  };
+  const load = () => {
+    const stamp = Date.now();
+    frames.forEach((frame) => {
+      const url = new URL(frame.dataset.src, location.href);
+      url.searchParams.set('reload', stamp);
+      frame.src = url.href;
+    });
+  };
+
+  htmlFrame.addEventListener('load', () => {
+    const root = htmlFrame.contentDocument && htmlFrame.contentDocument.documentElement;
+    htmlFrame.style.height = root ? root.scrollHeight + 'px' : '';
+  });
+
+  // A server restarted by nodemon has a new start time, so the panes are reloaded after reconnecting
+  let startedAt;
+  const events = new EventSource(document.body.dataset.events);
+  events.addEventListener('ready', (event) => {
+    const server = JSON.parse(event.data);
+    if (startedAt && startedAt !== server.startedAt) {
+      load();
+    }
+    startedAt = server.startedAt;
+    setStatus('Watching for changes', false);
+  });
+  events.addEventListener('change', (event) => {
+    const change = JSON.parse(event.data);
+    if (change.error) {
+      setStatus('Reload failed: ' + change.error, true);
+    } else {
+      setStatus('Reloaded after changes to ' + change.files.join(', '), false);
+    }
+    load();
+  });
+  events.addEventListener('error', () => setStatus('Disconnected, reconnecting...', true));
+
+  load();
+`;
+
+// Posts the draft form as JSON, since the preview does not accept form posts
+const DRAFT_SCRIPT = `
+  const form = document.getElementById('draft-form');
+  form.addEventListener('submit', async (event) => {
+    event.preventDefault();
+    const response = await fetch(form.action, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(Object.fromEntries(new FormData(form))),
+    });
+    if (response.redirected) {
+      location.href = response.url;
+      return;
+    }
+
+    // Invalid drafts are answered with a failure page, shown like a form post would show it
+    document.open();
+    document.write(await response.text());
+    document.close();
+  });
+`;
+
+/**
+ * Renders a complete preview page
+ * @param title Title of the page
+ * @param body Contents of the body
+ * @param bodyProps Attributes of the body element
+ * @returns HTML document
+ */
+function renderPage(title: string, body: React.ReactNode, bodyProps: Record<string, string> = {}): string {
+  const page = (
+    <html lang="en">
+      <head>
+        <meta charSet="UTF-8" />
+        <title>{title}</title>
+        <style dangerouslySetInnerHTML={{ __html: PAGE_CSS }} />
+      </head>
+      <body {...bodyProps}>{body}</body>
+    </html>
+  );
+  return `<!DOCTYPE html>${renderToStaticMarkup(page)}`;
+}
+
+/**
+ * Renders the list of templates that can be previewed, with a form for JSX templates and custom data
+ * @param templates Registered templates
+ * @param baseUrl URL of the preview index
+ * @returns HTML document
+ */
+export function renderPreviewIndex(templates: RegisteredTemplate[], baseUrl: string): string {
+  return renderPage(
+    'Template preview',
+    <main className="index">
+      <h1>Template preview</h1>
+      <p>Previews reload when a template, a component or styles.css changes.</p>
+      <ul>
+        {templates.map(({ metadata, sampleData }) => (
+          <li key={metadata.type}>
+            <a href={`${baseUrl}/templates/${encodeURIComponent(metadata.type)}`}>{metadata.name}</a>
+            {` (${metadata.type}): ${metadata.description}`}
+            {!sampleData && '. Has no sample data, so send its data with the form below.'}
+          </li>
+        ))}
+      </ul>
+      <h2>Preview a JSX template or custom data</h2>
+      <form id="draft-form" method="post" action={baseUrl}>
+        <p>
+          <label>
+            Template type{' '}
+            <select name="templateType" defaultValue="">
+              <option value="">JSX template below</option>
+              {templates.map(({ metadata }) => (
+                <option key={metadata.type} value={metadata.type}>
+                  {metadata.type}
+                </option>
+              ))}
+            </select>
+          </label>
+        </p>
+        <p>
+          <label>
+            JSX template
+            <textarea name="jsxTemplate" rows={12} placeholder="function Template({ name }) { ... }" />
+          </label>
+        </p>
+        <p>
+          <label>
+            Data (JSON)
+            <textarea name="data" rows={6} defaultValue="{}" />
+          </label>
+        </p>
+        <p>
+          <label>
+            Options (JSON)
+            <textarea name="options" rows={4} defaultValue="{}" />
+          </label>
+        </p>
+        <button type="submit">Preview</button>
+      </form>
+      <script dangerouslySetInnerHTML={{ __html: DRAFT_SCRIPT }} />
+    </main>
+  );
+}
+
+/**
+ * Renders the HTML and PDF panes of a document side by side. The HTML pane
+ * is as wide as the printed content, so the stylesheet lays it out like the
+ * PDF, and red lines mark where the content of each page ends.
+ * @param props Document, paper and toolbar of the preview
+ * @returns HTML document
+ */
+export function renderPreviewPage(props: PreviewPageProps): string {
+  const { title, baseUrl, documentUrls, pageBox, selected, locales, themes } = props;
+  const { top = '0', right = '0', bottom = '0', left = '0' } = pageBox.margin || {};
+  const pageHeight = `calc(${pageBox.height}px - ${top} - ${bottom})`;
+
+  return renderPage(
+    `${title} - Template preview`,
+    <>
+      <header>
+        <a href={baseUrl}>All templates</a>
+        <h1>{title}</h1>
+        <form method="get">
+          <select name="format" defaultValue={selected.format || ''}>
+            <option value="">Default paper</option>
+            {['Letter', 'Legal', 'A4'].map((format) => (
+              <option key={format}>{format}</option>
+            ))}
+          </select>
+          <label>
+            <input type="checkbox" name="landscape" value="true" defaultChecked={selected.landscape} /> Landscape
+          </label>
+          <select name="locale" defaultValue={selected.locale || ''}>
+            <option value="">Default locale</option>
+            {locales.map((locale) => (
+              <option key={locale}>{locale}</option>
+            ))}
+          </select>
+          <select name="theme" defaultValue={selected.theme || ''}>
+            <option value="">Default theme</option>
+            {themes.map((theme) => (
+              <option key={theme}>{theme}</option>
+            ))}
+          </select>
+          <button type="submit">Apply</button>
+        </form>
+        <span id="status">Connecting...</span>
+      </header>
+      <div className="panes">
+        <section className="pane">
+          <h2>HTML</h2>
+          <div className="desk">
+            <div className="sheet" style={{ width: pageBox.width, padding: `${top} ${right} ${bottom} ${left}` }}>
+              <div className="content">
+                <iframe id="html-frame" title="HTML" data-src={documentUrls.html} style={{ minHeight: pageHeight }} />
+                <div className="guides" style={{ '--page-height': pageHeight } as React.CSSProperties} />
+              </div>
+            </div>
+          </div>
+        </section>
+        <section className="pane">
+          <h2>PDF</h2>
+          <iframe className="pdf" title="PDF" data-src={documentUrls.pdf} />
+        </section>
+      </div>
+      <script dangerouslySetInnerHTML={{ __html: PREVIEW_SCRIPT }} />
+    </>,
+    { 'data-events': `${baseUrl}/events` }
+  );
+}
+
+/**
+ * Renders a failed preview in place of the document, e.g. a compile error with its code frame
+ * @param failure What went wrong
+ * @returns HTML document
+ */
+export function renderPreviewFailure(failure: PreviewFailure): string {
+  return renderPage(
+    failure.title,
+    <div className="failure">
+      <h1>{failure.title}</h1>
+      <p>{failure.message}</p>
+      {failure.details.length > 0 && (
+        <ul>
+          {failure.details.map((detail) => (
+            <li key={detail}>{detail}</li>
+          ))}
+        </ul>
+      )}
+      {failure.codeFrame && <pre>{failure.codeFrame}</pre>}
+    </div>
+  );
+}
@@ -0,0 +1,127 @@
+import fs from 'fs';
+import path from 'path';
+import { cssFilePath, reloadStylesheet } from './pdfGenerator';
+import { reloadTemplates } from './templateRegistry';
+import { shutdownTemplateSandbox } from './templateSandbox';
+
+/**
+ * Sent to preview pages after watched files changed and were loaded again
+ */
+export interface PreviewChange {
+  // Changed files, relative to the source directory
+  files: string[];
+  // Why the templates could not be loaded again, until a later change fixes them
+  error?: string;
+}
+
+type PreviewListener = (change: PreviewChange) => void;
+
+const sourceDir = path.join(__dirname, '..');
+const watchedDirs = ['templates', 'components'].map((dir) => path.join(sourceDir, dir));
+
+// Saving often fires several events, so changes are gathered before reloading
+const DEBOUNCE_MS = 100;
+
+const listeners = new Set<PreviewListener>();
+let watchers: fs.FSWatcher[] = [];
+let changedFiles = new Set<string>();
+let timer: NodeJS.Timeout | undefined;
+let reloadError: Error | undefined;
+
+/**
+ * Loads the changed templates, components or stylesheet again and tells the preview pages
+ */
+function reload(): void {
+  const files = Array.from(changedFiles).sort();
+  changedFiles = new Set();
+
+  if (files.some((file) => file === cssFilePath)) {
+    reloadStylesheet();
+  }
+
+  if (files.some((file) => file !== cssFilePath)) {
+    try {
+      reloadTemplates();
+      reloadError = undefined;
+    } catch (error) {
+      reloadError = error instanceof Error ? error : new Error(String(error));
+      console.error('Error reloading templates:', reloadError.message);
+    }
+
+    // The sandbox worker holds its own copy of the components, so it is started again
+    shutdownTemplateSandbox().catch((error) => console.error('Error restarting template sandbox:', error));
+  }
+
+  const change: PreviewChange = { files: files.map((file) => path.relative(sourceDir, file)) };
+  if (reloadError) {
+    change.error = reloadError.message;
+  }
+  listeners.forEach((listener) => listener(change));
+}
+
+/**
+ * Records a changed file and schedules a reload
+ * @param file Absolute path of the file
+ */
+function queueChange(file: string): void {
+  changedFiles.add(file);
+  clearTimeout(timer);
+  timer = setTimeout(reload, DEBOUNCE_MS);
+}
+
+/**
+ * Starts watching the template modules, the components and `styles.css`.
+ * Directories are watched rather than files, because editors often replace
+ * files instead of writing to them.
+ */
+export function startPreviewWatcher(): void {
+  if (watchers.length > 0) {
+    return;
+  }
+
+  watchers = watchedDirs.map((dir) =>
+    fs.watch(dir, { recursive: true }, (event, filename) => {
+      if (filename && /\.(tsx?|jsx?)$/.test(filename.toString())) {
+        queueChange(path.join(dir, filename.toString()));
+      }
+    })
+  );
+
+  const stylesheetDir = path.dirname(cssFilePath);
+  watchers.push(
+    fs.watch(stylesheetDir, (event, filename) => {
+      if (filename && path.join(stylesheetDir, filename.toString()) === cssFilePath) {
+        queueChange(cssFilePath);
+      }
+    })
+  );
+}
+
+/**
+ * Stops watching for changes
+ */
+export function stopPreviewWatcher(): void {
+  clearTimeout(timer);
+  watchers.forEach((watcher) => watcher.close());
+  watchers = [];
+}
+
+/**
+ * Calls a listener whenever watched files changed and were loaded again
+ * @param listener Receives the changed files and any error loading them
+ * @returns Function that removes the listener
+ */
+export function onPreviewChange(listener: PreviewListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Returns why the templates could not be loaded again after the last change
+ * @returns The error, or undefined when the templates loaded
+ */
+export function getReloadError(): Error | undefined {
+  return reloadError;
+}
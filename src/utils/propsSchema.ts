@@ -0,0 +1,263 @@
+export type JsonSchemaType = 'string' | 'number' | 'integer' | 'boolean' | 'object' | 'array';
+
+/**
+ * The subset of JSON Schema used to describe template props
+ */
+export interface JsonSchema {
+  type?: JsonSchemaType;
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  items?: JsonSchema;
+  enum?: Array<string | number | boolean>;
+  default?: unknown;
+  format?: string;
+  minLength?: number;
+  minimum?: number;
+  maximum?: number;
+}
+
+export interface PropDocumentation {
+  type?: JsonSchemaType;
+  required: boolean;
+  description?: string;
+  default?: unknown;
+  enum?: Array<string | number | boolean>;
+  items?: Record<string, PropDocumentation>;
+}
+
+/**
+ * Flattens an object schema into the prop documentation returned by `/components`
+ * @param schema Object schema describing the props
+ * @returns Documentation keyed by prop name
+ */
+export function describeProps(schema: JsonSchema): Record<string, PropDocumentation> {
+  const required = schema.required || [];
+  const props: Record<string, PropDocumentation> = {};
+
+  Object.entries(schema.properties || {}).forEach(([name, property]) => {
+    const doc: PropDocumentation = {
+      type: property.type,
+      required: required.includes(name),
+      description: property.description,
+    };
+
+    if (property.default !== undefined) {
+      doc.default = property.default;
+    }
+    if (property.enum) {
+      doc.enum = property.enum;
+    }
+
+    // Document the fields of arrays of objects inline
+    if (property.type === 'array' && property.items?.type === 'object') {
+      doc.items = describeProps(property.items);
+    }
+
+    props[name] = doc;
+  });
+
+  return props;
+}
+
+export interface ValidationIssue {
+  path: string;
+  message: string;
+}
+
+export interface ValidationResult<T = unknown> {
+  valid: boolean;
+  issues: ValidationIssue[];
+  value: T;
+}
+
+export interface ValidationOptions {
+  // Convert numeric and boolean strings (and numbers for string fields) instead of rejecting them
+  coerce?: boolean;
+}
+
+/**
+ * Formats a path segment the way it appears in error messages, e.g. `items[2].unitPrice`
+ * @param parent Path of the parent value
+ * @param key Property name or array index
+ * @returns Combined path
+ */
+function joinPath(parent: string, key: string | number): string {
+  if (typeof key === 'number') {
+    return `${parent}[${key}]`;
+  }
+  return parent ? `${parent}.${key}` : key;
+}
+
+/**
+ * Returns the JSON Schema type name of a value
+ * @param value Value to inspect
+ * @returns Type name used in error messages
+ */
+function typeOf(value: unknown): string {
+  if (value === null) {
+    return 'null';
+  }
+  if (Array.isArray(value)) {
+    return 'array';
+  }
+  return typeof value;
+}
+
+/**
+ * Converts a value to the schema type when coercion is enabled and the conversion is lossless
+ * @param value Value to convert
+ * @param type Expected type
+ * @returns The converted value, or the original value when it cannot be converted
+ */
+function coerceValue(value: unknown, type: JsonSchemaType): unknown {
+  if ((type === 'number' || type === 'integer') && typeof value === 'string' && value.trim() !== '') {
+    const number = Number(value);
+    return Number.isFinite(number) ? number : value;
+  }
+  if (type === 'boolean' && (value === 'true' || value === 'false')) {
+    return value === 'true';
+  }
+  if (type === 'string' && (typeof value === 'number' || typeof value === 'boolean')) {
+    return String(value);
+  }
+  return value;
+}
+
+// Checks for the string formats templates use; unknown formats are not checked
+const FORMATS: Record<string, { message: string; test: (value: string) => boolean }> = {
+  currency: {
+    message: 'must be an ISO 4217 currency code',
+    test: (value) => /^[A-Z]{3}$/.test(value),
+  },
+  country: {
+    message: 'must be an ISO 3166-1 alpha-2 country code',
+    test: (value) => /^[A-Z]{2}$/.test(value),
+  },
+  locale: {
+    message: 'must be a BCP 47 locale',
+    test: (value) => {
+      try {
+        return Intl.getCanonicalLocales(value).length === 1;
+      } catch {
+        return false;
+      }
+    },
+  },
+};
+
+/**
+ * Checks whether a value matches a schema type
+ * @param value Value to check
+ * @param type Expected type
+ * @returns Whether the value has the expected type
+ */
+function matchesType(value: unknown, type: JsonSchemaType): boolean {
+  switch (type) {
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    case 'integer':
+      return typeof value === 'number' && Number.isInteger(value);
+    case 'object':
+      return typeOf(value) === 'object';
+    case 'array':
+      return Array.isArray(value);
+    default:
+      return typeof value === type;
+  }
+}
+
+/**
+ * Validates a value against a schema, collecting every failing path
+ * @param schema Schema to validate against
+ * @param value Value to validate
+ * @param path Path of the value, used in error messages
+ * @param options Validation options
+ * @param issues Collected validation issues
+ * @returns The value, coerced when coercion is enabled
+ */
+function validateValue(
+  schema: JsonSchema,
+  value: unknown,
+  path: string,
+  options: ValidationOptions,
+  issues: ValidationIssue[]
+): unknown {
+  const at = path || '(root)';
+  let current = value;
+
+  if (schema.type) {
+    if (options.coerce) {
+      current = coerceValue(current, schema.type);
+    }
+
+    if (!matchesType(current, schema.type)) {
+      issues.push({ path: at, message: `expected ${schema.type}, got ${typeOf(current)}` });
+      return current;
+    }
+  }
+
+  if (schema.enum && !schema.enum.includes(current as string | number | boolean)) {
+    issues.push({ path: at, message: `must be one of: ${schema.enum.join(', ')}` });
+  }
+
+  if (typeof current === 'string' && schema.minLength !== undefined && current.length < schema.minLength) {
+    const message = schema.minLength === 1 ? 'must not be empty' : `must be at least ${schema.minLength} characters`;
+    issues.push({ path: at, message });
+  }
+
+  if (typeof current === 'string' && schema.format && FORMATS[schema.format] && !FORMATS[schema.format].test(current)) {
+    issues.push({ path: at, message: FORMATS[schema.format].message });
+  }
+
+  if (typeof current === 'number' && schema.minimum !== undefined && current < schema.minimum) {
+    issues.push({ path: at, message: `must be at least ${schema.minimum}` });
+  }
+
+  if (typeof current === 'number' && schema.maximum !== undefined && current > schema.maximum) {
+    issues.push({ path: at, message: `must be at most ${schema.maximum}` });
+  }
+
+  if (Array.isArray(current) && schema.items) {
+    const itemSchema = schema.items;
+    current = current.map((item, index) => validateValue(itemSchema, item, joinPath(path, index), options, issues));
+  }
+
+  if (schema.properties && typeOf(current) === 'object') {
+    const object = { ...(current as Record<string, unknown>) };
+
+    (schema.required || []).forEach((name) => {
+      if (object[name] === undefined || object[name] === null) {
+        issues.push({ path: joinPath(path, name), message: 'is required' });
+      }
+    });
+
+    Object.entries(schema.properties).forEach(([name, propertySchema]) => {
+      if (object[name] !== undefined && object[name] !== null) {
+        object[name] = validateValue(propertySchema, object[name], joinPath(path, name), options, issues);
+      }
+    });
+
+    current = object;
+  }
+
+  return current;
+}
+
+/**
+ * Validates template props against their schema
+ * @param schema Props schema of the template
+ * @param value Props received in the request
+ * @param options Validation options
+ * @returns Validation result with every issue and the (possibly coerced) props
+ */
+export function validateProps<T = Record<string, any>>(
+  schema: JsonSchema,
+  value: unknown,
+  options: ValidationOptions = {}
+): ValidationResult<T> {
+  const issues: ValidationIssue[] = [];
+  const validated = validateValue(schema, value, '', options, issues);
+
+  return { valid: issues.length === 0, issues, value: validated as T };
+}
@@ -0,0 +1,246 @@
+import { createHash, randomUUID } from 'crypto';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { envInt } from './env';
+import type { RenderedDocument } from './pdfGenerator';
+
+/**
+ * Storage backend of the render cache. Documents are stored under a hash of
+ * everything that went into them, so an entry never goes stale by itself; it
+ * is evicted to make room, or removed when a template's code changes.
+ */
+export interface RenderCacheStore {
+  get(key: string): Promise<RenderedDocument | null>;
+  // `tag` groups the entries of one template so they can be removed together
+  set(key: string, tag: string, document: RenderedDocument): Promise<void>;
+  // Removes the entries with a tag, or every entry when no tag is given; resolves to how many were removed
+  clear(tag?: string): Promise<number>;
+}
+
+/**
+ * Keeps rendered documents in process memory, evicting the least recently used
+ * ones when their total size exceeds the budget
+ */
+export class MemoryRenderCache implements RenderCacheStore {
+  private readonly maxBytes: number;
+  // Map iteration follows insertion order, so re-inserting on every hit keeps the oldest entry first
+  private entries = new Map<string, { tag: string; document: RenderedDocument }>();
+  private bytes = 0;
+
+  constructor(maxBytes: number) {
+    this.maxBytes = maxBytes;
+  }
+
+  async get(key: string): Promise<RenderedDocument | null> {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return null;
+    }
+
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return entry.document;
+  }
+
+  async set(key: string, tag: string, document: RenderedDocument): Promise<void> {
+    this.remove(key);
+    this.entries.set(key, { tag, document });
+    this.bytes += document.buffer.length;
+
+    for (const oldest of this.entries.keys()) {
+      if (this.bytes <= this.maxBytes) {
+        break;
+      }
+      this.remove(oldest);
+    }
+  }
+
+  async clear(tag?: string): Promise<number> {
+    const keys = Array.from(this.entries).filter(([, entry]) => tag === undefined || entry.tag === tag);
+    keys.forEach(([key]) => this.remove(key));
+    return keys.length;
+  }
+
+  private remove(key: string): void {
+    const entry = this.entries.get(key);
+    if (entry) {
+      this.bytes -= entry.document.buffer.length;
+      this.entries.delete(key);
+    }
+  }
+}
+
+/**
+ * Everything about a cached document except its bytes, stored next to them
+ */
+interface FileCacheEntry extends Omit<RenderedDocument, 'buffer'> {
+  tag: string;
+}
+
+/**
+ * Keeps rendered documents in a directory, so they survive restarts and can
+ * be shared by several processes. Each document is a `.bin` file with a
+ * `.json` file describing it; the modification time of the description
+ * records the last use, and the least recently used documents are removed
+ * when their total size exceeds the budget.
+ */
+export class FileRenderCache implements RenderCacheStore {
+  private readonly dir: string;
+  private readonly maxBytes: number;
+
+  constructor(dir: string, maxBytes: number) {
+    this.dir = dir;
+    this.maxBytes = maxBytes;
+    fs.mkdirSync(dir, { recursive: true });
+  }
+
+  async get(key: string): Promise<RenderedDocument | null> {
+    try {
+      const entry: FileCacheEntry = JSON.parse(await fs.promises.readFile(this.file(key, 'json'), 'utf8'));
+      const buffer = await fs.promises.readFile(this.file(key, 'bin'));
+      const now = new Date();
+      await fs.promises.utimes(this.file(key, 'json'), now, now);
+
+      const { tag, ...document } = entry;
+      return { ...document, buffer };
+    } catch {
+      // Missing, or removed by another process while it was read
+      return null;
+    }
+  }
+
+  async set(key: string, tag: string, document: RenderedDocument): Promise<void> {
+    const { buffer, ...description } = document;
+    const entry: FileCacheEntry = { ...description, tag };
+
+    // The description is written last, so readers never find it without the document
+    await this.writeAtomically(this.file(key, 'bin'), buffer);
+    await this.writeAtomically(this.file(key, 'json'), JSON.stringify(entry));
+    await this.evict();
+  }
+
+  async clear(tag?: string): Promise<number> {
+    let removed = 0;
+
+    for (const key of await this.keys()) {
+      if (tag !== undefined) {
+        const entry: FileCacheEntry | null = await fs.promises
+          .readFile(this.file(key, 'json'), 'utf8')
+          .then((json) => JSON.parse(json))
+          .catch(() => null);
+        if (entry?.tag !== tag) {
+          continue;
+        }
+      }
+      await this.remove(key);
+      removed++;
+    }
+
+    return removed;
+  }
+
+  private file(key: string, extension: 'bin' | 'json'): string {
+    return path.join(this.dir, `${key}.${extension}`);
+  }
+
+  private async keys(): Promise<string[]> {
+    const files = await fs.promises.readdir(this.dir);
+    return files.filter((file) => file.endsWith('.json')).map((file) => file.slice(0, -'.json'.length));
+  }
+
+  private async writeAtomically(file: string, contents: Buffer | string): Promise<void> {
+    // Requests that miss the cache together write the same entry, each through its own file
+    const temporary = `${file}.${randomUUID()}.tmp`;
+    await fs.promises.writeFile(temporary, contents);
+    await fs.promises.rename(temporary, file);
+  }
+
+  private async remove(key: string): Promise<void> {
+    await Promise.all([
+      fs.promises.rm(this.file(key, 'json'), { force: true }),
+      fs.promises.rm(this.file(key, 'bin'), { force: true }),
+    ]);
+  }
+
+  /**
+   * Removes the least recently used documents until the cache fits its budget
+   */
+  private async evict(): Promise<void> {
+    const entries = await Promise.all(
+      (await this.keys()).map(async (key) => {
+        const [description, document] = await Promise.all([
+          fs.promises.stat(this.file(key, 'json')).catch(() => null),
+          fs.promises.stat(this.file(key, 'bin')).catch(() => null),
+        ]);
+        return { key, usedAt: description?.mtimeMs ?? 0, size: document?.size ?? 0 };
+      })
+    );
+
+    let bytes = entries.reduce((sum, entry) => sum + entry.size, 0);
+    for (const entry of entries.sort((a, b) => a.usedAt - b.usedAt)) {
+      if (bytes <= this.maxBytes) {
+        break;
+      }
+      await this.remove(entry.key);
+      bytes -= entry.size;
+    }
+  }
+}
+
+// Larger documents are streamed instead of cached
+export const MAX_CACHED_DOCUMENT_BYTES = envInt('PDF_CACHE_MAX_ENTRY_MB', 10) * 1024 * 1024;
+
+/**
+ * Serializes a value as JSON with object keys in sorted order, so equal values
+ * always give the same text
+ */
+function stableJson(value: unknown): string {
+  return JSON.stringify(value, (key, nested) =>
+    nested && typeof nested === 'object' && !Array.isArray(nested)
+      ? Object.fromEntries(Object.keys(nested).sort().map((name) => [name, nested[name]]))
+      : nested
+  );
+}
+
+/**
+ * Hashes the inputs of a render into a cache key
+ * @param inputs Template identity, data, options and stylesheet version; must be JSON-serializable
+ * @returns Hex SHA-256 of the inputs
+ */
+export function renderCacheKey(inputs: object): string {
+  return createHash('sha256').update(stableJson(inputs)).digest('hex');
+}
+
+let sharedCache: RenderCacheStore | null | undefined;
+
+/**
+ * Replaces the process-wide render cache, e.g. to plug in another backend
+ * @param store Cache backend, or null to disable caching
+ */
+export function configureRenderCache(store: RenderCacheStore | null): void {
+  sharedCache = store;
+}
+
+/**
+ * Returns the process-wide render cache, configured from environment variables:
+ * `PDF_CACHE` selects `memory` (default), `file` or `off`, `PDF_CACHE_DIR` the
+ * directory of the file cache and `PDF_CACHE_MAX_MB` the size budget
+ * @returns Shared cache, or null when caching is disabled
+ */
+export function getRenderCache(): RenderCacheStore | null {
+  if (sharedCache === undefined) {
+    const maxBytes = envInt('PDF_CACHE_MAX_MB', 100) * 1024 * 1024;
+    const backend = process.env.PDF_CACHE || 'memory';
+
+    if (backend === 'off') {
+      sharedCache = null;
+    } else if (backend === 'file') {
+      const dir = process.env.PDF_CACHE_DIR || path.join(os.tmpdir(), 'pdf-render-cache');
+      sharedCache = new FileRenderCache(dir, maxBytes);
+    } else {
+      sharedCache = new MemoryRenderCache(maxBytes);
+    }
+  }
+  return sharedCache;
+}
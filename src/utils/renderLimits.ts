@@ -0,0 +1,129 @@
+import { TimeoutError } from 'puppeteer';
+import { Transform, TransformCallback } from 'stream';
+import { envInt } from './env';
+
+export interface RenderLimits {
+  // Pages a PDF may have
+  maxPages: number;
+  // Time a document may take from loading the markup to the last byte of output
+  renderTimeoutMs: number;
+  // Size of a rendered document, or of all images of a document
+  maxOutputBytes: number;
+}
+
+export const renderLimits: RenderLimits = {
+  maxPages: envInt('PDF_MAX_PAGES', 1000),
+  renderTimeoutMs: envInt('PDF_RENDER_TIMEOUT_MS', 60000),
+  maxOutputBytes: envInt('PDF_MAX_OUTPUT_MB', 100) * 1024 * 1024,
+};
+
+/**
+ * Raised when a document exceeds a render limit: 413 for too many pages or
+ * too much output, 504 when rendering takes too long
+ */
+export class RenderLimitError extends Error {
+  readonly status: 413 | 504;
+
+  constructor(message: string, status: 413 | 504) {
+    super(message);
+    this.name = 'RenderLimitError';
+    this.status = status;
+  }
+
+  /**
+   * Returns the payload sent to API clients with the error response
+   */
+  toJSON(): Record<string, unknown> {
+    return { error: this.message };
+  }
+}
+
+/**
+ * Throws when rendered output is larger than `PDF_MAX_OUTPUT_MB`
+ * @param bytes Size of the output
+ * @throws RenderLimitError with status 413
+ */
+export function checkOutputSize(bytes: number): void {
+  if (bytes > renderLimits.maxOutputBytes) {
+    const megabytes = renderLimits.maxOutputBytes / (1024 * 1024);
+    throw new RenderLimitError(`The document is larger than the limit of ${megabytes} MB`, 413);
+  }
+}
+
+/**
+ * Throws when a PDF has more pages than `PDF_MAX_PAGES`
+ * @param pageCount Pages of the PDF
+ * @throws RenderLimitError with status 413
+ */
+export function checkPageCount(pageCount: number): void {
+  if (pageCount > renderLimits.maxPages) {
+    throw new RenderLimitError(`The document has more than the limit of ${renderLimits.maxPages} pages`, 413);
+  }
+}
+
+/**
+ * Runs a render within `PDF_RENDER_TIMEOUT_MS`. The render is abandoned, not
+ * stopped, so the caller must discard the page it was using.
+ * @param task Render in progress
+ * @returns Result of the render
+ * @throws RenderLimitError with status 504 when the time runs out, also when Puppeteer times out first
+ */
+export async function withRenderTimeout<T>(task: Promise<T>): Promise<T> {
+  const timeoutError = () =>
+    new RenderLimitError(`Rendering took longer than the limit of ${renderLimits.renderTimeoutMs} ms`, 504);
+  let timer: NodeJS.Timeout | undefined;
+
+  try {
+    return await Promise.race([
+      task,
+      new Promise<never>((_, reject) => {
+        timer = setTimeout(() => reject(timeoutError()), renderLimits.renderTimeoutMs);
+      }),
+    ]);
+  } catch (error) {
+    throw error instanceof TimeoutError ? timeoutError() : error;
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+// Page objects, but not the /Pages tree nodes
+const PAGE_OBJECT = /\/Type\s*\/Page(?![A-Za-z])/g;
+
+// Bytes kept between chunks so a page object split across them is still found
+const OVERLAP = 32;
+
+/**
+ * Passes a PDF through while counting its bytes and page objects, and fails
+ * as soon as the output or the page count exceeds the limits. Chromium
+ * writes page dictionaries uncompressed, so they can be counted as they stream.
+ */
+export class PdfLimitStream extends Transform {
+  bytes = 0;
+  pages = 0;
+  private tail = '';
+
+  _transform(chunk: Buffer, encoding: BufferEncoding, callback: TransformCallback): void {
+    this.bytes += chunk.length;
+
+    // A match at the very end could still be "/Pages", so it is left for the next chunk;
+    // matches that end inside the overlap were counted with the previous chunk
+    const text = this.tail + chunk.toString('latin1');
+    for (const match of text.matchAll(PAGE_OBJECT)) {
+      const end = match.index! + match[0].length;
+      if (end >= this.tail.length && end < text.length) {
+        this.pages++;
+      }
+    }
+    this.tail = text.slice(-OVERLAP);
+
+    try {
+      checkOutputSize(this.bytes);
+      checkPageCount(this.pages);
+    } catch (error) {
+      callback(error as Error);
+      return;
+    }
+    callback(null, chunk);
+  }
+}
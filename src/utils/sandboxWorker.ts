@@ -0,0 +1,217 @@
+import { parentPort } from 'worker_threads';
+import vm from 'vm';
+import React from 'react';
+import { renderToStaticMarkup } from 'react-dom/server';
+import { libraryScope } from '../components/library';
+import { DocumentTitle, PageNumber, PrintDate, TotalPages } from '../components/PageTokens';
+import { TEMPLATE_FILENAME } from './templateErrors';
+import { createTranslator, I18nContext, MessageCatalog, useTranslation } from './translator';
+
+export interface SandboxRequest {
+  id: number;
+  code: string;
+  data: string;
+  timeout: number;
+  locale: string;
+  // Message catalogs of the locale in lookup order, serialized as JSON
+  messages: string;
+}
+
+export interface SandboxResponse {
+  id: number;
+  html?: string;
+  error?: {
+    kind: 'timeout' | 'forbidden' | 'runtime';
+    name: string;
+    message: string;
+    stack?: string;
+  };
+}
+
+// Appended to every template to render its `Template` component
+const RENDER_TEMPLATE =
+  "if (typeof Template !== 'function') { throw new ReferenceError('Templates must define a function component named Template'); }" +
+  '__render(React.createElement(Template, data));';
+
+// Node globals a template might reach for; touching any of them fails the render
+const FORBIDDEN_GLOBALS = [
+  'process',
+  'require',
+  'module',
+  'exports',
+  'global',
+  'Buffer',
+  'setTimeout',
+  'setInterval',
+  'setImmediate',
+  'queueMicrotask',
+  'fetch',
+  'WebAssembly',
+  'SharedArrayBuffer',
+  'Atomics',
+];
+
+// The only React API surface exposed to templates
+const SAFE_REACT = Object.freeze({
+  createElement: React.createElement,
+  cloneElement: React.cloneElement,
+  isValidElement: React.isValidElement,
+  Fragment: React.Fragment,
+  Children: Object.freeze({ ...React.Children }),
+  createContext: React.createContext,
+  useContext: React.useContext,
+  useMemo: React.useMemo,
+  useState: React.useState,
+  useId: React.useId,
+});
+
+// Components available to templates without importing them
+const TEMPLATE_SCOPE: Record<string, unknown> = Object.freeze({
+  PageNumber,
+  TotalPages,
+  PrintDate,
+  DocumentTitle,
+  ...libraryScope(),
+  useTranslation,
+});
+
+/**
+ * Locks down this worker's realm so templates cannot climb out of the vm context
+ * through host objects: the Function constructors become unreachable and shared
+ * prototypes cannot be tampered with between renders.
+ */
+function hardenRealm(): void {
+  const functionConstructors = [
+    Function,
+    Object.getPrototypeOf(async function () {}).constructor,
+    Object.getPrototypeOf(function* () {}).constructor,
+    Object.getPrototypeOf(async function* () {}).constructor,
+  ];
+
+  // Stack trace hooks (such as ts-node's source map support) stop working once
+  // prototypes are frozen, so fall back to V8's own formatting
+  delete (Error as { prepareStackTrace?: unknown }).prepareStackTrace;
+
+  for (const ctor of functionConstructors) {
+    Object.defineProperty(ctor.prototype, 'constructor', { value: undefined, writable: false, configurable: false });
+  }
+
+  [Object, Array, String, Number, Boolean, Symbol, Error, Promise, Map, Set, RegExp, Date].forEach((ctor) => {
+    Object.freeze(ctor.prototype);
+    Object.freeze(ctor);
+  });
+  functionConstructors.forEach((ctor) => Object.freeze(ctor.prototype));
+}
+
+/**
+ * Creates a fresh, code-generation-free context holding only the allowlisted globals
+ * @param request Render request with the template data and locale
+ * @returns Contextified global object
+ */
+function createTemplateContext(request: SandboxRequest): vm.Context {
+  const context = vm.createContext(Object.create(null), {
+    name: 'jsx-template',
+    codeGeneration: { strings: false, wasm: false },
+    // Promise jobs run before runInContext returns, so the render timeout covers them too
+    microtaskMode: 'afterEvaluate',
+  });
+
+  // Globals defined from inside the context so that nothing thrown here is a host object
+  vm.runInContext(
+    `
+    (function (names) {
+      for (const name of names) {
+        Object.defineProperty(globalThis, name, {
+          get() {
+            const error = new Error("Access to '" + name + "' is not allowed in templates");
+            error.name = 'SandboxViolation';
+            throw error;
+          },
+          configurable: false,
+        });
+      }
+    })(${JSON.stringify(FORBIDDEN_GLOBALS)});
+    `,
+    context
+  );
+
+  Object.defineProperty(context, 'React', { value: SAFE_REACT, enumerable: true });
+  Object.entries(TEMPLATE_SCOPE).forEach(([name, value]) => {
+    Object.defineProperty(context, name, { value, enumerable: true });
+  });
+
+  // Translation helpers of the document locale, also available through useTranslation()
+  const catalogs = JSON.parse(request.messages) as MessageCatalog[];
+  const translator = Object.freeze(createTranslator(request.locale, catalogs));
+  Object.defineProperty(context, 't', { value: translator.t, enumerable: true });
+  Object.defineProperty(context, 'formatDate', { value: translator.formatDate, enumerable: true });
+  Object.defineProperty(context, 'formatNumber', { value: translator.formatNumber, enumerable: true });
+
+  Object.defineProperty(context, '__data', { value: request.data });
+  Object.defineProperty(context, '__render', {
+    value: (element: React.ReactElement) =>
+      renderToStaticMarkup(React.createElement(I18nContext.Provider, { value: translator }, element)),
+  });
+
+  return context;
+}
+
+/**
+ * Compiles and renders a template inside a fresh context
+ * @param request Render request received from the main thread
+ * @returns Rendered HTML markup
+ */
+function renderTemplate(request: SandboxRequest): string {
+  const context = createTemplateContext(request);
+
+  // The offset keeps line numbers in stack traces aligned with the compiled template code
+  const script = new vm.Script(
+    `const data = JSON.parse(__data);\n${request.code}\n;${RENDER_TEMPLATE}`,
+    { filename: TEMPLATE_FILENAME, lineOffset: -1 }
+  );
+
+  const html = script.runInContext(context, { timeout: request.timeout });
+
+  if (typeof html !== 'string') {
+    throw new Error('Template did not render to markup');
+  }
+
+  return html;
+}
+
+/**
+ * Classifies an error thrown by a template
+ * @param error Error thrown while rendering
+ * @returns Serializable error description
+ */
+function describeError(error: unknown): NonNullable<SandboxResponse['error']> {
+  const err = (error || {}) as { name?: unknown; message?: unknown; stack?: unknown; code?: unknown };
+  const name = typeof err.name === 'string' ? err.name : 'Error';
+  const message = typeof err.message === 'string' ? err.message : String(error);
+
+  let kind: 'timeout' | 'forbidden' | 'runtime' = 'runtime';
+  if (err.code === 'ERR_SCRIPT_EXECUTION_TIMEOUT') {
+    kind = 'timeout';
+  } else if (name === 'SandboxViolation' || name === 'EvalError') {
+    kind = 'forbidden';
+  }
+
+  return { kind, name, message, stack: typeof err.stack === 'string' ? err.stack : undefined };
+}
+
+hardenRealm();
+
+// Tell the main thread the sandbox is ready to accept renders
+parentPort!.postMessage({ ready: true });
+
+parentPort!.on('message', (request: SandboxRequest) => {
+  let response: SandboxResponse;
+
+  try {
+    response = { id: request.id, html: renderTemplate(request) };
+  } catch (error) {
+    response = { id: request.id, error: describeError(error) };
+  }
+
+  parentPort!.postMessage(response);
+});
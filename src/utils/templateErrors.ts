@@ -0,0 +1,91 @@
+// File name reported by Babel and by stack traces for dynamic templates
+export const TEMPLATE_FILENAME = 'dynamic-template.jsx';
+
+export type TemplatePhase = 'compile' | 'render';
+
+export interface TemplateErrorLocation {
+  line?: number;
+  column?: number;
+  codeFrame?: string;
+}
+
+/**
+ * Base class for errors caused by a dynamic template rather than by the server
+ */
+export class TemplateError extends Error {
+  readonly phase: TemplatePhase;
+  readonly line?: number;
+  readonly column?: number;
+  readonly codeFrame?: string;
+
+  constructor(phase: TemplatePhase, message: string, location: TemplateErrorLocation = {}) {
+    super(message);
+    this.name = 'TemplateError';
+    this.phase = phase;
+    this.line = location.line;
+    this.column = location.column;
+    this.codeFrame = location.codeFrame;
+  }
+
+  /**
+   * Returns the structured payload sent to API clients
+   */
+  toJSON() {
+    return {
+      name: this.name,
+      phase: this.phase,
+      message: this.message,
+      line: this.line,
+      column: this.column,
+      codeFrame: this.codeFrame,
+    };
+  }
+}
+
+/**
+ * Raised when Babel cannot transform the JSX source
+ */
+export class TemplateCompileError extends TemplateError {
+  constructor(message: string, location: TemplateErrorLocation = {}) {
+    super('compile', message, location);
+    this.name = 'TemplateCompileError';
+  }
+}
+
+/**
+ * Raised when the compiled template throws while rendering
+ */
+export class TemplateRenderError extends TemplateError {
+  constructor(message: string, location: TemplateErrorLocation = {}) {
+    super('render', message, location);
+    this.name = 'TemplateRenderError';
+  }
+}
+
+/**
+ * Builds a code frame pointing at a position in the template source
+ * @param source Template source code
+ * @param line 1-based line number
+ * @param column 1-based column number
+ * @param context Number of lines shown around the failing line
+ * @returns Code frame with a caret under the failing column
+ */
+export function buildCodeFrame(source: string, line: number, column?: number, context = 2): string {
+  const lines = source.split(/\r?\n/);
+  const start = Math.max(1, line - context);
+  const end = Math.min(lines.length, line + context);
+  const gutterWidth = String(end).length;
+  const frame: string[] = [];
+
+  for (let current = start; current <= end; current++) {
+    const marker = current === line ? '>' : ' ';
+    const gutter = String(current).padStart(gutterWidth);
+    frame.push(`${marker} ${gutter} | ${lines[current - 1]}`.trimEnd());
+
+    if (current === line && column) {
+      frame.push(`  ${' '.repeat(gutterWidth)} | ${' '.repeat(column - 1)}^`);
+    }
+  }
+
+  return frame.join('\n');
+}
@@ -0,0 +1,171 @@
+import fs from 'fs';
+import path from 'path';
+import React from 'react';
+import type { PdfAttachment } from './pdfa';
+import type { PdfOptions } from './pdfGenerator';
+import { describeProps, JsonSchema } from './propsSchema';
+import type { StyleOptions } from './themes';
+
+export interface TemplateMetadata {
+  // Value of `templateType` that selects this template
+  type: string;
+  name: string;
+  description: string;
+  filename?: (data: Record<string, any>) => string;
+  // Values computed from the data (such as invoice totals) returned next to the document
+  summary?: (data: Record<string, any>) => object;
+  // Theme, variables and CSS applied to every document of this template; requests can override them
+  style?: StyleOptions;
+  // Files embedded in PDF/A-3 documents of this template, such as machine-readable invoice data
+  attachments?: (data: Record<string, any>) => PdfAttachment[];
+}
+
+/**
+ * Shape of a module in `src/templates/`
+ */
+export interface TemplateModule {
+  default: React.ComponentType<any>;
+  metadata: TemplateMetadata;
+  propsSchema: JsonSchema;
+  defaultOptions?: PdfOptions;
+  // Props the template is rendered with in the live preview
+  sampleData?: Record<string, any>;
+}
+
+export interface RegisteredTemplate {
+  component: React.ComponentType<any>;
+  metadata: TemplateMetadata;
+  propsSchema: JsonSchema;
+  defaultOptions: PdfOptions;
+  sampleData?: Record<string, any>;
+}
+
+const templatesDir = path.join(__dirname, '..', 'templates');
+const componentsDir = path.join(__dirname, '..', 'components');
+const templates = new Map<string, RegisteredTemplate>();
+
+/**
+ * Checks that a module has the exports a template needs
+ * @param mod Loaded module
+ * @returns Whether the module is a template module
+ */
+function isTemplateModule(mod: Partial<TemplateModule>): mod is TemplateModule {
+  return typeof mod.default === 'function' && Boolean(mod.metadata?.type) && Boolean(mod.propsSchema);
+}
+
+/**
+ * Registers a template, replacing any template with the same type
+ * @param mod Template module exports
+ */
+export function registerTemplate(mod: TemplateModule): void {
+  templates.set(mod.metadata.type, {
+    component: mod.default,
+    metadata: mod.metadata,
+    propsSchema: mod.propsSchema,
+    defaultOptions: mod.defaultOptions || {},
+    sampleData: mod.sampleData,
+  });
+}
+
+/**
+ * Loads every template module found in a directory
+ * @param dir Directory to scan, defaults to `src/templates`
+ */
+export function loadTemplates(dir: string = templatesDir): void {
+  const files = fs
+    .readdirSync(dir)
+    .filter((file) => /\.(tsx?|jsx?)$/.test(file) && !file.endsWith('.d.ts'))
+    .sort();
+
+  files.forEach((file) => {
+    const mod = require(path.join(dir, file));
+
+    if (isTemplateModule(mod)) {
+      registerTemplate(mod);
+    } else {
+      console.warn(`Skipping ${file}: template modules must export a component, metadata and propsSchema`);
+    }
+  });
+}
+
+/**
+ * Loads the template modules again, along with the components they import,
+ * so edits show up without restarting the server. Other modules are kept, so
+ * shared state such as the browser pool and message catalogs survives.
+ * @param dir Directory to scan, defaults to `src/templates`
+ * @throws Error when a template module or one of its components fails to load
+ */
+export function reloadTemplates(dir: string = templatesDir): void {
+  Object.keys(require.cache)
+    .filter((file) => [dir, componentsDir].some((reloaded) => file.startsWith(`${reloaded}${path.sep}`)))
+    .forEach((file) => delete require.cache[file]);
+
+  loadTemplates(dir);
+}
+
+/**
+ * Loads and registers one template module outside the templates directory,
+ * e.g. a file passed to the CLI. The module is loaded again on every call, so
+ * edits to it are picked up.
+ * @param file Path of the module
+ * @returns Type of the registered template
+ * @throws Error when the module does not export a component, metadata and propsSchema
+ */
+export function loadTemplateFile(file: string): string {
+  ensureLoaded();
+
+  const resolved = require.resolve(path.resolve(file));
+  delete require.cache[resolved];
+  const mod = require(resolved);
+
+  if (!isTemplateModule(mod)) {
+    throw new Error(`${file} is not a template module: it must export a component, metadata and propsSchema`);
+  }
+  registerTemplate(mod);
+  return mod.metadata.type;
+}
+
+/**
+ * Loads the built-in templates the first time the registry is used
+ */
+function ensureLoaded(): void {
+  if (templates.size === 0) {
+    loadTemplates();
+  }
+}
+
+/**
+ * Looks up a template by its type
+ * @param type Template type, e.g. "invoice"
+ * @returns The registered template, or undefined when there is none
+ */
+export function getTemplate(type: string): RegisteredTemplate | undefined {
+  ensureLoaded();
+  return templates.get(type);
+}
+
+/**
+ * Lists all registered templates
+ * @returns Registered templates ordered by type
+ */
+export function listTemplates(): RegisteredTemplate[] {
+  ensureLoaded();
+  return Array.from(templates.values()).sort((a, b) => a.metadata.type.localeCompare(b.metadata.type));
+}
+
+/**
+ * Builds the documentation of a template returned by `/components`
+ * @param template Registered template
+ * @returns Component documentation
+ */
+export function describeTemplate(template: RegisteredTemplate) {
+  return {
+    name: template.metadata.name,
+    type: template.metadata.type,
+    description: template.metadata.description,
+    props: describeProps(template.propsSchema),
+    schema: template.propsSchema,
+    defaultOptions: template.defaultOptions,
+    style: template.metadata.style,
+  };
+}
@@ -0,0 +1,229 @@
+import path from 'path';
+import { Worker } from 'worker_threads';
+import { envInt } from './env';
+import { getMessageCatalogs } from './i18n';
+import type { SandboxRequest, SandboxResponse } from './sandboxWorker';
+import { TemplateErrorLocation, TemplateRenderError } from './templateErrors';
+
+export type SandboxFailure = 'timeout' | 'memory' | 'forbidden' | 'crashed';
+
+/**
+ * Raised when a dynamic template breaks the sandbox rules: it ran too long,
+ * used too much memory, reached for a Node global or crashed the worker.
+ */
+export class TemplateSandboxError extends TemplateRenderError {
+  readonly reason: SandboxFailure;
+
+  constructor(reason: SandboxFailure, message: string, location: TemplateErrorLocation = {}) {
+    super(message, location);
+    this.name = 'TemplateSandboxError';
+    this.reason = reason;
+  }
+
+  toJSON() {
+    return { ...super.toJSON(), reason: this.reason };
+  }
+}
+
+interface PendingRender {
+  resolve: (html: string) => void;
+  reject: (error: Error) => void;
+  timer: NodeJS.Timeout;
+  worker: Worker;
+}
+
+const TIMEOUT_MS = envInt('PDF_SANDBOX_TIMEOUT_MS', 2000);
+const MEMORY_MB = envInt('PDF_SANDBOX_MEMORY_MB', 128);
+
+// Extra time the worker gets to report a timeout itself before it is terminated
+const WATCHDOG_GRACE_MS = 1000;
+
+interface SandboxWorker {
+  instance: Worker;
+  ready: Promise<void>;
+}
+
+let worker: SandboxWorker | null = null;
+let nextId = 1;
+const pending = new Map<number, PendingRender>();
+
+/**
+ * Starts the sandbox worker; under ts-node the worker registers ts-node itself
+ * @returns The worker and a promise that settles once it can accept renders
+ */
+function spawnWorker(): SandboxWorker {
+  const workerFile = path.join(__dirname, `sandboxWorker${path.extname(__filename)}`);
+  const resourceLimits = { maxOldGenerationSizeMb: MEMORY_MB };
+
+  const instance = workerFile.endsWith('.ts')
+    ? new Worker(
+        `require('ts-node').register({ transpileOnly: true }); require(${JSON.stringify(workerFile)});`,
+        { eval: true, resourceLimits }
+      )
+    : new Worker(workerFile, { resourceLimits });
+
+  const ready = new Promise<void>((resolve, reject) => {
+    instance.once('message', () => resolve());
+    instance.once('error', reject);
+  });
+  const sandbox: SandboxWorker = { instance, ready };
+
+  instance.on('message', (response: SandboxResponse) => {
+    const render = pending.get(response.id);
+    if (!render) {
+      return;
+    }
+
+    pending.delete(response.id);
+    clearTimeout(render.timer);
+
+    if (response.error) {
+      const { kind, name, message, stack } = response.error;
+      if (kind === 'timeout') {
+        render.reject(new TemplateSandboxError('timeout', `Template exceeded the ${TIMEOUT_MS}ms render time limit`));
+      } else if (kind === 'forbidden') {
+        const error = new TemplateSandboxError('forbidden', message);
+        error.stack = stack;
+        render.reject(error);
+      } else {
+        const error = new Error(message);
+        error.name = name;
+        error.stack = stack;
+        render.reject(error);
+      }
+    } else {
+      render.resolve(response.html || '');
+    }
+  });
+
+  instance.on('error', (error: Error & { code?: string }) => {
+    const outOfMemory = error.code === 'ERR_WORKER_OUT_OF_MEMORY';
+    failAll(
+      instance,
+      outOfMemory
+        ? new TemplateSandboxError('memory', `Template exceeded the ${MEMORY_MB}MB memory limit`)
+        : new TemplateSandboxError('crashed', `Template sandbox crashed: ${error.message}`)
+    );
+  });
+
+  instance.on('exit', () => {
+    if (worker === sandbox) {
+      worker = null;
+    }
+    failAll(instance, new TemplateSandboxError('crashed', 'Template sandbox exited unexpectedly'));
+  });
+
+  return sandbox;
+}
+
+/**
+ * Rejects every in-flight render held by a worker, used when that worker dies
+ * @param instance Worker that stopped
+ * @param error Error to reject with
+ */
+function failAll(instance: Worker, error: Error): void {
+  for (const [id, render] of pending) {
+    if (render.worker !== instance) {
+      continue;
+    }
+    clearTimeout(render.timer);
+    render.reject(error);
+    pending.delete(id);
+  }
+}
+
+/**
+ * Counts renders already waiting on a worker
+ * @param instance Worker to inspect
+ * @returns Number of in-flight renders
+ */
+function queuedOn(instance: Worker): number {
+  let count = 0;
+  pending.forEach((render) => {
+    if (render.worker === instance) {
+      count++;
+    }
+  });
+  return count;
+}
+
+/**
+ * Renders compiled template code to HTML inside the isolated worker
+ * @param code JavaScript produced from the JSX template; must define a `Template` component
+ * @param data Data to be passed as props to the component
+ * @param locale Locale of the translation helpers available to the template
+ * @returns Rendered HTML markup
+ */
+export async function renderInSandbox(
+  code: string,
+  data: Record<string, any> = {},
+  locale?: string
+): Promise<string> {
+  if (!worker) {
+    worker = spawnWorker();
+  }
+
+  const sandbox = worker;
+  const current = sandbox.instance;
+
+  // Keep the process alive only while renders are outstanding
+  current.ref();
+
+  try {
+    await sandbox.ready;
+    return await dispatch(sandbox, code, data, locale);
+  } finally {
+    if (queuedOn(current) === 0) {
+      current.unref();
+    }
+  }
+}
+
+/**
+ * Sends a render request to a ready worker and arms the watchdog
+ * @param sandbox Worker to render on
+ * @param code JavaScript code defining the template
+ * @param data Data to be passed as props to the component
+ * @param locale Locale of the translation helpers
+ * @returns Rendered HTML markup
+ */
+function dispatch(sandbox: SandboxWorker, code: string, data: Record<string, any>, locale = 'en'): Promise<string> {
+  const current = sandbox.instance;
+  const id = nextId++;
+  const request: SandboxRequest = {
+    id,
+    code,
+    data: JSON.stringify(data),
+    timeout: TIMEOUT_MS,
+    locale,
+    messages: JSON.stringify(getMessageCatalogs(locale)),
+  };
+
+  return new Promise<string>((resolve, reject) => {
+    // Renders are queued in the worker, so the watchdog also covers time spent waiting
+    const timer = setTimeout(() => {
+      pending.delete(id);
+      reject(new TemplateSandboxError('timeout', `Template exceeded the ${TIMEOUT_MS}ms render time limit`));
+
+      // The worker is stuck; replace it and fail whatever else it was holding
+      if (worker === sandbox) {
+        worker = null;
+      }
+      current.terminate().catch(() => undefined);
+    }, TIMEOUT_MS * (queuedOn(current) + 1) + WATCHDOG_GRACE_MS);
+
+    pending.set(id, { resolve, reject, timer, worker: current });
+    current.postMessage(request);
+  });
+}
+
+/**
+ * Stops the sandbox worker if it is running
+ */
+export async function shutdownTemplateSandbox(): Promise<void> {
+  if (worker) {
+    const current = worker;
+    worker = null;
+    await current.instance.terminate();
+  }
+}
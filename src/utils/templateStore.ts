@@ -0,0 +1,213 @@
+import { randomUUID } from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import type { CompiledTemplate, PdfOptions } from './pdfGenerator';
+import type { JsonSchema } from './propsSchema';
+
+/**
+ * One version of a stored template, kept compiled so rendering it skips Babel
+ */
+export interface StoredTemplateVersion {
+  version: number;
+  createdAt: string;
+  template: CompiledTemplate;
+  propsSchema?: JsonSchema;
+  defaultOptions?: PdfOptions;
+}
+
+export interface StoredTemplate {
+  id: string;
+  name: string;
+  description?: string;
+  createdAt: string;
+  updatedAt: string;
+  // Oldest first; versions are never changed once stored
+  versions: StoredTemplateVersion[];
+}
+
+/**
+ * Everything needed to store a new version of a template
+ */
+export interface TemplateDraft {
+  name?: string;
+  description?: string;
+  template: CompiledTemplate;
+  propsSchema?: JsonSchema;
+  defaultOptions?: PdfOptions;
+}
+
+/**
+ * Keeps JSX templates registered through `/templates` in a directory, one
+ * JSON file per template holding every version. All templates are read into
+ * memory when the store is opened, so looking one up never touches the disk.
+ */
+export class TemplateStore {
+  private readonly dir: string;
+  private templates = new Map<string, StoredTemplate>();
+  // Pending writes of each template, so saves of one template run one after another
+  private writes = new Map<string, Promise<unknown>>();
+
+  constructor(dir: string) {
+    this.dir = dir;
+    fs.mkdirSync(dir, { recursive: true });
+
+    for (const file of fs.readdirSync(dir).filter((name) => name.endsWith('.json'))) {
+      try {
+        const stored: StoredTemplate = JSON.parse(fs.readFileSync(path.join(dir, file), 'utf8'));
+        this.templates.set(stored.id, stored);
+      } catch (error) {
+        console.warn(`Skipping stored template ${file}: ${(error as Error).message}`);
+      }
+    }
+  }
+
+  /**
+   * Lists the stored templates
+   * @returns Templates ordered by name
+   */
+  list(): StoredTemplate[] {
+    return Array.from(this.templates.values()).sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  /**
+   * Looks up a stored template
+   * @param id Template id
+   * @returns The template with all its versions, or undefined when there is none
+   */
+  get(id: string): StoredTemplate | undefined {
+    return this.templates.get(id);
+  }
+
+  /**
+   * Looks up one version of a stored template
+   * @param id Template id
+   * @param version Version number, defaults to the latest version
+   * @returns The version, or undefined when the template or version does not exist
+   */
+  getVersion(id: string, version?: number): StoredTemplateVersion | undefined {
+    const versions = this.templates.get(id)?.versions || [];
+    return version === undefined ? versions[versions.length - 1] : versions.find((entry) => entry.version === version);
+  }
+
+  /**
+   * Stores a new template, or a new version of an existing one
+   * @param draft Compiled template with its schema and default options
+   * @param id Template to add a version to; a new template is created when omitted
+   * @returns The stored template, or undefined when `id` does not exist
+   */
+  save(draft: TemplateDraft, id?: string): Promise<StoredTemplate | undefined> {
+    if (id === undefined) {
+      const created = randomUUID();
+      return this.queue(created, () => this.write(draft, created));
+    }
+    return this.queue(id, async () => (this.templates.has(id) ? this.write(draft, id) : undefined));
+  }
+
+  /**
+   * Writes a new version of a template. Runs queued, so the version number
+   * follows every save of the template that came before it.
+   * @param draft Compiled template with its schema and default options
+   * @param id Template to add a version to, or the id of a new template
+   * @returns The stored template
+   */
+  private async write(draft: TemplateDraft, id: string): Promise<StoredTemplate> {
+    const existing = this.templates.get(id);
+    const now = new Date().toISOString();
+    const { name, description, ...compiled } = draft;
+    const previous = existing?.versions[existing.versions.length - 1];
+    const stored: StoredTemplate = {
+      id,
+      name: name || existing?.name || 'Untitled template',
+      description: description ?? existing?.description,
+      createdAt: existing?.createdAt || now,
+      updatedAt: now,
+      versions: [...(existing?.versions || []), { version: (previous?.version || 0) + 1, createdAt: now, ...compiled }],
+    };
+
+    // Written to a temporary file first, so a crash never leaves half a template behind
+    const file = path.join(this.dir, `${stored.id}.json`);
+    const temporary = `${file}.${randomUUID()}.tmp`;
+    await fs.promises.writeFile(temporary, JSON.stringify(stored));
+    await fs.promises.rename(temporary, file);
+
+    this.templates.set(stored.id, stored);
+    return stored;
+  }
+
+  /**
+   * Deletes a template with all its versions
+   * @param id Template id
+   * @returns Whether the template existed
+   */
+  delete(id: string): Promise<boolean> {
+    return this.queue(id, async () => {
+      if (!this.templates.has(id)) {
+        return false;
+      }
+
+      await fs.promises.rm(path.join(this.dir, `${id}.json`), { force: true });
+      this.templates.delete(id);
+      return true;
+    });
+  }
+
+  /**
+   * Runs a change to a template once the changes queued before it have finished
+   * @param id Template id
+   * @param task Change to make
+   * @returns Result of the change
+   */
+  private queue<T>(id: string, task: () => Promise<T>): Promise<T> {
+    const result = (this.writes.get(id) || Promise.resolve()).then(task);
+    // A failed write does not stop the next one
+    const settled = result.catch(() => undefined);
+    this.writes.set(id, settled);
+    settled.then(() => {
+      if (this.writes.get(id) === settled) {
+        this.writes.delete(id);
+      }
+    });
+    return result;
+  }
+}
+
+/**
+ * Describes a stored template for API responses, without its compiled code
+ * @param stored Stored template
+ * @returns Id, name, latest version and the number and date of each version
+ */
+export function describeStoredTemplate(stored: StoredTemplate) {
+  const latest = stored.versions[stored.versions.length - 1];
+  return {
+    id: stored.id,
+    name: stored.name,
+    description: stored.description,
+    version: latest.version,
+    createdAt: stored.createdAt,
+    updatedAt: stored.updatedAt,
+    versions: stored.versions.map(({ version, createdAt }) => ({ version, createdAt })),
+  };
+}
+
+let sharedStore: TemplateStore | undefined;
+
+/**
+ * Replaces the process-wide template store, e.g. to use another directory in tests
+ * @param store Template store
+ */
+export function configureTemplateStore(store: TemplateStore): void {
+  sharedStore = store;
+}
+
+/**
+ * Returns the process-wide template store, kept in `PDF_TEMPLATE_STORE_DIR`
+ * or `data/templates` under the working directory
+ * @returns Shared template store
+ */
+export function getTemplateStore(): TemplateStore {
+  if (!sharedStore) {
+    const dir = process.env.PDF_TEMPLATE_STORE_DIR || path.join(process.cwd(), 'data', 'templates');
+    sharedStore = new TemplateStore(dir);
+  }
+  return sharedStore;
+}
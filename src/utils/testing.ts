@@ -0,0 +1,41 @@
+// Failed checks of the running test script
+let failures = 0;
+
+/**
+ * Checks that a value matches the expected one, comparing them as JSON
+ * @param name Name of the check, printed with its outcome
+ * @param actual Value produced by the code under test
+ * @param expected Value it should have
+ * @returns Whether the check passed
+ */
+export function expect(name: string, actual: unknown, expected: unknown): boolean {
+  if (JSON.stringify(actual) === JSON.stringify(expected)) {
+    console.log(`${name}: ok`);
+    return true;
+  }
+
+  console.error(`${name}: expected ${JSON.stringify(expected)}, got ${JSON.stringify(actual)}`);
+  failures++;
+  return false;
+}
+
+/**
+ * Records a failed check that `expect` cannot express
+ * @param message Description of the failure
+ */
+export function fail(message: string): void {
+  console.error(message);
+  failures++;
+}
+
+/**
+ * Ends a test script, failing the process when a check failed
+ * @param summary Line printed once the tests ran, e.g. "Cache tests completed!"
+ */
+export function finishTests(summary: string): void {
+  if (failures > 0) {
+    process.exitCode = 1;
+  }
+
+  console.log(summary);
+}
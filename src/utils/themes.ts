@@ -0,0 +1,173 @@
+import fs from 'fs';
+import path from 'path';
+
+/**
+ * CSS custom property overrides. The named fields map to the variables used
+ * by the base theme; any other custom property can be set by its full name.
+ */
+export interface ThemeVariables {
+  brandColor?: string;
+  fontFamily?: string;
+  baseFontSize?: string;
+  [property: `--${string}`]: string | undefined;
+}
+
+/**
+ * Styling accepted by `PdfOptions` and template metadata
+ */
+export interface StyleOptions {
+  // Name of a theme in the themes directory, e.g. "corporate"
+  theme?: string;
+  // CSS custom property overrides applied after the theme
+  variables?: ThemeVariables;
+  // Extra CSS appended after the theme and variables
+  css?: string;
+}
+
+export interface Theme {
+  name: string;
+  css: string;
+}
+
+/**
+ * Raised when style options reference an unknown theme or contain unsafe values
+ */
+export class ThemeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ThemeError';
+  }
+}
+
+const themesDir = process.env.PDF_THEMES_DIR || path.join(__dirname, '..', 'themes');
+const baseThemeCss = fs.readFileSync(path.join(__dirname, '..', 'public', 'theme.css'), 'utf8');
+const themes = new Map<string, Theme>();
+let loaded = false;
+
+// Custom properties behind the named variables
+const VARIABLE_PROPERTIES: Record<'brandColor' | 'fontFamily' | 'baseFontSize', string> = {
+  brandColor: '--brand-color',
+  fontFamily: '--default-font-family',
+  baseFontSize: '--base-font-size',
+};
+
+/**
+ * Registers a theme, replacing any theme with the same name
+ * @param name Theme name used in the `theme` option
+ * @param css Theme stylesheet
+ */
+export function registerTheme(name: string, css: string): void {
+  themes.set(name, { name, css });
+}
+
+/**
+ * Loads every `.css` file in a directory as a theme named after the file
+ * @param dir Directory to scan, defaults to `src/themes` or `PDF_THEMES_DIR`
+ */
+export function loadThemes(dir: string = themesDir): void {
+  loaded = true;
+
+  if (!fs.existsSync(dir)) {
+    console.warn(`Theme directory ${dir} does not exist`);
+    return;
+  }
+
+  fs.readdirSync(dir)
+    .filter((file) => file.endsWith('.css'))
+    .sort()
+    .forEach((file) => registerTheme(path.basename(file, '.css'), fs.readFileSync(path.join(dir, file), 'utf8')));
+}
+
+/**
+ * Loads the theme directory the first time themes are used, when it was not loaded at startup
+ */
+function ensureLoaded(): void {
+  if (!loaded) {
+    loadThemes();
+  }
+}
+
+/**
+ * Looks up a theme by name
+ * @param name Theme name
+ * @returns The theme, or undefined when there is none
+ */
+export function getTheme(name: string): Theme | undefined {
+  ensureLoaded();
+  return themes.get(name);
+}
+
+/**
+ * Lists the names of all registered themes
+ * @returns Theme names in alphabetical order
+ */
+export function listThemes(): string[] {
+  ensureLoaded();
+  return Array.from(themes.keys()).sort();
+}
+
+/**
+ * Layers request styling over template styling: the request theme wins,
+ * variables are merged and extra CSS from both is kept in order
+ * @param base Styling of the template
+ * @param override Styling of the request
+ * @returns Combined styling
+ */
+export function mergeStyleOptions(base: StyleOptions = {}, override: StyleOptions = {}): StyleOptions {
+  const css = [base.css, override.css].filter(Boolean).join('\n');
+
+  return {
+    theme: override.theme || base.theme,
+    variables: base.variables || override.variables ? { ...base.variables, ...override.variables } : undefined,
+    css: css || undefined,
+  };
+}
+
+/**
+ * Checks that style options only reference registered themes and contain values that stay inside their rule
+ * @param style Style options to check
+ * @throws ThemeError when the theme is unknown or a variable is invalid
+ */
+export function validateStyleOptions(style: StyleOptions): void {
+  if (style.theme !== undefined && !getTheme(style.theme)) {
+    throw new ThemeError(`Unknown theme "${style.theme}"`);
+  }
+
+  Object.entries(style.variables || {}).forEach(([name, value]) => {
+    if (!(name in VARIABLE_PROPERTIES) && !/^--[\w-]+$/.test(name)) {
+      throw new ThemeError(`Invalid theme variable "${name}"`);
+    }
+    if (typeof value !== 'string' || /[{};<>]/.test(value)) {
+      throw new ThemeError(`Invalid value for theme variable "${name}"`);
+    }
+  });
+
+  if (style.css !== undefined && typeof style.css !== 'string') {
+    throw new ThemeError('Invalid css, expected a string');
+  }
+}
+
+/**
+ * Builds the CSS placed after the base stylesheet: the base theme, the named
+ * theme, variable overrides and extra CSS, in that order
+ * @param style Style options of the document
+ * @returns CSS for the document's `<style>` element
+ */
+export function buildThemeCss(style: StyleOptions = {}): string {
+  const theme = style.theme ? getTheme(style.theme) : undefined;
+  const declarations = Object.entries(style.variables || {})
+    .filter(([, value]) => value !== undefined)
+    .map(([name, value]) => `${VARIABLE_PROPERTIES[name as keyof typeof VARIABLE_PROPERTIES] || name}: ${value};`);
+
+  const css = [
+    baseThemeCss,
+    theme?.css,
+    declarations.length > 0 ? `:root { ${declarations.join(' ')} }` : undefined,
+    style.css,
+  ]
+    .filter(Boolean)
+    .join('\n');
+
+  // Keep user CSS from closing the surrounding <style> element
+  return css.replace(/<\/style/gi, '<\\/style');
+}
@@ -0,0 +1,81 @@
+import React from 'react';
+import english from '../locales/en.json';
+
+export type MessageCatalog = Record<string, string>;
+
+export type TextDirection = 'ltr' | 'rtl';
+
+/**
+ * Translation and formatting helpers bound to one locale
+ */
+export interface Translator {
+  locale: string;
+  dir: TextDirection;
+  // Looks up a message and fills in `{name}` placeholders; unknown keys are returned as-is
+  t: (key: string, params?: Record<string, string | number>) => string;
+  // Formats a date, a timestamp or a date string; YYYY-MM-DD strings are read as calendar dates
+  formatDate: (value: string | number | Date, options?: Intl.DateTimeFormatOptions) => string;
+  formatNumber: (value: number, options?: Intl.NumberFormatOptions) => string;
+}
+
+export const DEFAULT_LOCALE = 'en';
+
+// Languages written right to left
+const RTL_LANGUAGES = ['ar', 'dv', 'fa', 'he', 'ks', 'ku', 'ps', 'sd', 'ug', 'ur', 'yi'];
+
+/**
+ * Returns the writing direction of a locale
+ * @param locale BCP 47 locale, e.g. "ar-EG"
+ * @returns "rtl" for right-to-left languages, otherwise "ltr"
+ */
+export function textDirection(locale: string): TextDirection {
+  return RTL_LANGUAGES.includes(locale.split('-')[0].toLowerCase()) ? 'rtl' : 'ltr';
+}
+
+/**
+ * Creates a translator for a locale
+ * @param locale BCP 47 locale used for messages and formatting
+ * @param catalogs Message catalogs in lookup order, most specific first and English last
+ * @returns Translator bound to the locale
+ */
+export function createTranslator(locale: string, catalogs: MessageCatalog[]): Translator {
+  const t = (key: string, params: Record<string, string | number> = {}) => {
+    const catalog = catalogs.find((messages) => Object.prototype.hasOwnProperty.call(messages, key));
+    const message = catalog ? catalog[key] : key;
+
+    return message.replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+      params[name] !== undefined ? String(params[name]) : placeholder
+    );
+  };
+
+  const formatDate = (value: string | number | Date, options: Intl.DateTimeFormatOptions = { dateStyle: 'medium' }) => {
+    // Calendar dates are formatted in UTC so they do not shift a day in other time zones
+    const calendarDate = typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value);
+    const date = value instanceof Date ? value : new Date(value);
+
+    if (Number.isNaN(date.getTime())) {
+      return String(value);
+    }
+
+    return new Intl.DateTimeFormat(locale, calendarDate ? { timeZone: 'UTC', ...options } : options).format(date);
+  };
+
+  const formatNumber = (value: number, options?: Intl.NumberFormatOptions) =>
+    new Intl.NumberFormat(locale, options).format(value);
+
+  return { locale, dir: textDirection(locale), t, formatDate, formatNumber };
+}
+
+/**
+ * Context holding the translator of the document being rendered; English when
+ * a template is rendered without a provider
+ */
+export const I18nContext = React.createContext<Translator>(createTranslator(DEFAULT_LOCALE, [english]));
+
+/**
+ * Returns the translator of the document being rendered
+ * @returns Translator for the document locale
+ */
+export function useTranslation(): Translator {
+  return React.useContext(I18nContext);
+}
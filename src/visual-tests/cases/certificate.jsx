@@ -0,0 +1,14 @@
+function Template({ recipient, course, date, signatory }) {
+  return (
+    <div className="border-4 border-double border-gray-700 p-12 text-center">
+      <p className="text-sm uppercase tracking-widest text-gray-500">Certificate of Completion</p>
+      <h1 className="text-4xl font-bold my-6">{recipient}</h1>
+      <p className="text-lg">has completed the course</p>
+      <h2 className="text-2xl font-semibold my-4">{course}</h2>
+      <div className="flex justify-between mt-12 text-sm">
+        <span>{date}</span>
+        <span>{signatory}</span>
+      </div>
+    </div>
+  );
+}